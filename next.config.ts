@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // OCR loads its worker script, WASM core and language data from node_modules at runtime
+  serverExternalPackages: ['tesseract.js', '@tesseract.js-data/eng', 'heic-decode'],
 };
 
 export default nextConfig;
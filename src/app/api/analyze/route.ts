@@ -1,10 +1,34 @@
 // Analysis API route - triggers background job via Inngest
 
 import { NextRequest, NextResponse } from 'next/server';
-import { truncateForAnalysis } from '@/lib/parsers/csv-parser';
 import { sanitizeCSVContent } from '@/lib/utils/sanitizer';
-import { validateCSVStructure } from '@/lib/validators/content-validator';
-import { processPDF } from '@/lib/parsers/pdf-parser';
+import { decodeText } from '@/lib/utils/encoding';
+import { tokenizeCSV } from '@/lib/utils/csv';
+import {
+  processPDF,
+  processStatementImage,
+  type StatementExtraction,
+} from '@/lib/parsers/pdf-parser';
+import { MAX_OCR_PAGES } from '@/lib/parsers/ocr';
+import { applyCSVProfile } from '@/lib/parsers/csv-profiles';
+import { normalizeTransactions } from '@/lib/parsers/transaction-normalizer';
+import { convertExcelToCSV } from '@/lib/parsers/excel-parser';
+import {
+  prepareAnalysisInput,
+  MAX_STATEMENT_FILES,
+  type StatementInput,
+} from '@/lib/parsers/statement-merger';
+import type { PendingPDF } from '@/lib/parsers/pdf-chunks';
+import {
+  extractStatementMetadata,
+  hasStatementDetails,
+  reconcileStatement,
+} from '@/lib/parsers/statement-metadata';
+import { checkRunningBalance } from '@/lib/parsers/running-balance';
+import {
+  isStructuredStatementType,
+  parseStructuredStatement,
+} from '@/lib/parsers/statement-parser';
 import {
   checkRateLimit,
   getClientIP,
@@ -12,10 +36,144 @@ import {
 } from '@/lib/utils/rate-limiter';
 import { AppError, isAppError, getErrorResponse } from '@/lib/errors';
 import { inngest } from '@/lib/inngest';
-import { createJob } from '@/lib/redis/jobs';
+import { createJob, saveJobInput } from '@/lib/redis/jobs';
+import {
+  ACCOUNT_TYPES,
+  STATEMENT_FILE_TYPES,
+  LOW_OCR_CONFIDENCE,
+  type AccountType,
+  type DetectedProfile,
+  type OCRPageConfidence,
+  type RunningBalanceCheck,
+  type StatementFileType,
+  type StatementMetadata,
+} from '@/lib/types';
 
 export const maxDuration = 60; // Fast response - actual work done by Inngest
 
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB per statement
+
+/**
+ * Resolve the declared file type, defaulting to CSV for unknown values
+ */
+function resolveFileType(value: unknown): StatementFileType {
+  return STATEMENT_FILE_TYPES.find((type) => type === value) ?? 'csv';
+}
+
+/**
+ * Resolve the account type the user chose, or undefined to detect it
+ */
+function resolveAccountType(value: unknown): AccountType | undefined {
+  return ACCOUNT_TYPES.find((type) => type === value);
+}
+
+/**
+ * Pick the account type most statements point to
+ * Without any signal, statements are read as credit card statements
+ */
+function pickAccountType(detected: AccountType[]): AccountType {
+  const bank = detected.filter((type) => type === 'bank_account').length;
+  return bank > detected.length - bank ? 'bank_account' : 'credit_card';
+}
+
+/**
+ * Read an uploaded file into CSV content according to its type
+ * Scans are read with OCR up to ocrPageLimit pages, what's left of the upload's OCR budget
+ * The PDF password is only used to decrypt - never log it or pass it on
+ */
+async function readStatementFile(
+  file: File,
+  fileType: StatementFileType,
+  ocrPageLimit: number,
+  password?: string
+): Promise<StatementExtraction> {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new AppError('FILE_TOO_LARGE', `${file.name} exceeds 10MB limit`);
+  }
+
+  if (fileType === 'pdf') {
+    // Process PDF using pdf2json, with OCR for scanned pages, and extract transactions
+    const buffer = Buffer.from(await file.arrayBuffer());
+    return processPDF(buffer, password, ocrPageLimit);
+  }
+
+  if (fileType === 'image') {
+    // Photos of statements are read with OCR
+    return processStatementImage(Buffer.from(await file.arrayBuffer()), ocrPageLimit);
+  }
+
+  if (fileType === 'excel') {
+    return { content: await convertExcelToCSV(await file.arrayBuffer()) };
+  }
+
+  // Read text content, transcoding to UTF-8
+  const { text } = decodeText(await file.arrayBuffer());
+
+  // OFX/camt.053/MT940 hold typed fields - convert directly to canonical CSV
+  return isStructuredStatementType(fileType)
+    ? parseStructuredStatement(text, fileType)
+    : { content: text };
+}
+
+/**
+ * Sanitize one statement and rewrite spreadsheet layouts to canonical columns
+ */
+function prepareStatement(
+  content: string,
+  fileType: StatementFileType
+): { content: string; csvProfile?: DetectedProfile; warnings: string[] } {
+  if (content.length < 50) {
+    throw new AppError(
+      'NO_TRANSACTIONS',
+      'Content too short to contain transactions'
+    );
+  }
+
+  const sanitizedContent = sanitizeCSVContent(content);
+
+  if (fileType !== 'csv' && fileType !== 'excel') {
+    return { content: sanitizedContent, warnings: [] };
+  }
+
+  // Known bank exports are mapped by profile
+  const profiled = applyCSVProfile(sanitizedContent);
+  if (profiled.profile) {
+    return { content: profiled.content, csvProfile: profiled.profile, warnings: [] };
+  }
+
+  // Unknown layouts are normalized by detected columns, with dates rewritten to ISO
+  const normalized = normalizeTransactions(sanitizedContent);
+  return { content: normalized.content, warnings: normalized.warnings };
+}
+
+/**
+ * Read the account details printed in a spreadsheet's banner rows
+ * Other formats carry them in their extraction, or not at all
+ */
+function readPrintedDetails(
+  extraction: StatementExtraction,
+  fileType: StatementFileType,
+  issuer?: string
+): StatementMetadata {
+  if (fileType !== 'csv' && fileType !== 'excel') {
+    return extraction.metadata ?? {};
+  }
+
+  const text = tokenizeCSV(extraction.content)
+    .map((row) => row.join(' '))
+    .join('\n');
+  return extractStatementMetadata(text, { issuer });
+}
+
+/**
+ * Name the file an error came from when several were uploaded
+ */
+function withFileName(error: unknown, fileName: string): unknown {
+  if (!isAppError(error)) return error;
+  const technical = error.technical ? `${fileName}: ${error.technical}` : fileName;
+  return new AppError(error.userError.code, technical);
+}
+
 export async function POST(request: NextRequest) {
   const clientIP = getClientIP(request);
 
@@ -25,35 +183,48 @@ export async function POST(request: NextRequest) {
 
     // Determine content type
     const contentType = request.headers.get('content-type') || '';
-    let csvContent: string;
-    let fileType: 'csv' | 'pdf' = 'csv';
-    let fileName = 'statement';
+    let requestedAccountType: AccountType | undefined;
+    const uploads: Array<{
+      fileName: string;
+      fileType: StatementFileType;
+      read: (ocrPageLimit: number) => Promise<StatementExtraction>;
+    }> = [];
 
     // Step 2: Parse request based on content type
     if (contentType.includes('multipart/form-data')) {
-      // Handle PDF file upload via FormData
+      // Handle PDF, bank format and multi-statement uploads via FormData
       const formData = await request.formData();
-      const file = formData.get('file') as File | null;
-      fileType = (formData.get('fileType') as string) === 'pdf' ? 'pdf' : 'csv';
+      const files = formData
+        .getAll('file')
+        .filter((entry): entry is File => entry instanceof File);
+      const fileTypes = formData.getAll('fileType');
+      requestedAccountType = resolveAccountType(formData.get('accountType'));
+      const passwordField = formData.get('password');
+      const password =
+        typeof passwordField === 'string' && passwordField
+          ? passwordField
+          : undefined;
 
-      if (!file) {
+      if (files.length === 0) {
         throw new AppError('FILE_EMPTY', 'No file provided in request');
       }
 
-      if (file.size > 10 * 1024 * 1024) {
-        throw new AppError('FILE_TOO_LARGE', 'File exceeds 10MB limit');
+      if (files.length > MAX_STATEMENT_FILES) {
+        throw new AppError(
+          'TOO_MANY_FILES',
+          `${files.length} files, max ${MAX_STATEMENT_FILES}`
+        );
       }
 
-      fileName = file.name;
-
-      if (fileType === 'pdf') {
-        // Process PDF using pdf2json and extract transactions
-        const buffer = Buffer.from(await file.arrayBuffer());
-        csvContent = await processPDF(buffer);
-      } else {
-        // Read CSV content from file
-        csvContent = await file.text();
-      }
+      files.forEach((file, index) => {
+        const fileType = resolveFileType(fileTypes[index]);
+        uploads.push({
+          fileName: file.name,
+          fileType,
+          read: (ocrPageLimit) =>
+            readStatementFile(file, fileType, ocrPageLimit, password),
+        });
+      });
     } else {
       // Handle JSON request (CSV content already parsed client-side)
       let body;
@@ -63,53 +234,155 @@ export async function POST(request: NextRequest) {
         throw new AppError('PARSE_ERROR', 'Invalid JSON in request body');
       }
 
-      csvContent = body.csvContent;
-      fileType = body.fileType === 'pdf' ? 'pdf' : 'csv';
-      fileName = body.fileName || 'statement.csv';
+      const csvContent = body.csvContent;
+      requestedAccountType = resolveAccountType(body.accountType);
 
       if (!csvContent || typeof csvContent !== 'string') {
         throw new AppError('FILE_EMPTY', 'No content provided in request');
       }
-    }
 
-    // Step 3: Validate content length
-    if (csvContent.length < 50) {
-      throw new AppError(
-        'NO_TRANSACTIONS',
-        'Content too short to contain transactions'
-      );
+      if (csvContent.length > MAX_FILE_SIZE) {
+        throw new AppError('FILE_TOO_LARGE', 'CSV content exceeds 10MB limit');
+      }
+
+      uploads.push({
+        fileName: body.fileName || 'statement.csv',
+        fileType: resolveFileType(body.fileType),
+        read: async () => ({ content: csvContent }),
+      });
     }
 
-    // Step 4: Sanitize content
-    const sanitizedContent = sanitizeCSVContent(csvContent);
+    // Steps 3-4: Read, sanitize and normalize each statement to canonical columns
+    const isMultiFile = uploads.length > 1;
+    const statements: StatementInput[] = [];
+    const pendingPDFs: PendingPDF[] = [];
+    const warnings: string[] = [];
+    const ocrPages: OCRPageConfidence[] = [];
+    const statementDetails: StatementMetadata[] = [];
+    const balanceChecks: RunningBalanceCheck[] = [];
+    const detectedAccountTypes: AccountType[] = [];
+
+    for (const [position, upload] of uploads.entries()) {
+      try {
+        // OCR pages are shared by all files, so the upload fits the request's time limit
+        const extraction = await upload.read(MAX_OCR_PAGES - ocrPages.length);
+        const fileWarnings = [...(extraction.warnings ?? [])];
+
+        if (extraction.pendingPages) {
+          // PDF layouts that need AI are extracted by the background job, page range by page range
+          pendingPDFs.push({
+            fileName: upload.fileName,
+            position,
+            pageTexts: extraction.pendingPages,
+            fallbackContent: extraction.pendingFallback,
+            metadata: extraction.metadata,
+          });
+          if (extraction.metadata?.accountType) {
+            detectedAccountTypes.push(extraction.metadata.accountType);
+          }
+        } else {
+          const prepared = prepareStatement(extraction.content, upload.fileType);
+          const csvProfile = prepared.csvProfile ?? extraction.template;
+          statements.push({
+            fileName: upload.fileName,
+            fileType: upload.fileType,
+            content: prepared.content,
+            csvProfile,
+          });
+          fileWarnings.push(...prepared.warnings);
 
-    // Step 5: Validate structure
-    try {
-      validateCSVStructure(sanitizedContent);
-    } catch (error) {
-      if (isAppError(error)) {
-        throw error;
+          // Check the transactions against the balances the statement prints
+          const printed = readPrintedDetails(extraction, upload.fileType, csvProfile?.name);
+          const reconciled = reconcileStatement(printed, prepared.content);
+          if (hasStatementDetails(reconciled.metadata)) {
+            statementDetails.push(
+              isMultiFile
+                ? { ...reconciled.metadata, fileName: upload.fileName }
+                : reconciled.metadata
+            );
+          }
+          fileWarnings.push(...reconciled.warnings);
+
+          // Follow the running balance column row by row, if the statement has one
+          const balanceCheck = checkRunningBalance(prepared.content);
+          if (balanceCheck.check) {
+            balanceChecks.push(
+              isMultiFile
+                ? { ...balanceCheck.check, fileName: upload.fileName }
+                : balanceCheck.check
+            );
+          }
+          fileWarnings.push(...balanceCheck.warnings);
+
+          // Known exports say what they are; otherwise the wording, and a running
+          // balance is a sign of a bank account
+          const accountType =
+            csvProfile?.accountType ??
+            printed.accountType ??
+            (balanceCheck.check ? 'bank_account' : undefined);
+          if (accountType) {
+            detectedAccountTypes.push(accountType);
+          }
+        }
+
+        warnings.push(
+          ...fileWarnings.map((warning) =>
+            isMultiFile ? `${upload.fileName}: ${warning}` : warning
+          )
+        );
+
+        // Flag pages the OCR engine struggled with so the user checks them
+        for (const page of extraction.ocrPages ?? []) {
+          ocrPages.push(isMultiFile ? { ...page, fileName: upload.fileName } : page);
+          if (page.confidence < LOW_OCR_CONFIDENCE) {
+            const where = isMultiFile ? `${upload.fileName} page ${page.page}` : `Page ${page.page}`;
+            warnings.push(
+              `${where} was read from a low-quality scan (${page.confidence}% OCR confidence) - compare its transactions with the original.`
+            );
+          }
+        }
+      } catch (error) {
+        throw isMultiFile ? withFileName(error, upload.fileName) : error;
       }
-      throw new AppError('PARSE_ERROR', 'Failed to validate content structure');
     }
 
-    // Step 6: Truncate large content
-    const truncatedContent = truncateForAnalysis(sanitizedContent, 1000);
+    // Steps 5-6: Merge and validate - deferred to the background job
+    // when PDFs still need AI extraction
+    const input =
+      pendingPDFs.length === 0 ? prepareAnalysisInput(statements) : null;
 
     // Step 7: Create job and trigger Inngest
     const jobId = crypto.randomUUID();
 
     // Create job in Redis with pending status
+    const fileName = isMultiFile
+      ? `${uploads[0].fileName} + ${uploads.length - 1} more`
+      : uploads[0].fileName;
+    const fileType = uploads[0].fileType;
     await createJob(jobId, fileName, fileType);
 
+    // The statements themselves are stored with the job, since they can be larger
+    // than an event may carry - the event only names where to find them
+    const inputKey = await saveJobInput(jobId, {
+      csvContent: input?.content ?? '',
+      ...(pendingPDFs.length > 0 && { pendingPDFs, statements }),
+    });
+
     // Send event to Inngest for background processing
     await inngest.send({
       name: 'analyze.requested',
       data: {
         jobId,
-        csvContent: truncatedContent,
+        inputKey,
         fileType,
         fileName,
+        csvProfile: input?.csvProfile,
+        warnings,
+        sourceFiles: input?.sourceFiles,
+        ocrPages,
+        statementDetails,
+        balanceChecks,
+        accountType: requestedAccountType ?? pickAccountType(detectedAccountTypes),
       },
     });
 
@@ -150,10 +423,19 @@ export async function POST(request: NextRequest) {
         case 'NO_TRANSACTIONS':
         case 'INSUFFICIENT_COLUMNS':
         case 'INSUFFICIENT_ROWS':
+        case 'NO_DATE_COLUMN':
+        case 'NO_AMOUNT_COLUMN':
         case 'PARSE_ERROR':
         case 'PDF_SCANNED':
         case 'PDF_PROTECTED':
+        case 'PDF_WRONG_PASSWORD':
         case 'PDF_NO_TABLES':
+        case 'EXCEL_UNREADABLE':
+        case 'CAMT053_MALFORMED':
+        case 'MT940_MALFORMED':
+        case 'ENCODING_ERROR':
+        case 'ZIP_UNREADABLE':
+        case 'TOO_MANY_FILES':
           statusCode = 400;
           break;
         case 'AI_ERROR':
@@ -187,7 +469,6 @@ export async function GET() {
     mode: 'background-processing',
     limits: {
       maxFileSize: '10MB',
-      maxRows: 1000,
       rateLimit: '5 requests per minute',
     },
   });
@@ -2,11 +2,13 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import type { AppState } from '@/lib/types';
+import type { AccountType, AppState, StatementFileType } from '@/lib/types';
 import type { UserError } from '@/lib/errors';
 import type { JobStatusResponse } from '@/lib/types/jobs';
 import { parseCSV, quickValidateFile } from '@/lib/parsers/csv-parser';
-import { isAppError } from '@/lib/errors';
+import { parseExcel } from '@/lib/parsers/excel-parser';
+import { expandStatementFiles } from '@/lib/parsers/zip-parser';
+import { ERROR_CATALOG, isAppError } from '@/lib/errors';
 import { FileUpload } from '@/components/upload';
 import { PrivacyBadge } from '@/components/ui';
 import { AnalysisLoader } from '@/components/analysis';
@@ -22,6 +24,9 @@ export default function Home() {
   const startTimeRef = useRef<number | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Last upload, kept so a protected PDF can be retried with its password
+  const lastFilesRef = useRef<File[] | null>(null);
+  const lastAccountTypeRef = useRef<AccountType | undefined>(undefined);
 
   // Cleanup polling on unmount
   useEffect(() => {
@@ -146,30 +151,55 @@ export default function Home() {
     [router]
   );
 
-  const handleFileSelect = useCallback(
-    async (file: File) => {
+  const handleFilesSelect = useCallback(
+    async (selectedFiles: File[], accountType?: AccountType, password?: string) => {
+      let files: File[];
+      try {
+        // Statements inside ZIP archives are analyzed like individual uploads
+        files = await expandStatementFiles(selectedFiles);
+      } catch (error) {
+        setState({
+          status: 'error',
+          error: isAppError(error)
+            ? error.userError
+            : ERROR_CATALOG.ZIP_UNREADABLE,
+        });
+        return;
+      }
+
       // Quick validation before starting
-      const quickCheck = quickValidateFile(file);
-      if (!quickCheck.valid) {
+      const checks = files.map((file) => ({
+        file,
+        quickCheck: quickValidateFile(file),
+      }));
+      const invalid = checks.find(({ quickCheck }) => !quickCheck.valid);
+      if (invalid) {
+        const message = invalid.quickCheck.error || 'File validation failed';
         setState({
           status: 'error',
           error: {
             code: 'INVALID_FORMAT',
             title: 'Invalid File',
-            message: quickCheck.error || 'File validation failed',
-            suggestion: 'Please upload a valid CSV or PDF file.',
+            message:
+              files.length > 1 ? `${invalid.file.name}: ${message}` : message,
+            suggestion:
+              'Please upload a valid CSV, Excel, PDF, OFX/QFX, camt.053 or MT940 file.',
           },
         });
         return;
       }
 
+      const [{ file, quickCheck }] = checks;
+      lastFilesRef.current = files;
+      lastAccountTypeRef.current = accountType;
+
       // Set initial analyzing state
       setState({
         status: 'analyzing',
-        fileName: file.name,
-        fileType: quickCheck.fileType as 'csv' | 'pdf',
+        fileName: files.length > 1 ? `${files.length} statements` : file.name,
+        fileType: quickCheck.fileType as StatementFileType,
         progress: 0,
-        step: 'Uploading file...',
+        step: files.length > 1 ? 'Uploading files...' : 'Uploading file...',
       });
 
       // Create new AbortController for this request
@@ -182,24 +212,40 @@ export default function Home() {
       try {
         let response: Response;
 
-        // Handle CSV files - parse client-side, send as JSON
-        if (quickCheck.fileType === 'csv') {
-          const csvContent = await parseCSV(file);
+        // Handle a single CSV or Excel file - parse client-side, send as JSON
+        if (
+          checks.length === 1 &&
+          (quickCheck.fileType === 'csv' || quickCheck.fileType === 'excel')
+        ) {
+          const csvContent =
+            quickCheck.fileType === 'excel'
+              ? await parseExcel(file)
+              : await parseCSV(file);
           response = await fetch('/api/analyze', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               csvContent,
-              fileType: 'csv',
+              fileType: quickCheck.fileType,
               fileName: file.name,
+              accountType,
             }),
             signal,
           });
         } else {
-          // PDF files - send as FormData for server-side processing
+          // PDF, photos, bank formats and multiple statements - send as FormData for server-side processing
           const formData = new FormData();
-          formData.append('file', file);
-          formData.append('fileType', 'pdf');
+          for (const check of checks) {
+            formData.append('file', check.file);
+            formData.append('fileType', check.quickCheck.fileType);
+          }
+          if (accountType) {
+            formData.append('accountType', accountType);
+          }
+          // Only sent with this request - the server uses it to decrypt and discards it
+          if (password) {
+            formData.append('password', password);
+          }
 
           response = await fetch('/api/analyze', {
             method: 'POST',
@@ -325,9 +371,19 @@ export default function Home() {
     }
 
     startTimeRef.current = null;
+    lastFilesRef.current = null;
     setState({ status: 'idle' });
   }, []);
 
+  const handlePasswordSubmit = useCallback(
+    (password: string) => {
+      if (lastFilesRef.current) {
+        handleFilesSelect(lastFilesRef.current, lastAccountTypeRef.current, password);
+      }
+    },
+    [handleFilesSelect]
+  );
+
   return (
     <div className="min-h-screen flex flex-col">
       {/* Header */}
@@ -370,7 +426,7 @@ export default function Home() {
             </div>
 
             {/* File Upload */}
-            <FileUpload onFileSelect={handleFileSelect} />
+            <FileUpload onFilesSelect={handleFilesSelect} />
 
             {/* Privacy Badge */}
             <PrivacyBadge />
@@ -479,8 +535,8 @@ export default function Home() {
                   </h4>
                   <p className="text-sm text-[#525252]">
                     Spot recurring charges you didn&apos;t know existed. Our AI
-                    identifies weekly, monthly, quarterly, and yearly billing
-                    patterns automatically.
+                    identifies weekly, biweekly, monthly, quarterly, yearly and
+                    custom billing patterns automatically.
                   </p>
                 </div>
               </div>
@@ -500,7 +556,7 @@ export default function Home() {
                   </div>
                   <h4 className="heading-section text-lg">UPLOAD STATEMENT</h4>
                   <p className="text-sm text-[#525252]">
-                    Drop your credit card statement CSV or PDF. Works with any
+                    Drop your credit card statement CSV, Excel, PDF or OFX. Works with any
                     provider. Your data stays private.
                   </p>
                 </div>
@@ -543,7 +599,11 @@ export default function Home() {
 
         {/* Error State */}
         {state.status === 'error' && state.error && (
-          <ErrorView error={state.error} onRetry={handleReset} />
+          <ErrorView
+            error={state.error}
+            onRetry={handleReset}
+            onPasswordSubmit={handlePasswordSubmit}
+          />
         )}
       </main>
 
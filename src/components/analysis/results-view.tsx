@@ -1,15 +1,18 @@
 'use client';
 
-import { useState } from 'react';
-import type {
-  FullAnalysisResult,
-  SubscriptionCategory,
-  ResultsTab,
+import { useMemo, useState } from 'react';
+import {
+  LOW_OCR_CONFIDENCE,
+  type FullAnalysisResult,
+  type SubscriptionCategory,
+  type ResultsTab,
 } from '@/lib/types';
-import { formatCurrency, getCurrencySymbol, formatNumber } from '@/lib/utils';
+import { convertAnalysisResult, getSupportedCurrencies } from '@/lib/fx';
+import { formatCurrency, MONTHLY, sumPeriodCost } from '@/lib/utils';
 import CategorySection from '../subscriptions/category-section';
 import TabView from '../ui/tab-view';
 import SpendingBreakdown from './spending-breakdown';
+import SummaryStats from './summary-stats';
 import TransactionList from './transaction-list';
 
 interface ResultsViewProps {
@@ -18,27 +21,11 @@ interface ResultsViewProps {
   analysisTime?: number | null;
 }
 
-// Currency with smaller symbol for display
-function CurrencyDisplay({
-  amount,
-  currency,
-  className = '',
-  colorClass = '',
-}: {
-  amount: number;
-  currency: string;
-  className?: string;
-  colorClass?: string;
-}) {
-  const symbol = getCurrencySymbol(currency);
-  const formattedNumber = formatNumber(amount, currency);
-
-  return (
-    <span className={className}>
-      <span className={colorClass}>{symbol}</span>
-      <span className={colorClass}>{formattedNumber}</span>
-    </span>
-  );
+function formatRateMonth(dateString: string): string {
+  return new Date(`${dateString}T00:00:00`).toLocaleDateString('en-IN', {
+    month: 'long',
+    year: 'numeric',
+  });
 }
 
 export default function ResultsView({
@@ -48,11 +35,23 @@ export default function ResultsView({
 }: ResultsViewProps) {
   const [activeTab, setActiveTab] = useState<ResultsTab>('subscriptions');
 
-  // Get currency from the analysis data
-  const currency = data.summary.currency || 'INR';
+  // Statement balances stay in the currency they were printed in
+  const statementCurrency = data.summary.currency || 'INR';
+  const [displayCurrency, setDisplayCurrency] = useState(statementCurrency);
+  const currencyOptions = Array.from(
+    new Set([statementCurrency, ...getSupportedCurrencies()])
+  );
+
+  // Every transaction and subscription in one currency, at the rate on its date
+  const view = useMemo(
+    () => convertAnalysisResult(data, displayCurrency),
+    [data, displayCurrency]
+  );
+  const currency = view.summary.currency;
+  const converted = Boolean(view.summary.convertedCurrencies?.length);
 
   // Group subscriptions by category for the subscriptions tab
-  const groupedSubscriptions = data.subscriptions.reduce(
+  const groupedSubscriptions = view.subscriptions.reduce(
     (acc, subscription) => {
       const category = subscription.category;
       if (!acc[category]) {
@@ -61,30 +60,20 @@ export default function ResultsView({
       acc[category].push(subscription);
       return acc;
     },
-    {} as Record<SubscriptionCategory, typeof data.subscriptions>
+    {} as Record<SubscriptionCategory, typeof view.subscriptions>
   );
 
   // Build category breakdown for subscriptions
   const subscriptionCategoryBreakdown = Object.entries(groupedSubscriptions)
     .map(([category, subs]) => ({
       category: category as SubscriptionCategory,
-      totalMonthly: subs.reduce((sum, s) => {
-        const monthly =
-          s.frequency === 'yearly'
-            ? s.amount / 12
-            : s.frequency === 'quarterly'
-            ? s.amount / 3
-            : s.frequency === 'weekly'
-            ? s.amount * 4
-            : s.amount;
-        return sum + monthly;
-      }, 0),
+      totalMonthly: sumPeriodCost(subs, MONTHLY, currency),
       count: subs.length,
     }))
     .sort((a, b) => b.totalMonthly - a.totalMonthly);
 
   // Count transactions by type
-  const debitTransactions = data.transactions.filter((t) => t.type === 'debit');
+  const debitTransactions = view.transactions.filter((t) => t.type === 'debit');
 
   return (
     <div className="w-full">
@@ -101,54 +90,269 @@ export default function ResultsView({
             </p>
           )}
         </div>
-        <button onClick={onReset} className="btn-secondary text-sm self-start">
-          ↻ ANALYZE ANOTHER
-        </button>
+        <div className="flex items-center gap-3 self-start">
+          <label className="flex items-center gap-2 text-sm text-[#525252]">
+            Show in
+            <select
+              value={displayCurrency}
+              onChange={(e) => setDisplayCurrency(e.target.value)}
+              className="border-2 border-[#0A0A0A] px-3 py-2 text-sm bg-white"
+            >
+              {currencyOptions.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button onClick={onReset} className="btn-secondary text-sm">
+            ↻ ANALYZE ANOTHER
+          </button>
+        </div>
       </div>
 
-      {/* Summary Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-8">
-        <div className="stat-box animate-slide-up stagger-1 opacity-0">
-          <p className="font-mono-data text-2xl md:text-3xl font-bold mb-1">
-            <CurrencyDisplay
-              amount={data.summary.totalSpending}
-              currency={currency}
-            />
+      {/* Basic Mode */}
+      {data.analysisMode === 'basic' && (
+        <div className="bg-[#FAFAFA] border-2 border-[#F59E0B] p-4 mb-8 space-y-1">
+          <h3 className="heading-section text-xs text-[#0A0A0A]">BASIC MODE</h3>
+          <p className="text-sm text-[#525252]">
+            AI analysis was unavailable, so this result was worked out with built-in
+            rules: categories come from merchant names and keywords, and subscriptions
+            from known services and charges that repeat on a schedule. Some transactions
+            may land in Other - try again later for a full analysis.
           </p>
-          <p className="heading-section text-xs text-[#525252]">TOTAL SPENT</p>
         </div>
-        <div className="stat-box animate-slide-up stagger-2 opacity-0">
-          <p className="font-mono-data text-2xl md:text-3xl font-bold mb-1">
-            <CurrencyDisplay
-              amount={data.summary.subscriptionTotal}
-              currency={currency}
-              colorClass="text-[#DC2626]"
-            />
-            <span className="text-sm font-normal text-[#525252]">/mo</span>
-          </p>
-          <p className="heading-section text-xs text-[#525252]">
-            SUBSCRIPTIONS
-          </p>
+      )}
+
+      {/* Input Warnings */}
+      {data.warnings && data.warnings.length > 0 && (
+        <div className="bg-[#FAFAFA] border-2 border-[#F59E0B] p-4 mb-8 space-y-1">
+          {data.warnings.map((warning) => (
+            <p key={warning} className="text-sm text-[#525252]">
+              <span className="font-bold text-[#0A0A0A]">Check: </span>
+              {warning}
+            </p>
+          ))}
         </div>
-        <div className="stat-box animate-slide-up stagger-3 opacity-0">
-          <p className="font-mono-data text-2xl md:text-3xl font-bold mb-1">
-            <CurrencyDisplay
-              amount={data.summary.totalCredits}
-              currency={currency}
-              colorClass="text-[#16A34A]"
-            />
-          </p>
-          <p className="heading-section text-xs text-[#525252]">
-            REFUNDS/CREDITS
-          </p>
+      )}
+
+      {/* Source Statements */}
+      {data.sourceFiles && data.sourceFiles.length > 1 && (
+        <div className="border-2 border-[#0A0A0A] p-4 mb-8">
+          <h3 className="heading-section text-xs text-[#525252] mb-3">
+            {data.sourceFiles.length} STATEMENTS COMBINED
+          </h3>
+          <ul className="space-y-2">
+            {data.sourceFiles.map((source, index) => (
+              <li
+                key={`${source.fileName}-${index}`}
+                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 text-sm"
+              >
+                <span className="font-medium text-[#0A0A0A] truncate">
+                  {source.fileName}
+                </span>
+                <span className="font-mono-data text-[#525252]">
+                  {source.dateRange.from && source.dateRange.to
+                    ? `${source.dateRange.from} to ${source.dateRange.to}`
+                    : 'No dates'}
+                  {` • ${source.transactionCount} transactions`}
+                  {source.duplicatesRemoved > 0 &&
+                    ` • ${source.duplicatesRemoved} overlapping removed`}
+                </span>
+              </li>
+            ))}
+          </ul>
         </div>
-      </div>
+      )}
+
+      {/* Statement Details */}
+      {data.statementDetails && data.statementDetails.length > 0 && (
+        <div className="border-2 border-[#0A0A0A] p-4 mb-8 space-y-4">
+          <h3 className="heading-section text-xs text-[#525252]">
+            STATEMENT DETAILS
+          </h3>
+          {data.statementDetails.map((details, index) => {
+            const balances = [
+              { label: 'Opening balance', value: details.openingBalance },
+              { label: 'Closing balance', value: details.closingBalance },
+              { label: 'Total due', value: details.totalDue },
+              { label: 'Minimum due', value: details.minimumDue },
+            ].filter((row): row is { label: string; value: number } => row.value !== undefined);
+            const reconciliation = details.reconciliation;
+
+            return (
+              <div key={`${details.fileName ?? ''}-${index}`} className="text-sm space-y-2">
+                <p className="font-medium text-[#0A0A0A]">
+                  {[
+                    details.fileName,
+                    details.issuer,
+                    details.cardLastFour && `•••• ${details.cardLastFour}`,
+                    details.billingPeriod &&
+                      `${details.billingPeriod.from} to ${details.billingPeriod.to}`,
+                  ]
+                    .filter(Boolean)
+                    .join(' • ') || 'Statement'}
+                </p>
+                <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-1">
+                  {balances.map((row) => (
+                    <div key={row.label} className="flex justify-between gap-2">
+                      <dt className="text-[#525252]">{row.label}</dt>
+                      <dd className="font-mono-data">
+                        {formatCurrency(Math.abs(row.value), statementCurrency)}
+                        {row.value < 0 && ' Cr'}
+                      </dd>
+                    </div>
+                  ))}
+                  {details.dueDate && (
+                    <div className="flex justify-between gap-2">
+                      <dt className="text-[#525252]">Due date</dt>
+                      <dd className="font-mono-data">{details.dueDate}</dd>
+                    </div>
+                  )}
+                </dl>
+                {reconciliation && (
+                  <p
+                    className={`font-mono-data ${
+                      reconciliation.matches ? 'text-[#525252]' : 'text-[#DC2626] font-bold'
+                    }`}
+                  >
+                    {reconciliation.matches
+                      ? '✓ Transactions match the opening and closing balance'
+                      : `Balances off by ${formatCurrency(Math.abs(reconciliation.difference), statementCurrency)} • some transactions may be missing`}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Data Quality */}
+      {data.balanceChecks && data.balanceChecks.length > 0 && (
+        <div className="border-2 border-[#0A0A0A] p-4 mb-8 space-y-4">
+          <h3 className="heading-section text-xs text-[#525252]">
+            DATA QUALITY • RUNNING BALANCE
+          </h3>
+          {data.balanceChecks.map((check, index) => (
+            <div key={`${check.fileName ?? ''}-${index}`} className="text-sm space-y-2">
+              <p
+                className={`font-mono-data ${
+                  check.issueCount > 0 ? 'text-[#DC2626] font-bold' : 'text-[#525252]'
+                }`}
+              >
+                {check.fileName ? `${check.fileName} • ` : ''}
+                {check.issueCount > 0
+                  ? `${check.issueCount} of ${check.rowsChecked} rows don't match the balance`
+                  : `✓ All ${check.rowsChecked} rows match the balance`}
+              </p>
+              {check.issues.length > 0 && (
+                <ul className="space-y-1">
+                  {check.issues.map((issue) => (
+                    <li
+                      key={issue.row}
+                      className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1"
+                    >
+                      <span className="text-[#0A0A0A] truncate">
+                        <span className="font-mono-data text-[#525252]">
+                          Row {issue.row} • {issue.date}
+                        </span>{' '}
+                        {issue.description}
+                      </span>
+                      <span className="font-mono-data text-[#525252]">
+                        {issue.type === 'credit' ? '+' : '-'}
+                        {formatCurrency(issue.amount, statementCurrency)} • balance{' '}
+                        {formatCurrency(issue.balance, statementCurrency)}, expected{' '}
+                        {formatCurrency(issue.expectedBalance, statementCurrency)} •{' '}
+                        {issue.kind === 'duplicate' ? 'repeated row' : 'rows missing or out of order'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Scan Quality */}
+      {data.ocrPages && data.ocrPages.length > 0 && (
+        <div className="border-2 border-[#0A0A0A] p-4 mb-8">
+          <h3 className="heading-section text-xs text-[#525252] mb-3">
+            SCAN QUALITY • {data.ocrPages.length} PAGE
+            {data.ocrPages.length !== 1 ? 'S' : ''} READ WITH OCR
+          </h3>
+          <ul className="space-y-2">
+            {data.ocrPages.map((page) => {
+              const isLow = page.confidence < LOW_OCR_CONFIDENCE;
+              return (
+                <li
+                  key={`${page.fileName ?? ''}-${page.page}`}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <span className="font-medium text-[#0A0A0A] truncate">
+                    {page.fileName ? `${page.fileName} • ` : ''}Page {page.page}
+                  </span>
+                  <span
+                    className={`font-mono-data ${
+                      isLow ? 'text-[#DC2626] font-bold' : 'text-[#525252]'
+                    }`}
+                  >
+                    {page.confidence}% confidence{isLow && ' • check manually'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Summary Cards */}
+      <SummaryStats summary={view.summary} />
+
+      {/* Currency Conversion */}
+      {(converted || view.summary.unconvertedCurrencies) && (
+        <div className="text-sm text-[#525252] -mt-4 mb-8 space-y-1">
+          {converted && (
+            <p>
+              ≈ {view.summary.convertedCurrencies?.join(', ')} amounts converted to{' '}
+              {currency} at approximate rates for the month of each transaction.
+            </p>
+          )}
+          {view.summary.ratesAsOf && (
+            <p>
+              <span className="font-bold text-[#0A0A0A]">Check: </span>
+              Exchange rates are bundled up to {formatRateMonth(view.summary.ratesAsOf)} -
+              later transactions are converted at those outdated rates.
+            </p>
+          )}
+          {view.summary.unconvertedCurrencies && (
+            <>
+              <p>
+                <span className="font-bold text-[#0A0A0A]">Check: </span>
+                No exchange rate for {view.summary.unconvertedCurrencies.join(', ')} -
+                these transactions, and subscriptions billed in those currencies, are
+                left out of the totals:
+              </p>
+              <ul className="list-disc pl-5">
+                {view.summary.unconvertedAmounts?.map((item, index) => (
+                  <li key={index}>
+                    {item.date} {item.description}{' '}
+                    <span className="font-mono-data">
+                      {formatCurrency(item.amount, item.currency)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
 
       {/* Tabs */}
       <TabView
         activeTab={activeTab}
         onTabChange={setActiveTab}
-        subscriptionCount={data.subscriptions.length}
+        subscriptionCount={view.subscriptions.length}
         spendingCount={debitTransactions.length}
       />
 
@@ -157,7 +361,7 @@ export default function ResultsView({
         {/* Subscriptions Tab */}
         {activeTab === 'subscriptions' && (
           <div>
-            {data.subscriptions.length === 0 ? (
+            {view.subscriptions.length === 0 ? (
               <div className="card p-8 text-center">
                 <h3 className="heading-section text-xl mb-4">
                   NO SUBSCRIPTIONS DETECTED
@@ -178,13 +382,46 @@ export default function ResultsView({
                     subscriptions={
                       groupedSubscriptions[categoryData.category] || []
                     }
-                    totalMonthly={Math.round(categoryData.totalMonthly)}
                     index={index}
                     currency={currency}
                   />
                 ))}
               </div>
             )}
+
+            {/* Where the AI and the recurring-payment check disagree */}
+            {data.subscriptionReview && (
+              <div className="border-2 border-[#0A0A0A] p-4 mt-12">
+                <h3 className="heading-section text-xs text-[#525252] mb-3">
+                  SUBSCRIPTION REVIEW • CHECKED AGAINST CHARGE DATES
+                </h3>
+                <ul className="space-y-2">
+                  {data.subscriptionReview.map((item, index) => (
+                    <li
+                      key={`${item.subscription}-${index}`}
+                      className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 text-sm"
+                    >
+                      <span className="font-medium text-[#0A0A0A] truncate">
+                        {item.subscription}
+                      </span>
+                      <span className="font-mono-data text-[#525252]">
+                        {item.kind === 'frequency'
+                          ? `AI: ${item.aiFrequency} • charges: ${item.detectedFrequency}`
+                          : item.kind === 'missed'
+                          ? `Charged ${item.detectedFrequency}, not reported by AI`
+                          : 'Charges not on a regular schedule'}
+                        {item.confidence !== undefined &&
+                          ` (${Math.round(item.confidence * 100)}%)`}
+                        {' • '}
+                        {item.resolution === 'detector_applied'
+                          ? 'charge dates used'
+                          : 'AI result kept'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         )}
 
@@ -193,19 +430,31 @@ export default function ResultsView({
           <div className="space-y-8">
             {/* Spending Breakdown Chart */}
             <SpendingBreakdown
-              data={data.spendingByCategory}
-              total={data.summary.totalSpending}
+              data={view.spendingByCategory}
+              total={view.summary.totalSpending}
               title="SPENDING BY CATEGORY"
               currency={currency}
+              converted={converted}
             />
 
+            {/* Income Breakdown (bank accounts) */}
+            {view.summary.income && view.summary.income.incomeByCategory.length > 0 && (
+              <SpendingBreakdown
+                data={view.summary.income.incomeByCategory}
+                total={view.summary.income.totalIncome}
+                title="INCOME BY CATEGORY"
+                currency={currency}
+                converted={converted}
+              />
+            )}
+
             {/* Top Merchants */}
-            {data.topMerchants.length > 0 && (
+            {view.topMerchants.length > 0 && (
               <div className="mt-8">
                 <h3 className="heading-section text-xl mb-4">TOP MERCHANTS</h3>
                 <div className="brutalist-divider mb-6" />
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {data.topMerchants.slice(0, 6).map((merchant, index) => (
+                  {view.topMerchants.slice(0, 6).map((merchant, index) => (
                     <div
                       key={merchant.name}
                       className="card p-4 flex items-center justify-between animate-slide-up opacity-0"
@@ -223,7 +472,7 @@ export default function ResultsView({
                         </p>
                       </div>
                       <p className="font-mono-data font-bold">
-                        {formatCurrency(merchant.totalSpent, currency)}
+                        {formatCurrency(merchant.totalSpent, currency, { converted })}
                       </p>
                     </div>
                   ))}
@@ -236,7 +485,7 @@ export default function ResultsView({
               <h3 className="heading-section text-xl mb-4">ALL TRANSACTIONS</h3>
               <div className="brutalist-divider mb-6" />
               <TransactionList
-                transactions={data.transactions}
+                transactions={view.transactions}
                 type="debit"
                 currency={currency}
               />
@@ -253,6 +502,7 @@ export default function ResultsView({
             {data.dateRange.from &&
               data.dateRange.to &&
               ` from ${data.dateRange.from} to ${data.dateRange.to}`}
+            {data.csvProfile && ` • Read as ${data.csvProfile.name} statement`}
           </p>
           {analysisTime !== null && analysisTime !== undefined && (
             <p className="text-sm text-[#525252] flex items-center gap-2">
@@ -8,6 +8,7 @@ interface SpendingBreakdownProps {
   total: number;
   title?: string;
   currency?: string;
+  converted?: boolean; // Amounts include conversions from other currencies
 }
 
 // Category colors for visual distinction
@@ -30,6 +31,10 @@ const CATEGORY_COLORS: Record<string, string> = {
   Refund: '#16A34A',
   Cashback: '#059669',
   Payment: '#6B7280',
+  Salary: '#15803D',
+  Interest: '#0F766E',
+  'Transfer In': '#0369A1',
+  Dividends: '#4D7C0F',
   Other: '#9CA3AF',
 };
 
@@ -42,6 +47,7 @@ export default function SpendingBreakdown({
   total,
   title = 'SPENDING BREAKDOWN',
   currency = 'INR',
+  converted = false,
 }: SpendingBreakdownProps) {
   if (data.length === 0) {
     return (
@@ -59,7 +65,7 @@ export default function SpendingBreakdown({
       <div className="flex items-center justify-between">
         <h3 className="heading-section text-xl">{title}</h3>
         <p className="font-mono-data text-lg">
-          {formatCurrency(total, currency)}
+          {formatCurrency(total, currency, { converted })}
         </p>
       </div>
 
@@ -92,7 +98,7 @@ export default function SpendingBreakdown({
                   </span>
                 </div>
                 <span className="font-mono-data text-sm">
-                  {formatCurrency(item.totalAmount, currency)}
+                  {formatCurrency(item.totalAmount, currency, { converted })}
                 </span>
               </div>
 
@@ -1,41 +1,121 @@
-import type { AnalysisSummary } from '@/lib/types';
+import type { FullSummary } from '@/lib/types';
+import { getCurrencySymbol, formatNumber } from '@/lib/utils';
 
 interface SummaryStatsProps {
-  summary: AnalysisSummary;
+  summary: FullSummary;
 }
 
-function formatCurrency(amount: number): string {
-  return `₹${amount.toLocaleString('en-IN')}`;
+interface StatCard {
+  label: string;
+  amount: number;
+  colorClass?: string;
+  suffix?: string;
+  yearly?: number; // Yearly equivalent shown under a monthly amount
 }
 
-export default function SummaryStats({ summary }: SummaryStatsProps) {
+// Currency with smaller symbol for display
+function CurrencyDisplay({
+  amount,
+  currency,
+  colorClass = '',
+  converted = false,
+}: {
+  amount: number;
+  currency: string;
+  colorClass?: string;
+  converted?: boolean;
+}) {
+  const sign = amount < 0 ? '-' : '';
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6">
-      {/* Monthly Total */}
-      <div className="stat-box animate-slide-up stagger-1 opacity-0">
-        <p className="font-mono-data text-3xl md:text-4xl font-bold mb-1">
-          {formatCurrency(summary.totalMonthly)}
-        </p>
-        <p className="heading-section text-sm text-[#525252]">PER MONTH</p>
-      </div>
+    <span className={colorClass}>
+      {converted && '≈'}
+      {sign}
+      {getCurrencySymbol(currency)}
+      {formatNumber(Math.abs(amount), currency)}
+    </span>
+  );
+}
 
-      {/* Subscription Count */}
-      <div className="stat-box animate-slide-up stagger-2 opacity-0">
-        <p className="font-mono-data text-3xl md:text-4xl font-bold mb-1">
-          {summary.subscriptionCount}
-        </p>
-        <p className="heading-section text-sm text-[#525252]">
-          SUBSCRIPTION{summary.subscriptionCount !== 1 ? 'S' : ''}
-        </p>
-      </div>
+/**
+ * Headline totals - spending, subscriptions and credits for a credit card,
+ * income against expenses for a bank account
+ */
+export default function SummaryStats({ summary }: SummaryStatsProps) {
+  const currency = summary.currency || 'INR';
+  const converted = Boolean(summary.convertedCurrencies?.length);
+  const subscriptions: StatCard = {
+    label: 'SUBSCRIPTIONS',
+    amount: summary.subscriptionTotal,
+    colorClass: 'text-[#DC2626]',
+    suffix: '/mo',
+    yearly: summary.subscriptionYearlyTotal,
+  };
 
-      {/* Yearly Total */}
-      <div className="stat-box animate-slide-up stagger-3 opacity-0">
-        <p className="font-mono-data text-3xl md:text-4xl font-bold mb-1">
-          {formatCurrency(summary.totalYearly)}
+  const cards: StatCard[] = summary.income
+    ? [
+        {
+          label: 'INCOME',
+          amount: summary.income.totalIncome,
+          colorClass: 'text-[#16A34A]',
+        },
+        { label: 'EXPENSES', amount: summary.income.totalExpenses },
+        {
+          label: 'NET CASH FLOW',
+          amount: summary.income.netCashFlow,
+          colorClass:
+            summary.income.netCashFlow < 0 ? 'text-[#DC2626]' : 'text-[#16A34A]',
+        },
+        subscriptions,
+      ]
+    : [
+        { label: 'TOTAL SPENT', amount: summary.totalSpending },
+        subscriptions,
+        {
+          label: 'REFUNDS/CREDITS',
+          amount: summary.totalCredits,
+          colorClass: 'text-[#16A34A]',
+        },
+      ];
+
+  return (
+    <div
+      className={`grid grid-cols-2 gap-4 mb-8 ${
+        cards.length === 4 ? 'md:grid-cols-4' : 'md:grid-cols-3'
+      }`}
+    >
+      {cards.map((card, index) => (
+        <div
+          key={card.label}
+          className={`stat-box animate-slide-up stagger-${index + 1} opacity-0`}
+        >
+          <p className="font-mono-data text-2xl md:text-3xl font-bold mb-1">
+            <CurrencyDisplay
+              amount={card.amount}
+              currency={currency}
+              colorClass={card.colorClass}
+              converted={converted}
+            />
+            {card.suffix && (
+              <span className="text-sm font-normal text-[#525252]">{card.suffix}</span>
+            )}
+          </p>
+          {card.yearly !== undefined && card.yearly > 0 && (
+            <p className="font-mono-data text-xs text-[#525252] mb-1">
+              <CurrencyDisplay amount={card.yearly} currency={currency} converted={converted} />
+              /year
+            </p>
+          )}
+          <p className="heading-section text-xs text-[#525252]">{card.label}</p>
+        </div>
+      ))}
+      {summary.income?.savingsRate !== undefined && (
+        <p className="col-span-2 md:col-span-4 text-sm text-[#525252]">
+          {summary.income.savingsRate >= 0
+            ? `You kept ${summary.income.savingsRate}% of your income this period.`
+            : `You spent ${Math.abs(summary.income.savingsRate)}% more than you earned this period.`}
         </p>
-        <p className="heading-section text-sm text-[#525252]">PER YEAR</p>
-      </div>
+      )}
     </div>
   );
 }
@@ -2,7 +2,12 @@
 
 import { useState, useMemo } from 'react';
 import type { Transaction, TransactionCategory } from '@/lib/types';
-import { formatCurrency } from '@/lib/utils';
+import {
+  formatCurrency,
+  formatForeignExchange,
+  parseTransactionDate,
+  getDateSortKey,
+} from '@/lib/utils';
 
 interface TransactionListProps {
   transactions: Transaction[];
@@ -11,17 +16,13 @@ interface TransactionListProps {
 }
 
 function formatDate(dateString: string): string {
-  if (!dateString) return '';
-  try {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-IN', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-    });
-  } catch {
-    return dateString;
-  }
+  const date = parseTransactionDate(dateString);
+  if (!date) return dateString || '';
+  return date.toLocaleDateString('en-IN', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
 }
 
 const ITEMS_PER_PAGE = 20;
@@ -62,8 +63,8 @@ export default function TransactionList({
     // Sort
     result = [...result].sort((a, b) => {
       if (sortBy === 'date') {
-        const dateA = new Date(a.date).getTime() || 0;
-        const dateB = new Date(b.date).getTime() || 0;
+        const dateA = getDateSortKey(a.date);
+        const dateB = getDateSortKey(b.date);
         return sortOrder === 'desc' ? dateB - dateA : dateA - dateB;
       } else {
         return sortOrder === 'desc' ? b.amount - a.amount : a.amount - b.amount;
@@ -200,10 +201,19 @@ export default function TransactionList({
                   className={`font-mono-data text-lg font-bold ${
                     txn.type === 'credit' ? 'text-[#16A34A]' : 'text-[#0A0A0A]'
                   }`}
+                  title={txn.convertedFrom ? `Converted from ${txn.convertedFrom}` : undefined}
                 >
                   {txn.type === 'credit' ? '+' : '-'}
-                  {formatCurrency(txn.amount, currency)}
+                  {formatCurrency(txn.amount, txn.currency || currency, {
+                    converted: Boolean(txn.convertedFrom),
+                  })}
                 </p>
+                {/* Amount charged in a foreign currency */}
+                {txn.originalCurrency && (
+                  <p className="font-mono-data text-xs text-[#525252]">
+                    {formatForeignExchange(txn, txn.currency || currency)}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -1,9 +1,11 @@
 import type { UserError } from '@/lib/errors';
 import type { ReactNode } from 'react';
+import PasswordPrompt from './password-prompt';
 
 interface ErrorViewProps {
   error: UserError | string;
   onRetry: () => void;
+  onPasswordSubmit?: (password: string) => void; // Retry a protected PDF with its password
 }
 
 // SVG Icon Components
@@ -176,6 +178,12 @@ function getErrorIcon(code: string): ReactNode {
     case 'FILE_TOO_LARGE':
     case 'INVALID_FORMAT':
     case 'INVALID_EXTENSION':
+    case 'EXCEL_UNREADABLE':
+    case 'CAMT053_MALFORMED':
+    case 'MT940_MALFORMED':
+    case 'ENCODING_ERROR':
+    case 'ZIP_UNREADABLE':
+    case 'TOO_MANY_FILES':
       return <FileIcon className={iconClass} />;
     case 'NO_TRANSACTIONS':
     case 'NO_DATE_COLUMN':
@@ -184,8 +192,11 @@ function getErrorIcon(code: string): ReactNode {
     case 'INSUFFICIENT_ROWS':
       return <ChartIcon className={iconClass} />;
     case 'PDF_PROTECTED':
+    case 'PDF_WRONG_PASSWORD':
     case 'PDF_SCANNED':
+    case 'TOO_MANY_SCANS':
     case 'PDF_NO_TABLES':
+    case 'PDF_NEEDS_AI':
       return <PdfIcon className={iconClass} />;
     case 'RATE_LIMITED':
       return <ClockIcon className={iconClass} />;
@@ -200,9 +211,16 @@ function getErrorIcon(code: string): ReactNode {
   }
 }
 
-export default function ErrorView({ error, onRetry }: ErrorViewProps) {
+export default function ErrorView({
+  error,
+  onRetry,
+  onPasswordSubmit,
+}: ErrorViewProps) {
   const normalizedError = normalizeError(error);
   const icon = getErrorIcon(normalizedError.code);
+  const needsPassword =
+    normalizedError.code === 'PDF_PROTECTED' ||
+    normalizedError.code === 'PDF_WRONG_PASSWORD';
 
   return (
     <div className="w-full max-w-xl mx-auto text-center py-16 animate-fade-in">
@@ -234,6 +252,14 @@ export default function ErrorView({ error, onRetry }: ErrorViewProps) {
         </div>
       </div>
 
+      {/* Password Entry */}
+      {needsPassword && onPasswordSubmit && (
+        <PasswordPrompt
+          onSubmit={onPasswordSubmit}
+          incorrect={normalizedError.code === 'PDF_WRONG_PASSWORD'}
+        />
+      )}
+
       {/* Technical Details (if available) */}
       {normalizedError.technical && (
         <details className="mb-8 text-left max-w-md mx-auto">
@@ -248,8 +274,11 @@ export default function ErrorView({ error, onRetry }: ErrorViewProps) {
 
       {/* Action Buttons */}
       <div className="flex flex-col sm:flex-row gap-4 justify-center">
-        <button onClick={onRetry} className="btn-primary">
-          TRY AGAIN
+        <button
+          onClick={onRetry}
+          className={needsPassword && onPasswordSubmit ? 'btn-secondary' : 'btn-primary'}
+        >
+          {needsPassword && onPasswordSubmit ? 'UPLOAD ANOTHER FILE' : 'TRY AGAIN'}
         </button>
         {normalizedError.code === 'PDF_SCANNED' && (
           <a
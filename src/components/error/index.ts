@@ -1 +1,2 @@
 export { default as ErrorView } from './error-view';
+export { default as PasswordPrompt } from './password-prompt';
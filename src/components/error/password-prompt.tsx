@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+
+interface PasswordPromptProps {
+  onSubmit: (password: string) => void;
+  incorrect?: boolean;
+}
+
+export default function PasswordPrompt({
+  onSubmit,
+  incorrect,
+}: PasswordPromptProps) {
+  // Held only while typing - sent with the upload and never stored
+  const [password, setPassword] = useState('');
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (password) onSubmit(password);
+      }}
+      className="max-w-md mx-auto mb-8 text-left"
+    >
+      <label
+        htmlFor="pdf-password"
+        className="heading-section text-xs text-[#525252] block mb-2"
+      >
+        STATEMENT PASSWORD
+      </label>
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          id="pdf-password"
+          type="password"
+          autoComplete="off"
+          autoFocus
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={`flex-1 px-4 py-3 border-2 bg-white text-[#0A0A0A] focus:outline-none ${
+            incorrect ? 'border-[#DC2626]' : 'border-[#0A0A0A]'
+          }`}
+        />
+        <button type="submit" className="btn-primary" disabled={!password}>
+          UNLOCK
+        </button>
+      </div>
+      <p className="text-xs text-[#525252] mt-2">
+        Used once to open the file and never saved.
+      </p>
+    </form>
+  );
+}
@@ -1,11 +1,10 @@
 import type { Subscription, SubscriptionCategory } from '@/lib/types';
-import { formatCurrency } from '@/lib/utils';
+import { formatCurrency, MONTHLY, sumPeriodCost } from '@/lib/utils';
 import SubscriptionCard from './subscription-card';
 
 interface CategorySectionProps {
   category: SubscriptionCategory;
   subscriptions: Subscription[];
-  totalMonthly: number;
   index: number;
   currency?: string;
 }
@@ -28,10 +27,11 @@ const categoryIcons: Record<SubscriptionCategory, string> = {
 export default function CategorySection({
   category,
   subscriptions,
-  totalMonthly,
   index,
   currency = 'INR',
 }: CategorySectionProps) {
+  const totalMonthly = sumPeriodCost(subscriptions, MONTHLY, currency);
+
   return (
     <section
       className="animate-slide-up opacity-0"
@@ -47,7 +47,10 @@ export default function CategorySection({
           <h3 className="heading-section text-xl md:text-2xl">{category}</h3>
         </div>
         <p className="font-mono-data text-lg text-[#525252]">
-          {formatCurrency(totalMonthly, currency)}/mo
+          {formatCurrency(totalMonthly, currency, {
+            converted: subscriptions.some((s) => s.convertedFrom),
+          })}
+          /mo
         </p>
       </div>
 
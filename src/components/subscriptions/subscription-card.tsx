@@ -2,34 +2,33 @@
 
 import { useState } from 'react';
 import type { Subscription } from '@/lib/types';
-import { formatCurrency } from '@/lib/utils';
+import {
+  formatBillingPeriod,
+  formatCurrency,
+  formatForeignExchange,
+  getMonthlyCost,
+  parseTransactionDate,
+} from '@/lib/utils';
 
 interface SubscriptionCardProps {
   subscription: Subscription;
   currency?: string;
 }
 
-function formatFrequency(frequency: string): string {
-  const map: Record<string, string> = {
-    weekly: '/week',
-    monthly: '/mo',
-    quarterly: '/qtr',
-    yearly: '/year',
-  };
-  return map[frequency] || `/${frequency}`;
-}
+// What the recurring-payment check found, shown with the card's details
+const VERIFICATION_LABELS: Partial<Record<NonNullable<Subscription['verification']>, string>> = {
+  confirmed: '✓ Regular charges',
+  corrected: 'Frequency from charge dates',
+  added: 'Found from charge dates',
+};
 
 function formatDate(dateString: string): string {
-  if (!dateString) return '';
-  try {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-IN', {
-      month: 'short',
-      year: 'numeric',
-    });
-  } catch {
-    return dateString;
-  }
+  const date = parseTransactionDate(dateString);
+  if (!date) return dateString || '';
+  return date.toLocaleDateString('en-IN', {
+    month: 'short',
+    year: 'numeric',
+  });
 }
 
 export default function SubscriptionCard({
@@ -37,6 +36,8 @@ export default function SubscriptionCard({
   currency = 'INR',
 }: SubscriptionCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const amountCurrency = subscription.currency || currency;
+  const converted = Boolean(subscription.convertedFrom);
 
   return (
     <div className="card">
@@ -50,28 +51,52 @@ export default function SubscriptionCard({
 
           {/* Amount */}
           <div className="text-right">
-            <p className="font-mono-data text-lg font-bold">
-              {formatCurrency(subscription.amount, currency)}
+            <p
+              className="font-mono-data text-lg font-bold"
+              title={converted ? `Converted from ${subscription.convertedFrom}` : undefined}
+            >
+              {formatCurrency(subscription.amount, amountCurrency, { converted })}
               <span className="text-[#525252] text-sm font-normal">
-                {formatFrequency(subscription.frequency)}
+                {formatBillingPeriod(subscription)}
               </span>
             </p>
+            {/* Billed in a foreign currency */}
+            {subscription.originalCurrency && (
+              <p className="font-mono-data text-xs text-[#525252]">
+                {formatForeignExchange(subscription, amountCurrency)}
+              </p>
+            )}
           </div>
         </div>
 
         {/* Meta Info */}
         <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-[#525252]">
+          {subscription.frequency !== 'monthly' && (
+            <span>
+              {formatCurrency(getMonthlyCost(subscription), amountCurrency, { converted })}
+              /mo
+            </span>
+          )}
           {subscription.firstSeen && (
             <span>Since {formatDate(subscription.firstSeen)}</span>
           )}
           {subscription.totalSpent > 0 && (
             <span>
-              Total: {formatCurrency(subscription.totalSpent, currency)}
+              Total: {formatCurrency(subscription.totalSpent, amountCurrency, { converted })}
             </span>
           )}
           {subscription.occurrences > 0 && (
             <span>{subscription.occurrences} payments</span>
           )}
+          {subscription.verification && VERIFICATION_LABELS[subscription.verification] && (
+            <span
+              className={
+                subscription.verification === 'confirmed' ? '' : 'font-bold text-[#0A0A0A]'
+              }
+            >
+              {VERIFICATION_LABELS[subscription.verification]}
+            </span>
+          )}
         </div>
       </div>
 
@@ -2,36 +2,57 @@
 
 import { useState, useRef, useCallback } from 'react';
 import { quickValidateFile } from '@/lib/parsers/csv-parser';
+import { isZipFile } from '@/lib/parsers/zip-parser';
+import { MAX_STATEMENT_FILES } from '@/lib/parsers/statement-merger';
+import type { AccountType } from '@/lib/types';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[], accountType?: AccountType) => void;
   disabled?: boolean;
 }
 
+// Statement kinds the user can pick - auto detects it from the statements
+const ACCOUNT_TYPE_OPTIONS: { id: AccountType | 'auto'; label: string }[] = [
+  { id: 'auto', label: 'AUTO-DETECT' },
+  { id: 'credit_card', label: 'CREDIT CARD' },
+  { id: 'bank_account', label: 'BANK ACCOUNT' },
+];
+
 export default function FileUpload({
-  onFileSelect,
+  onFilesSelect,
   disabled,
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [accountType, setAccountType] = useState<AccountType | 'auto'>('auto');
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const handleFile = useCallback(
-    (file: File) => {
+  const handleFiles = useCallback(
+    (fileList: FileList) => {
       setError(null);
+      const files = Array.from(fileList);
 
-      // Quick validation before passing to parent
-      const validation = quickValidateFile(file);
-
-      if (!validation.valid) {
-        setError(validation.error || 'Invalid file');
+      if (files.length > MAX_STATEMENT_FILES) {
+        setError(`You can upload up to ${MAX_STATEMENT_FILES} statements at once.`);
         return;
       }
 
-      // Pass file to parent for full processing
-      onFileSelect(file);
+      // Quick validation before passing to parent - archives are checked once extracted
+      for (const file of files) {
+        if (isZipFile(file)) continue;
+        const validation = quickValidateFile(file);
+
+        if (!validation.valid) {
+          const message = validation.error || 'Invalid file';
+          setError(files.length > 1 ? `${file.name}: ${message}` : message);
+          return;
+        }
+      }
+
+      // Pass files to parent for full processing
+      onFilesSelect(files, accountType === 'auto' ? undefined : accountType);
     },
-    [onFileSelect]
+    [onFilesSelect, accountType]
   );
 
   const handleDragEnter = useCallback((e: React.DragEvent) => {
@@ -61,22 +82,22 @@ export default function FileUpload({
 
       const files = e.dataTransfer.files;
       if (files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(files);
       }
     },
-    [disabled, handleFile]
+    [disabled, handleFiles]
   );
 
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const files = e.target.files;
       if (files && files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(files);
       }
       // Reset input value to allow re-uploading same file
       e.target.value = '';
     },
-    [handleFile]
+    [handleFiles]
   );
 
   const handleClick = useCallback(() => {
@@ -108,7 +129,8 @@ export default function FileUpload({
         <input
           ref={inputRef}
           type="file"
-          accept=".csv,.pdf"
+          accept=".csv,.xlsx,.xls,.pdf,.ofx,.qfx,.xml,.sta,.mt940,.940,.png,.jpg,.jpeg,.heic,.heif,.zip"
+          multiple
           onChange={handleInputChange}
           className="hidden"
           disabled={disabled}
@@ -142,7 +164,7 @@ export default function FileUpload({
 
         {/* Main Text */}
         <h3 className="heading-section text-2xl md:text-3xl mb-3 text-center">
-          DROP YOUR CREDIT CARD STATEMENT HERE
+          DROP YOUR STATEMENTS HERE
         </h3>
 
         {/* Divider */}
@@ -150,7 +172,11 @@ export default function FileUpload({
 
         {/* Supported formats */}
         <p className="text-[#525252] text-sm mb-6 text-center">
-          CSV & PDF supported &bull; Max 10MB
+          CSV, Excel, PDF, OFX/QFX, camt.053, MT940 & photos supported &bull;
+          Max 10MB each
+        </p>
+        <p className="text-[#525252] text-sm -mt-4 mb-6 text-center">
+          Add several months or a ZIP to analyze them together
         </p>
 
         {/* Browse Button */}
@@ -167,6 +193,28 @@ export default function FileUpload({
         </button>
       </div>
 
+      {/* Statement Type */}
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+        <span className="heading-section text-xs text-[#525252] mr-2">
+          STATEMENT TYPE
+        </span>
+        {ACCOUNT_TYPE_OPTIONS.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            disabled={disabled}
+            onClick={() => setAccountType(option.id)}
+            className={`px-3 py-2 border-2 heading-section text-xs transition-all duration-150 ${
+              accountType === option.id
+                ? 'bg-[#0A0A0A] text-white border-[#0A0A0A]'
+                : 'bg-transparent text-[#0A0A0A] border-[#E5E5E5] hover:border-[#0A0A0A]'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
       {/* Error Message */}
       {error && (
         <div className="mt-4 p-4 border-2 border-[#DC2626] bg-[#FEF2F2]">
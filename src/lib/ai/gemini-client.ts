@@ -3,9 +3,10 @@
 import { generateText } from 'ai';
 import { google } from '@ai-sdk/google';
 import { AppError } from '../errors';
-import type { FullAnalysisResult } from '../types';
+import type { AccountType, FullAnalysisResult } from '../types';
 import { buildAnalysisPrompt, buildPDFExtractionPrompt } from './prompts';
 import {
+  applyStatementTypes,
   cleanJsonResponse,
   cleanCsvResponse,
   sanitizeFullAnalysisResult,
@@ -13,11 +14,14 @@ import {
 
 /**
  * Analyze transactions using Gemini AI
+ * Pass the part when the content is one chunk of a larger statement
  */
 export async function analyzeTransactions(
-  csvContent: string
+  csvContent: string,
+  part?: { index: number; total: number },
+  accountType: AccountType = 'credit_card'
 ): Promise<FullAnalysisResult> {
-  const prompt = buildAnalysisPrompt(csvContent);
+  const prompt = buildAnalysisPrompt(csvContent, part, accountType);
 
   try {
     const { text } = await generateText({
@@ -38,8 +42,8 @@ export async function analyzeTransactions(
       throw new AppError('AI_ERROR', 'Failed to parse AI response as JSON');
     }
 
-    // Validate and sanitize the response
-    return sanitizeFullAnalysisResult(parsed);
+    // Validate and sanitize the response, with debit and credit taken from the statement
+    return sanitizeFullAnalysisResult(applyStatementTypes(parsed, csvContent), accountType);
   } catch (error) {
     console.error('Gemini API error:', error);
 
@@ -58,11 +62,13 @@ export async function analyzeTransactions(
 
 /**
  * Extract transaction data from PDF text using AI
+ * Pass the part when the text is one page range of a longer statement
  */
 export async function extractTransactionsFromPDF(
-  pdfText: string
+  pdfText: string,
+  part?: { index: number; total: number; pages: { from: number; to: number } }
 ): Promise<string> {
-  const prompt = buildPDFExtractionPrompt(pdfText);
+  const prompt = buildPDFExtractionPrompt(pdfText, part);
 
   try {
     const { text } = await generateText({
@@ -117,10 +123,8 @@ export async function extractTransactionsFromPDF(
     console.error('PDF extraction error:', error);
     const message = error instanceof Error ? error.message : 'Unknown error';
 
-    // Check for specific API errors
-    if (message.includes('rate') || message.includes('quota')) {
-      throw new AppError('RATE_LIMITED', 'AI API rate limit exceeded');
-    }
+    // The AI call itself failed (outage, quota or timeout) - the job falls back
+    // to reading the PDF without AI where it can
     if (message.includes('timeout') || message.includes('DEADLINE')) {
       throw new AppError(
         'AI_ERROR',
@@ -129,7 +133,7 @@ export async function extractTransactionsFromPDF(
     }
 
     throw new AppError(
-      'PDF_NO_TABLES',
+      'AI_ERROR',
       `Failed to extract transactions from PDF: ${message}`
     );
   }
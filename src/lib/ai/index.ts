@@ -10,8 +10,14 @@ export {
 } from './prompts';
 export {
   sanitizeFullAnalysisResult,
+  applyStatementTypes,
   cleanJsonResponse,
   cleanCsvResponse,
   VALID_SUBSCRIPTION_CATEGORIES,
   VALID_TRANSACTION_CATEGORIES,
 } from './response-sanitizer';
+export {
+  splitForAnalysis,
+  mergeAnalysisResults,
+  ANALYSIS_CHUNK_ROWS,
+} from './result-merger';
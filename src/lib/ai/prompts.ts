@@ -1,10 +1,14 @@
 // AI system prompts and output schemas for transaction analysis
 
-export const SYSTEM_PROMPT = `You are a financial analyst AI that analyzes credit card transaction data to provide comprehensive financial insights.
+import type { AccountType } from '../types';
+
+export const SYSTEM_PROMPT = `You are a financial analyst AI that analyzes credit card and bank account transaction data to provide comprehensive financial insights.
 
 Your task:
 1. Analyze the CSV transaction data provided
-2. Identify the column structure (date, amount, description/merchant, etc.)
+2. Read the columns - data is usually normalized to Date,Description,Amount,Type,Status,Currency (Amount is positive, Type is debit or credit and is taken from the statement - never change it); otherwise identify the column structure (date, amount, description/merchant, etc.)
+   - A Source column names the statement file each row came from when several statements were merged - rows are already de-duplicated, so analyze them as one history
+   - Original Currency, Original Amount, FX Rate and FX Fee columns describe a charge made in a foreign currency - Amount is still what was billed in the statement currency
 3. Categorize EVERY transaction into appropriate categories
 4. Identify recurring subscriptions separately
 5. Calculate totals, breakdowns, and insights
@@ -13,6 +17,7 @@ TRANSACTION CATEGORIES (use these exactly):
 Recurring Payments: Subscription, Bill & Utility, Rent, EMI & Loan, Insurance
 Daily Spending: Food & Dining, Groceries, Shopping, Transportation, Fuel, Entertainment, Healthcare, Education, Travel, Personal Care
 Credits: Refund, Cashback, Payment
+Income (bank accounts only): Salary, Interest, Transfer In, Dividends
 Default: Other
 
 SUBSCRIPTION CATEGORIES (for recurring services):
@@ -32,7 +37,7 @@ KNOWN SUBSCRIPTION SERVICES (always identify as subscriptions even with single o
 Rules:
 - Categorize ALL transactions, not just subscriptions
 - Debit transactions (negative or charges) are spending
-- Credit transactions (positive) are typically refunds, cashback, or payments made to the card
+- What credit transactions are depends on the kind of statement - follow the STATEMENT TYPE note
 - IMPORTANT: Identify subscriptions using BOTH methods:
   1. Recurring pattern: debits that appear 2+ times with regular intervals
   2. Known services: ANY payment to known subscription services (listed above) should be marked as subscription, even if it appears only once
@@ -41,7 +46,9 @@ Rules:
 - For business/company statements, most software payments are monthly subscriptions
 - Normalize merchant names (e.g., "GOOGLE *YOUTUBEPREMIU" → "YouTube Premium", "OPENAI *CHATGPT SUBSCR" → "OpenAI ChatGPT")
 - Convert all amounts to positive numbers
-- Detect subscription frequency: weekly (~7 days), monthly (~30 days), quarterly (~90 days), yearly (~365 days)
+- Dates in normalized data are already YYYY-MM-DD - copy them exactly, never swap day and month
+- Detect subscription frequency: daily (~1 day), weekly (~7 days), biweekly (~14 days), monthly (~30 days), quarterly (~90 days), semiannual (~182 days), yearly (~365 days)
+- For any other regular interval use "custom" and give the days between charges as "intervalDays" (e.g. 45)
 - If only one occurrence exists, assume "monthly" frequency for known subscription services
 - Provide cancel instructions for known subscription services
 - FAILED TRANSACTIONS: Look for "Status" column with values like "Failed", "Declined", "Rejected", "Pending"
@@ -100,7 +107,8 @@ export const OUTPUT_SCHEMA = `Return ONLY valid JSON in this exact format (no ma
       "isRecurring": false,
       "merchantName": "Amazon",
       "confidence": 0.95,
-      "status": "completed"
+      "status": "completed",
+      "currency": "USD"
     },
     {
       "id": "txn-2",
@@ -112,7 +120,8 @@ export const OUTPUT_SCHEMA = `Return ONLY valid JSON in this exact format (no ma
       "isRecurring": true,
       "merchantName": "GitHub",
       "confidence": 0.98,
-      "status": "completed"
+      "status": "completed",
+      "currency": "USD"
     },
     {
       "id": "txn-3",
@@ -124,7 +133,8 @@ export const OUTPUT_SCHEMA = `Return ONLY valid JSON in this exact format (no ma
       "isRecurring": true,
       "merchantName": "DocuSign",
       "confidence": 0.95,
-      "status": "failed"
+      "status": "failed",
+      "currency": "USD"
     }
   ],
   "spendingByCategory": [
@@ -141,8 +151,10 @@ export const OUTPUT_SCHEMA = `Return ONLY valid JSON in this exact format (no ma
 IMPORTANT NOTES:
 - For known SaaS/subscription services, include them in "subscriptions" array even with occurrences: 1
 - Mark transactions for subscription services with "isRecurring": true and category: "Subscription"
-- The "subscriptionTotal" in summary should be the monthly total (sum of all subscription amounts, converting yearly/quarterly to monthly equivalent)
+- The "subscriptionTotal" in summary should be the monthly total (sum of all subscription amounts, converting every other frequency to its monthly equivalent)
 - Detect currency from the data (look for "Currency" column, or infer from amounts and merchant patterns)
+- Set each transaction's "currency" from its Currency column, and each subscription's from its charges - statements can mix currencies, so never assume every row shares the summary currency. Report amounts in their own currency; totals are converted afterwards
+- FOREIGN CURRENCY: when a row has Original Currency and Original Amount, add "originalAmount", "originalCurrency", "fxRate" and "fxFee" (whichever the row has) to that transaction, copied exactly, and to its subscription from the latest charge. Leave these fields out for every other row. "amount" is always the billed amount in the statement currency
 - FAILED TRANSACTIONS:
   - Add "status" field to each transaction: "completed" or "failed"
   - DO NOT include failed transactions in totalSpending, totalCredits, subscriptionTotal
@@ -150,21 +162,42 @@ IMPORTANT NOTES:
   - DO NOT count failed transactions in spendingByCategory totals
   - Failed transactions should still appear in the transactions array (for user awareness) but with "status": "failed"`;
 
-export const PDF_EXTRACTION_PROMPT = `You are a document parser. Extract transaction data from this credit card statement PDF text.
+export const PDF_EXTRACTION_PROMPT = `You are a document parser. Extract transaction data from this credit card or bank account statement PDF text.
 
 Rules:
 - Date should be in YYYY-MM-DD format
-- Amount should be a positive number
-- Type should be "debit" or "credit"
+- Copy amounts exactly as printed, keeping minus signs, parentheses and Dr/Cr markers (e.g. "1,200.00 Dr", "(45.00)", "500.00 CR", "15.99-")
+- If the statement has separate debit/withdrawal and credit/deposit columns, use the Debit and Credit columns and leave the other one empty
+- Otherwise use the Amount column and leave Debit and Credit empty
+- If the statement prints a running balance after each transaction, copy it to the Balance column; otherwise leave Balance empty
+- If a transaction was made in a foreign currency and the statement prints the original amount (e.g. "USD 20.00" under the transaction), copy it to Original Amount and its currency code to Original Currency, and copy a printed exchange rate to FX Rate; otherwise leave them empty
+- Keep markup or foreign transaction fee lines as transactions of their own
+- Do not decide whether a transaction is a debit or credit yourself - only copy what is printed
 - Include ALL transactions you can find
-- If unsure about type, use "debit" for negative amounts and "credit" for positive
 
 Return ONLY the CSV data, starting with the header row. No explanations.`;
 
-export function buildAnalysisPrompt(csvContent: string): string {
+// How credits are read on each kind of statement
+const STATEMENT_TYPE_NOTES: Record<AccountType, string> = {
+  credit_card: `STATEMENT TYPE: credit card. Credits are refunds, cashback or payments made to the card - categorize them as Refund, Cashback or Payment. Do not use the income categories.`,
+  bank_account: `STATEMENT TYPE: bank account (savings or checking). Credits are money coming in - categorize salary and payroll as Salary, interest earned as Interest, dividends as Dividends, merchant refunds as Refund, and deposits or transfers from people or other accounts as Transfer In. Do not use Payment or Cashback for credits. Debits such as card bill payments, ATM withdrawals and transfers out are money leaving the account and are categorized like any other spending.`,
+};
+
+export function buildAnalysisPrompt(
+  csvContent: string,
+  part?: { index: number; total: number },
+  accountType: AccountType = 'credit_card'
+): string {
+  // Large statements are analyzed in parts and merged afterwards
+  const partNote = part
+    ? `\nThis is part ${part.index + 1} of ${part.total} of one statement, split by rows. Analyze only these rows and return every one of them in the transactions array. Report subscriptions seen in this part - they are merged with the other parts later, so always use the normalized merchant name as both the subscription name and the transaction merchantName.\n`
+    : '';
+
   return `${SYSTEM_PROMPT}
 
-Analyze the following credit card transaction data:
+${STATEMENT_TYPE_NOTES[accountType]}
+${partNote}
+Analyze the following ${accountType === 'bank_account' ? 'bank account' : 'credit card'} transaction data:
 
 \`\`\`csv
 ${csvContent}
@@ -173,12 +206,20 @@ ${csvContent}
 ${OUTPUT_SCHEMA}`;
 }
 
-export function buildPDFExtractionPrompt(pdfText: string): string {
-  return `${PDF_EXTRACTION_PROMPT}
+export function buildPDFExtractionPrompt(
+  pdfText: string,
+  part?: { index: number; total: number; pages: { from: number; to: number } }
+): string {
+  // Long statements are extracted page range by page range and merged afterwards
+  const partNote = part
+    ? `\nThis is part ${part.index + 1} of ${part.total} of one statement, covering pages ${part.pages.from}-${part.pages.to}. Extract only the transactions printed in this text - the parts are combined afterwards. Skip summary lines such as totals and balances.\n`
+    : '';
 
+  return `${PDF_EXTRACTION_PROMPT}
+${partNote}
 PDF Content:
 ${pdfText}
 
 Extract all transactions and return them as a CSV string with these columns:
-Date,Description,Amount,Type`;
+Date,Description,Amount,Debit,Credit,Balance,Original Amount,Original Currency,FX Rate`;
 }
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { getLatestRateDate } from '../fx/converter';
+import type { FullAnalysisResult, Subscription, Transaction } from '../types';
+import { applyStatementTypes, sanitizeFullAnalysisResult } from './response-sanitizer';
+
+const transaction = (overrides: Partial<Transaction>): Transaction => ({
+  id: 'txn',
+  date: '2024-03-05',
+  description: 'SWIGGY',
+  amount: 450,
+  type: 'debit',
+  category: 'Food & Dining',
+  isRecurring: false,
+  confidence: 0.9,
+  status: 'completed',
+  ...overrides,
+});
+
+const subscription = (overrides: Partial<Subscription>): Subscription => ({
+  id: 'sub',
+  name: 'Netflix',
+  amount: 649,
+  currency: 'INR',
+  frequency: 'monthly',
+  category: 'Streaming',
+  firstSeen: '2024-01-05',
+  lastSeen: '2024-03-05',
+  occurrences: 3,
+  totalSpent: 1947,
+  cancelInstructions: [],
+  ...overrides,
+});
+
+describe('sanitizeFullAnalysisResult', () => {
+  it('leaves amounts in a currency without a rate out of the totals and lists them', () => {
+    const result: FullAnalysisResult = {
+      summary: {
+        totalSpending: 0,
+        totalCredits: 0,
+        subscriptionTotal: 0,
+        currency: 'INR',
+        transactionCount: 0,
+      },
+      subscriptions: [
+        subscription({}),
+        subscription({ id: 'sub-thb', name: 'TrueID', amount: 119, currency: 'THB' }),
+      ],
+      transactions: [
+        transaction({ id: 'txn-1' }),
+        transaction({ id: 'txn-2', description: 'BANGKOK MARKET', amount: 500, currency: 'THB' }),
+      ],
+      spendingByCategory: [],
+      topMerchants: [],
+      dateRange: { from: '2024-03-05', to: '2024-03-05' },
+      analyzedRows: 2,
+    };
+
+    const { summary, spendingByCategory } = sanitizeFullAnalysisResult(result);
+
+    expect(summary.totalSpending).toBe(450);
+    expect(summary.subscriptionTotal).toBe(649);
+    expect(spendingByCategory).toEqual([
+      { category: 'Food & Dining', totalAmount: 450, count: 1, percentage: 100 },
+    ]);
+    expect(summary.unconvertedCurrencies).toEqual(['THB']);
+    expect(summary.unconvertedAmounts).toEqual([
+      { description: 'BANGKOK MARKET', date: '2024-03-05', amount: 500, currency: 'THB' },
+    ]);
+  });
+});
+
+describe('applyStatementTypes', () => {
+  it('takes debit and credit from the statement when the model flips them', () => {
+    const csv = [
+      'Date,Description,Amount,Type,Status,Currency',
+      '2024-03-05,SWIGGY,450.00,debit,completed,INR',
+      '2024-03-06,AMAZON REFUND,1299.00,credit,completed,INR',
+    ].join('\n');
+    const result = {
+      transactions: [
+        transaction({ id: 'txn-1', type: 'credit', category: 'Refund' }),
+        transaction({
+          id: 'txn-2',
+          date: '2024-03-06',
+          description: 'AMAZON REFUND',
+          amount: 1299,
+          type: 'debit',
+          category: 'Shopping',
+        }),
+      ],
+    } as FullAnalysisResult;
+
+    const { transactions } = applyStatementTypes(result, csv);
+
+    expect(transactions.map((txn) => txn.type)).toEqual(['debit', 'credit']);
+  });
+
+  it('keeps the model type for rows it cannot match to the statement', () => {
+    const csv = 'Date,Description,Amount,Type\n2024-03-05,SWIGGY,450.00,debit';
+    const result = {
+      transactions: [transaction({ date: '2024-04-01', type: 'credit' })],
+    } as FullAnalysisResult;
+
+    expect(applyStatementTypes(result, csv).transactions[0].type).toBe('credit');
+  });
+});
+
+describe('sanitizeFullAnalysisResult exchange rates', () => {
+  const result = (date: string): FullAnalysisResult => ({
+    summary: {
+      totalSpending: 0,
+      totalCredits: 0,
+      subscriptionTotal: 0,
+      currency: 'INR',
+      transactionCount: 0,
+    },
+    subscriptions: [],
+    transactions: [
+      transaction({ id: 'txn-1' }),
+      transaction({ id: 'txn-2', date, description: 'AWS', amount: 20, currency: 'USD' }),
+    ],
+    spendingByCategory: [],
+    topMerchants: [],
+    dateRange: { from: '2024-03-05', to: date },
+    analyzedRows: 2,
+  });
+
+  it('flags amounts converted after the last month of the rate table', () => {
+    const { summary } = sanitizeFullAnalysisResult(result('2026-09-14'));
+
+    expect(summary.convertedCurrencies).toEqual(['USD']);
+    expect(summary.ratesAsOf).toBe(getLatestRateDate());
+  });
+
+  it('does not flag amounts the rate table covers', () => {
+    const { summary } = sanitizeFullAnalysisResult(result('2024-03-14'));
+
+    expect(summary.ratesAsOf).toBeUndefined();
+  });
+});
@@ -1,14 +1,38 @@
 // Sanitize and validate AI responses
 
+import { INCOME_CATEGORIES } from '../types';
+import { convertAmount, getLatestRateDate, isPastRateTable } from '../fx/converter';
+import { getDateSortKey } from '../utils/date';
+import { parseCanonicalCSV } from '../parsers/canonical';
+import {
+  addMoney,
+  roundMoney,
+  toMajor,
+  toMoney,
+  type Money,
+} from '../utils/money';
+import {
+  MONTHLY,
+  SUBSCRIPTION_FREQUENCIES,
+  YEARLY,
+  sumPeriodCost,
+  type BillingCycle,
+} from '../utils/subscription-cost';
 import type {
+  AccountType,
+  ForeignExchangeDetails,
   FullAnalysisResult,
+  IncomeSummary,
   Subscription,
   SubscriptionCategory,
+  SubscriptionFrequency,
   Transaction,
   TransactionCategory,
   TransactionStatus,
+  TransactionType,
   CategoryBreakdown,
   MerchantSummary,
+  UnconvertedAmount,
 } from '../types';
 
 // Valid category constants for validation
@@ -46,6 +70,10 @@ export const VALID_TRANSACTION_CATEGORIES: TransactionCategory[] = [
   'Refund',
   'Cashback',
   'Payment',
+  'Salary',
+  'Interest',
+  'Transfer In',
+  'Dividends',
   'Other',
 ];
 
@@ -87,33 +115,206 @@ export function cleanCsvResponse(text: string): string {
   return csvString.trim();
 }
 
+/**
+ * Read an ISO 4217 currency code, or undefined when the value isn't one
+ */
+function toCurrencyCode(value: string | undefined): string | undefined {
+  const code = String(value || '').trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : undefined;
+}
+
+// Other names the AI gives billing frequencies
+const FREQUENCY_ALIASES: Record<string, SubscriptionFrequency> = {
+  fortnightly: 'biweekly',
+  'bi-weekly': 'biweekly',
+  'half-yearly': 'semiannual',
+  'semi-annual': 'semiannual',
+  semiannually: 'semiannual',
+  annual: 'yearly',
+  annually: 'yearly',
+};
+
+/**
+ * Read a subscription's billing frequency, defaulting to monthly
+ * A custom frequency needs a whole number of days between charges
+ */
+function sanitizeBillingCycle(
+  frequency: string | undefined,
+  intervalDays: number | undefined
+): BillingCycle {
+  const name = String(frequency || '').trim().toLowerCase();
+  const known = FREQUENCY_ALIASES[name] ?? (name as SubscriptionFrequency);
+  if (!SUBSCRIPTION_FREQUENCIES.includes(known)) return { frequency: 'monthly' };
+  if (known !== 'custom') return { frequency: known };
+
+  const days = Math.round(Number(intervalDays) || 0);
+  return days > 0 ? { frequency: 'custom', intervalDays: days } : { frequency: 'monthly' };
+}
+
+/**
+ * Keep the foreign currency fields of a charge when they describe a real conversion
+ * A missing rate is worked out from the billed and original amounts
+ */
+function sanitizeForeignExchange(
+  details: ForeignExchangeDetails,
+  amount: number,
+  currency: string
+): ForeignExchangeDetails {
+  const originalCurrency = toCurrencyCode(details.originalCurrency);
+  const originalAmount = roundMoney(
+    Math.abs(Number(details.originalAmount) || 0),
+    originalCurrency
+  );
+  if (originalAmount === 0 || !originalCurrency) return {};
+
+  const fxRate = Math.abs(Number(details.fxRate) || 0);
+  const fxFee = roundMoney(Math.abs(Number(details.fxFee) || 0), currency);
+  return {
+    originalAmount,
+    originalCurrency,
+    ...((fxRate > 0 || amount > 0) && {
+      fxRate: fxRate || Math.round((amount / originalAmount) * 10000) / 10000,
+    }),
+    ...(fxFee > 0 && { fxFee }),
+  };
+}
+
+/**
+ * Keep a transaction's category consistent with its direction and the kind of account
+ * Income only comes in; card statements have no income and bank accounts take no card payments
+ */
+function fitCategory(
+  category: TransactionCategory,
+  type: Transaction['type'],
+  accountType: AccountType
+): TransactionCategory {
+  const isIncome = INCOME_CATEGORIES.includes(category);
+  if (isIncome && type === 'debit') return 'Other';
+  if (isIncome && accountType === 'credit_card') return 'Payment';
+  if (category === 'Payment' && type === 'credit' && accountType === 'bank_account') {
+    return 'Transfer In';
+  }
+  return category;
+}
+
+/**
+ * Summarize money in against money out for a bank account
+ */
+function buildIncomeSummary(
+  completedTransactions: Transaction[],
+  totalSpending: Money,
+  totalCredits: Money
+): IncomeSummary {
+  const zero = toMoney(0, totalSpending.currency);
+  const incomeMap = new Map<TransactionCategory, { amount: Money; count: number }>();
+  completedTransactions
+    .filter((t) => t.type === 'credit' && INCOME_CATEGORIES.includes(t.category))
+    .forEach((t) => {
+      const current = incomeMap.get(t.category) || { amount: zero, count: 0 };
+      incomeMap.set(t.category, {
+        amount: addMoney(current.amount, toMoney(t.amount, zero.currency)),
+        count: current.count + 1,
+      });
+    });
+
+  const totalIncome = Array.from(incomeMap.values()).reduce(
+    (sum, data) => addMoney(sum, data.amount),
+    zero
+  );
+  const leftOver = totalIncome.minor - totalSpending.minor;
+
+  return {
+    totalIncome: toMajor(totalIncome),
+    totalExpenses: toMajor(totalSpending),
+    netCashFlow: toMajor({ ...zero, minor: totalCredits.minor - totalSpending.minor }),
+    ...(totalIncome.minor > 0 && {
+      savingsRate: Math.round((leftOver / totalIncome.minor) * 100),
+    }),
+    incomeByCategory: Array.from(incomeMap.entries())
+      .map(([category, data]) => ({
+        category,
+        totalAmount: toMajor(data.amount),
+        count: data.count,
+        percentage: Math.round((data.amount.minor / totalIncome.minor) * 100),
+      }))
+      .sort((a, b) => b.totalAmount - a.totalAmount),
+  };
+}
+
+/**
+ * Take each transaction's debit or credit type from the statement rows the AI analyzed
+ * Rows are matched on date and amount; the AI's type is kept only where no row matches
+ * or the matching rows disagree
+ */
+export function applyStatementTypes(
+  result: FullAnalysisResult,
+  csvContent: string
+): FullAnalysisResult {
+  // Only canonical tables carry a Type column read from the statement
+  const [header = ''] = csvContent.split('\n', 1);
+  if (!header.split(',').includes('Type')) return result;
+
+  const rowKey = (date: string, amount: number) =>
+    `${date}|${Math.abs(amount).toFixed(2)}`;
+  const types = new Map<string, Set<TransactionType>>();
+  for (const row of parseCanonicalCSV(csvContent)) {
+    const key = rowKey(row.date, row.amount);
+    types.set(key, (types.get(key) ?? new Set<TransactionType>()).add(row.type));
+  }
+
+  return {
+    ...result,
+    transactions: (result.transactions || []).map((txn) => {
+      const matched = types.get(rowKey(txn.date, Number(txn.amount) || 0));
+      return matched?.size === 1 ? { ...txn, type: [...matched][0] } : txn;
+    }),
+  };
+}
+
 /**
  * Sanitize and validate the full analysis result from AI
+ * The account type decides how credits are categorized and whether income is summarized
  */
 export function sanitizeFullAnalysisResult(
-  result: FullAnalysisResult
+  result: FullAnalysisResult,
+  accountType: AccountType = result.summary?.accountType ?? 'credit_card'
 ): FullAnalysisResult {
+  // Detect currency from data or default
+  const currency = toCurrencyCode(result.summary?.currency) || 'INR';
+
   // Sanitize subscriptions
   const sanitizedSubscriptions: Subscription[] = (
     result.subscriptions || []
-  ).map((sub, index) => ({
-    id: sub.id || `sub-${index}`,
-    name: sub.name || 'Unknown Service',
-    amount: Math.abs(Number(sub.amount) || 0),
-    currency: sub.currency || 'INR',
-    frequency: sub.frequency || 'monthly',
-    category: VALID_SUBSCRIPTION_CATEGORIES.includes(sub.category)
-      ? sub.category
-      : 'Other',
-    firstSeen: sub.firstSeen || '',
-    lastSeen: sub.lastSeen || '',
-    occurrences: Number(sub.occurrences) || 1,
-    totalSpent: Math.abs(Number(sub.totalSpent) || 0),
-    cancelInstructions: Array.isArray(sub.cancelInstructions)
-      ? sub.cancelInstructions
-      : ['Contact the service provider to cancel'],
-    merchantPattern: sub.merchantPattern,
-  }));
+  ).map((sub, index) => {
+    const subCurrency = toCurrencyCode(sub.currency) || currency;
+    const amount = roundMoney(Math.abs(Number(sub.amount) || 0), subCurrency);
+
+    return {
+      id: sub.id || `sub-${index}`,
+      name: sub.name || 'Unknown Service',
+      amount,
+      currency: subCurrency,
+      ...sanitizeBillingCycle(sub.frequency, sub.intervalDays),
+      category: VALID_SUBSCRIPTION_CATEGORIES.includes(sub.category)
+        ? sub.category
+        : 'Other',
+      firstSeen: sub.firstSeen || '',
+      lastSeen: sub.lastSeen || '',
+      occurrences: Number(sub.occurrences) || 1,
+      totalSpent: roundMoney(Math.abs(Number(sub.totalSpent) || 0), subCurrency),
+      cancelInstructions: Array.isArray(sub.cancelInstructions)
+        ? sub.cancelInstructions
+        : ['Contact the service provider to cancel'],
+      merchantPattern: sub.merchantPattern,
+      ...sanitizeForeignExchange(sub, amount, subCurrency),
+      ...(sub.convertedFrom && { convertedFrom: sub.convertedFrom }),
+      // Set by the recurring-payment check, never by the AI
+      ...(sub.verification && { verification: sub.verification }),
+      ...(sub.confidence !== undefined && {
+        confidence: Math.max(0, Math.min(1, Number(sub.confidence) || 0)),
+      }),
+    };
+  });
 
   // Valid transaction statuses
   const VALID_STATUSES: TransactionStatus[] = [
@@ -134,61 +335,131 @@ export function sanitizeFullAnalysisResult(
         status = txn.status as TransactionStatus;
       }
 
+      const type = txn.type === 'credit' ? 'credit' : 'debit';
+      const txnCurrency = toCurrencyCode(txn.currency) || currency;
+      const amount = roundMoney(Math.abs(Number(txn.amount) || 0), txnCurrency);
+
       return {
         id: txn.id || `txn-${index}`,
         date: txn.date || '',
         description: txn.description || 'Unknown',
-        amount: Math.abs(Number(txn.amount) || 0),
-        type: txn.type === 'credit' ? 'credit' : 'debit',
-        category: VALID_TRANSACTION_CATEGORIES.includes(txn.category)
-          ? txn.category
-          : 'Other',
+        amount,
+        type,
+        category: fitCategory(
+          VALID_TRANSACTION_CATEGORIES.includes(txn.category) ? txn.category : 'Other',
+          type,
+          accountType
+        ),
         isRecurring: Boolean(txn.isRecurring),
         merchantName: txn.merchantName,
         confidence: Math.min(1, Math.max(0, Number(txn.confidence) || 0.5)),
         status,
+        currency: txnCurrency,
+        ...(txn.convertedFrom && { convertedFrom: txn.convertedFrom }),
+        ...sanitizeForeignExchange(txn, amount, txnCurrency),
       };
     }
   );
 
-  // Filter to only completed transactions for calculations
-  const completedTransactions = sanitizedTransactions.filter(
-    (t) => t.status !== 'failed' && t.status !== 'pending'
-  );
+  // Subscriptions the AI left without foreign currency details take them from their latest foreign charge
+  const subscriptionsWithFX = sanitizedSubscriptions.map((sub) => {
+    if (sub.originalCurrency) return sub;
+    const charge = sanitizedTransactions
+      .filter(
+        (t) =>
+          t.type === 'debit' &&
+          t.originalCurrency &&
+          t.merchantName?.toLowerCase() === sub.name.toLowerCase()
+      )
+      .sort((a, b) => getDateSortKey(b.date) - getDateSortKey(a.date))[0];
+    if (!charge) return sub;
+
+    return {
+      ...sub,
+      originalAmount: charge.originalAmount,
+      originalCurrency: charge.originalCurrency,
+      fxRate: charge.fxRate,
+      fxFee: charge.fxFee,
+    };
+  });
+
+  // Amounts in other currencies are converted to the summary currency at the rate on their date
+  // Amounts already converted for display count as converted too
+  // Without a rate an amount can't be added up with the rest, so it is left out of every total
+  // Amounts dated after the bundled rates are converted at the latest ones, which is flagged
+  const convertedCurrencies = new Set<string>();
+  const unconvertedCurrencies = new Set<string>();
+  const outdatedRateDates = new Set<string>();
+  const inSummaryCurrency = (
+    item: { amount: number; currency?: string; convertedFrom?: string },
+    date: string
+  ): number | null => {
+    const { amount, currency: from, convertedFrom } = item;
+    if (convertedFrom) {
+      convertedCurrencies.add(convertedFrom);
+      if (isPastRateTable(date)) outdatedRateDates.add(date);
+    }
+    if (!from || from === currency) return amount;
+    const converted = convertAmount(amount, from, currency, date);
+    (converted === null ? unconvertedCurrencies : convertedCurrencies).add(from);
+    if (converted !== null && isPastRateTable(date)) outdatedRateDates.add(date);
+    return converted;
+  };
+
+  // Filter to only completed transactions for calculations, in the summary currency
+  const unconvertedAmounts: UnconvertedAmount[] = [];
+  const completedTransactions = sanitizedTransactions
+    .filter((t) => t.status !== 'failed' && t.status !== 'pending')
+    .flatMap((t) => {
+      const amount = inSummaryCurrency(t, t.date);
+      if (amount === null) {
+        unconvertedAmounts.push({
+          description: t.description,
+          date: t.date,
+          amount: t.amount,
+          currency: t.currency!,
+        });
+        return [];
+      }
+      return [{ ...t, amount }];
+    });
+
+  // Totals are added up in minor units so they match the statement to the cent
+  const zero = toMoney(0, currency);
+  const sumOf = (transactions: Transaction[]) =>
+    transactions.reduce((sum, t) => addMoney(sum, toMoney(t.amount, currency)), zero);
 
   // Calculate totals from COMPLETED transactions only (exclude failed/pending)
-  const totalSpending = completedTransactions
-    .filter((t) => t.type === 'debit')
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const totalCredits = completedTransactions
-    .filter((t) => t.type === 'credit')
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  // Calculate subscription total
-  const subscriptionMonthlyTotal = sanitizedSubscriptions.reduce((sum, sub) => {
-    const monthlyAmount =
-      sub.frequency === 'yearly'
-        ? sub.amount / 12
-        : sub.frequency === 'quarterly'
-        ? sub.amount / 3
-        : sub.frequency === 'weekly'
-        ? sub.amount * 4
-        : sub.amount;
-    return sum + monthlyAmount;
-  }, 0);
+  const totalSpending = sumOf(completedTransactions.filter((t) => t.type === 'debit'));
+  const totalCredits = sumOf(completedTransactions.filter((t) => t.type === 'credit'));
+
+  // Subscription totals over a month and a year, each price at its latest charge
+  // Subscriptions billed in a currency without a rate are left out, like their charges
+  const subscriptionAmount = (sub: Subscription) => inSummaryCurrency(sub, sub.lastSeen);
+  const subscriptionMonthlyTotal = sumPeriodCost(
+    sanitizedSubscriptions,
+    MONTHLY,
+    currency,
+    subscriptionAmount
+  );
+  const subscriptionYearlyTotal = sumPeriodCost(
+    sanitizedSubscriptions,
+    YEARLY,
+    currency,
+    subscriptionAmount
+  );
 
   // Build spending by category (from COMPLETED transactions only)
   const spendingMap = new Map<
     TransactionCategory,
-    { amount: number; count: number }
+    { amount: Money; count: number }
   >();
   completedTransactions
     .filter((t) => t.type === 'debit')
     .forEach((t) => {
-      const current = spendingMap.get(t.category) || { amount: 0, count: 0 };
+      const current = spendingMap.get(t.category) || { amount: zero, count: 0 };
       spendingMap.set(t.category, {
-        amount: current.amount + t.amount,
+        amount: addMoney(current.amount, toMoney(t.amount, currency)),
         count: current.count + 1,
       });
     });
@@ -198,54 +469,64 @@ export function sanitizeFullAnalysisResult(
   )
     .map(([category, data]) => ({
       category,
-      totalAmount: Math.round(data.amount),
+      totalAmount: toMajor(data.amount),
       count: data.count,
       percentage:
-        totalSpending > 0 ? Math.round((data.amount / totalSpending) * 100) : 0,
+        totalSpending.minor > 0
+          ? Math.round((data.amount.minor / totalSpending.minor) * 100)
+          : 0,
     }))
     .sort((a, b) => b.totalAmount - a.totalAmount);
 
   // Build top merchants (from COMPLETED spending only)
-  const merchantMap = new Map<string, MerchantSummary>();
+  const merchantMap = new Map<string, { merchant: MerchantSummary; spent: Money }>();
   completedTransactions
     .filter((t) => t.type === 'debit' && t.merchantName)
     .forEach((t) => {
       const name = t.merchantName!;
       const current = merchantMap.get(name);
-      if (current) {
-        current.totalSpent += t.amount;
-        current.count += 1;
-      } else {
-        merchantMap.set(name, {
+      const spent = addMoney(current?.spent ?? zero, toMoney(t.amount, currency));
+      merchantMap.set(name, {
+        merchant: {
           name,
-          totalSpent: t.amount,
-          count: 1,
-          category: t.category,
-        });
-      }
+          totalSpent: toMajor(spent),
+          count: (current?.merchant.count ?? 0) + 1,
+          category: current?.merchant.category ?? t.category,
+        },
+        spent,
+      });
     });
 
   const topMerchants: MerchantSummary[] = Array.from(merchantMap.values())
+    .map(({ merchant }) => merchant)
     .sort((a, b) => b.totalSpent - a.totalSpent)
     .slice(0, 10);
 
-  // Detect currency from data or default
-  const currency = result.summary?.currency || 'INR';
-
   return {
     summary: {
-      totalSpending: Math.round(
-        totalSpending || result.summary?.totalSpending || 0
-      ),
-      totalCredits: Math.round(
-        totalCredits || result.summary?.totalCredits || 0
-      ),
-      subscriptionTotal: Math.round(subscriptionMonthlyTotal),
+      totalSpending:
+        toMajor(totalSpending) || Math.abs(Number(result.summary?.totalSpending) || 0),
+      totalCredits:
+        toMajor(totalCredits) || Math.abs(Number(result.summary?.totalCredits) || 0),
+      subscriptionTotal: subscriptionMonthlyTotal,
+      subscriptionYearlyTotal,
       currency,
       transactionCount:
         sanitizedTransactions.length || result.summary?.transactionCount || 0,
+      accountType,
+      ...(accountType === 'bank_account' && {
+        income: buildIncomeSummary(completedTransactions, totalSpending, totalCredits),
+      }),
+      ...(convertedCurrencies.size > 0 && {
+        convertedCurrencies: Array.from(convertedCurrencies).sort(),
+      }),
+      ...(unconvertedCurrencies.size > 0 && {
+        unconvertedCurrencies: Array.from(unconvertedCurrencies).sort(),
+      }),
+      ...(unconvertedAmounts.length > 0 && { unconvertedAmounts }),
+      ...(outdatedRateDates.size > 0 && { ratesAsOf: getLatestRateDate() }),
     },
-    subscriptions: sanitizedSubscriptions,
+    subscriptions: subscriptionsWithFX,
     transactions: sanitizedTransactions,
     spendingByCategory,
     topMerchants,
@@ -0,0 +1,184 @@
+// Splitting large statements for analysis and combining the partial results
+
+import type { FullAnalysisResult, Subscription, Transaction } from '../types';
+import { getDateSortKey } from '../utils/date';
+import { sumMoney } from '../utils/money';
+import { sanitizeFullAnalysisResult } from './response-sanitizer';
+
+// Most rows sent to the AI in one request
+export const ANALYSIS_CHUNK_ROWS = 1000;
+
+/**
+ * Split CSV content into evenly sized chunks, each with the header row
+ * Content within the limit is returned as a single chunk
+ */
+export function splitForAnalysis(
+  csvContent: string,
+  maxRows: number = ANALYSIS_CHUNK_ROWS
+): string[] {
+  const lines = csvContent.split('\n');
+  const header = lines[0];
+  const dataRows = lines.slice(1).filter((line) => line.trim());
+
+  if (dataRows.length <= maxRows) {
+    return [csvContent];
+  }
+
+  // Spread rows evenly so the last chunk isn't a handful of stragglers
+  const chunkCount = Math.ceil(dataRows.length / maxRows);
+  const rowsPerChunk = Math.ceil(dataRows.length / chunkCount);
+  const chunks: string[] = [];
+
+  for (let start = 0; start < dataRows.length; start += rowsPerChunk) {
+    chunks.push(
+      [header, ...dataRows.slice(start, start + rowsPerChunk)].join('\n')
+    );
+  }
+
+  return chunks;
+}
+
+/**
+ * Key identifying the same subscription across chunks
+ */
+function merchantKey(name: string | undefined): string {
+  return (name || '').toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Earlier or later of two dates, ignoring blanks
+ */
+function pickDate(a: string, b: string, latest: boolean): string {
+  if (!a) return b;
+  if (!b) return a;
+  const aFirst = getDateSortKey(a) <= getDateSortKey(b);
+  return aFirst === latest ? b : a;
+}
+
+/**
+ * Combine the same subscription found in several chunks
+ * The most recent sighting decides the current price and frequency
+ */
+function combineSubscriptions(a: Subscription, b: Subscription): Subscription {
+  const latest = getDateSortKey(b.lastSeen) >= getDateSortKey(a.lastSeen) ? b : a;
+
+  return {
+    ...latest,
+    firstSeen: pickDate(a.firstSeen, b.firstSeen, false),
+    lastSeen: pickDate(a.lastSeen, b.lastSeen, true),
+    occurrences: a.occurrences + b.occurrences,
+    totalSpent: sumMoney([a.totalSpent, b.totalSpent], latest.currency),
+    cancelInstructions:
+      a.cancelInstructions.length >= b.cancelInstructions.length
+        ? a.cancelInstructions
+        : b.cancelInstructions,
+  };
+}
+
+/**
+ * Recount a subscription from every merged transaction with its merchant name
+ * A chunk may charge a subscription without recognizing it as one
+ */
+function recountSubscription(
+  subscription: Subscription,
+  transactions: Transaction[]
+): Subscription {
+  const key = merchantKey(subscription.name);
+  const charges = transactions.filter(
+    (t) =>
+      t.type === 'debit' &&
+      t.status !== 'failed' &&
+      t.status !== 'pending' &&
+      merchantKey(t.merchantName) === key
+  );
+
+  if (charges.length <= subscription.occurrences) {
+    return subscription;
+  }
+
+  const latestCharge = charges.reduce((latest, t) =>
+    getDateSortKey(t.date) >= getDateSortKey(latest.date) ? t : latest
+  );
+
+  return {
+    ...subscription,
+    amount: latestCharge.amount,
+    originalAmount: latestCharge.originalAmount,
+    originalCurrency: latestCharge.originalCurrency,
+    fxRate: latestCharge.fxRate,
+    fxFee: latestCharge.fxFee,
+    occurrences: charges.length,
+    totalSpent: sumMoney(
+      charges.map((t) => t.amount),
+      subscription.currency
+    ),
+    firstSeen: charges.reduce(
+      (first, t) => pickDate(first, t.date, false),
+      subscription.firstSeen
+    ),
+    lastSeen: charges.reduce(
+      (last, t) => pickDate(last, t.date, true),
+      subscription.lastSeen
+    ),
+  };
+}
+
+/**
+ * Merge analyses of consecutive chunks into one result covering every row
+ * Totals, category breakdown and top merchants are rebuilt from the merged transactions
+ */
+export function mergeAnalysisResults(
+  results: FullAnalysisResult[]
+): FullAnalysisResult {
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const transactions = results
+    .flatMap((result) => result.transactions)
+    .map((transaction, index) => ({ ...transaction, id: `txn-${index}` }));
+
+  const subscriptionMap = new Map<string, Subscription>();
+  for (const subscription of results.flatMap((result) => result.subscriptions)) {
+    const key = `${merchantKey(subscription.name)}|${subscription.currency}`;
+    const existing = subscriptionMap.get(key);
+    subscriptionMap.set(
+      key,
+      existing ? combineSubscriptions(existing, subscription) : subscription
+    );
+  }
+
+  const subscriptions = Array.from(subscriptionMap.values()).map(
+    (subscription, index) => ({
+      ...recountSubscription(subscription, transactions),
+      id: `sub-${index}`,
+    })
+  );
+
+  const dateRange = results.reduce(
+    (range, result) => ({
+      from: pickDate(range.from, result.dateRange.from, false),
+      to: pickDate(range.to, result.dateRange.to, true),
+    }),
+    { from: '', to: '' }
+  );
+
+  return sanitizeFullAnalysisResult({
+    summary: {
+      totalSpending: 0,
+      totalCredits: 0,
+      subscriptionTotal: 0,
+      currency:
+        results.find((result) => result.summary.currency)?.summary.currency ||
+        'INR',
+      transactionCount: transactions.length,
+      accountType: results[0].summary.accountType,
+    },
+    subscriptions,
+    transactions,
+    spendingByCategory: [],
+    topMerchants: [],
+    dateRange,
+    analyzedRows: results.reduce((sum, result) => sum + result.analyzedRows, 0),
+  });
+}
@@ -25,16 +25,17 @@ export const ERROR_CATALOG: Record<string, UserError> = {
   INVALID_FORMAT: {
     code: 'INVALID_FORMAT',
     title: 'Invalid File Format',
-    message: "This doesn't appear to be a valid CSV or PDF file.",
+    message: "This doesn't appear to be a valid statement file.",
     suggestion:
-      'Please upload your credit card statement in CSV or PDF format.',
+      'Please upload your statement in CSV, Excel, PDF, OFX/QFX, camt.053 or MT940 format, or as a photo.',
   },
   INVALID_EXTENSION: {
     code: 'INVALID_EXTENSION',
     title: 'Unsupported File Type',
-    message: 'Only CSV and PDF files are supported.',
+    message:
+      'Only CSV, Excel, PDF, OFX/QFX, camt.053 (XML), MT940 and image (PNG, JPEG, HEIC) files are supported.',
     suggestion:
-      'Please export your credit card statement as a CSV or PDF file and try again.',
+      'Please export your statement in one of these formats and try again.',
   },
   NO_TRANSACTIONS: {
     code: 'NO_TRANSACTIONS',
@@ -79,14 +80,30 @@ export const ERROR_CATALOG: Record<string, UserError> = {
   PDF_PROTECTED: {
     code: 'PDF_PROTECTED',
     title: 'Protected PDF',
-    message: 'This PDF is password protected and cannot be read.',
-    suggestion: 'Please remove the password or export as CSV instead.',
+    message: 'This PDF is password protected.',
+    suggestion:
+      'Enter the statement password below to unlock it, or export as CSV instead.',
+  },
+  PDF_WRONG_PASSWORD: {
+    code: 'PDF_WRONG_PASSWORD',
+    title: 'Incorrect Password',
+    message: "That password didn't unlock the PDF.",
+    suggestion:
+      'Check the password and try again. Card statements often use part of your name and date of birth.',
   },
   PDF_SCANNED: {
     code: 'PDF_SCANNED',
-    title: 'Scanned PDF',
-    message: 'This appears to be a scanned document without searchable text.',
-    suggestion: 'Please use the digital/text version of your statement.',
+    title: 'Unreadable Scan',
+    message: "We couldn't read any text in this scanned statement.",
+    suggestion:
+      'Try a sharper scan or a photo taken flat in good light, or use the digital version of your statement.',
+  },
+  TOO_MANY_SCANS: {
+    code: 'TOO_MANY_SCANS',
+    title: 'Too Many Scanned Pages',
+    message: 'We can read up to 3 scanned pages or photos in one upload.',
+    suggestion:
+      'Upload your scans in smaller batches, or use the digital version of your statement, which has no page limit.',
   },
   PDF_NO_TABLES: {
     code: 'PDF_NO_TABLES',
@@ -95,6 +112,50 @@ export const ERROR_CATALOG: Record<string, UserError> = {
     suggestion:
       'Ensure this is a credit card statement with transactions, or try exporting as CSV for better results.',
   },
+  PDF_NEEDS_AI: {
+    code: 'PDF_NEEDS_AI',
+    title: 'PDF Needs AI',
+    message:
+      "This PDF's layout can only be read with AI, and our AI service is unavailable right now. Basic analysis covers CSV, Excel and bank-format files, and PDFs whose layout we recognize.",
+    suggestion:
+      "Try again in a few minutes, or upload your bank's CSV or Excel export, which can be analyzed without AI.",
+  },
+  EXCEL_UNREADABLE: {
+    code: 'EXCEL_UNREADABLE',
+    title: 'Unable to Read Spreadsheet',
+    message: 'We could not open this Excel file.',
+    suggestion:
+      'Make sure the file is not password protected, or save it as CSV and try again.',
+  },
+  CAMT053_MALFORMED: {
+    code: 'CAMT053_MALFORMED',
+    title: 'Invalid camt.053 File',
+    message: "This XML file isn't a readable camt.053 bank statement.",
+    suggestion:
+      'Download the statement again from online banking as camt.053, or export it as CSV instead.',
+  },
+  MT940_MALFORMED: {
+    code: 'MT940_MALFORMED',
+    title: 'Invalid MT940 File',
+    message: "This file isn't a readable MT940 bank statement.",
+    suggestion:
+      'Download the statement again from online banking as MT940, or export it as CSV instead.',
+  },
+  ZIP_UNREADABLE: {
+    code: 'ZIP_UNREADABLE',
+    title: 'ZIP Archive Issue',
+    message:
+      "The ZIP file couldn't be opened or doesn't contain any supported statements.",
+    suggestion:
+      'Check the archive opens on your computer and contains CSV, Excel, PDF, OFX/QFX, camt.053, MT940 or image files.',
+  },
+  TOO_MANY_FILES: {
+    code: 'TOO_MANY_FILES',
+    title: 'Too Many Files',
+    message: 'You can analyze up to 12 statements at once.',
+    suggestion:
+      'Upload fewer statements, or export a longer date range as a single file.',
+  },
   RATE_LIMITED: {
     code: 'RATE_LIMITED',
     title: 'Too Many Requests',
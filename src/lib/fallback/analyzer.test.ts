@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { isAppError } from '../errors';
+import { toCanonicalCSV, type CanonicalTransaction } from '../parsers/canonical';
+import { analyzeWithRules } from './analyzer';
+
+/** Canonical USD statement from [date, description, signed amount] rows */
+function statement(rows: Array<[string, string, number]>): string {
+  return toCanonicalCSV(
+    rows.map(([date, description, amount]): CanonicalTransaction => ({
+      date,
+      description,
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'debit' : 'credit',
+      currency: 'USD',
+    }))
+  );
+}
+
+describe('analyzeWithRules', () => {
+  it('categorizes rows from the merchant catalog and keywords', () => {
+    const result = analyzeWithRules(
+      statement([
+        ['2024-03-01', 'ACME CORP PAYROLL', 4200],
+        ['2024-03-02', 'STARBUCKS #1234', -6.25],
+        ['2024-03-03', 'SHELL OIL 5521', -48],
+        ['2024-03-04', 'ZXQ HOLDINGS', -19],
+      ]),
+      'bank_account'
+    );
+
+    expect(result.analysisMode).toBe('basic');
+    expect(result.summary).toMatchObject({ currency: 'USD', transactionCount: 4 });
+    expect(result.dateRange).toEqual({ from: '2024-03-01', to: '2024-03-04' });
+    expect(result.transactions.map((t) => [t.merchantName, t.category])).toEqual([
+      ['Acme Corp Payroll', 'Salary'],
+      ['Starbucks', 'Food & Dining'],
+      ['Shell Oil', 'Fuel'],
+      ['Zxq Holdings', 'Other'],
+    ]);
+  });
+
+  it('lists a catalog service as a subscription after a single charge', () => {
+    const result = analyzeWithRules(
+      statement([
+        ['2024-03-05', 'NETFLIX.COM 866-579-7172', -15.49],
+        ['2024-03-06', 'CORNER BAKERY', -8],
+      ])
+    );
+
+    expect(result.subscriptions).toEqual([
+      expect.objectContaining({
+        name: 'Netflix',
+        amount: 15.49,
+        currency: 'USD',
+        category: 'Streaming',
+        occurrences: 1,
+      }),
+    ]);
+  });
+
+  it('marks charges to a merchant billed on a schedule as recurring', () => {
+    const result = analyzeWithRules(
+      statement([
+        ['2024-01-10', 'RIVERSIDE GYM', -40],
+        ['2024-01-22', 'CORNER BAKERY', -8],
+        ['2024-02-10', 'RIVERSIDE GYM', -40],
+        ['2024-03-10', 'RIVERSIDE GYM', -40],
+      ])
+    );
+
+    const recurring = result.transactions.filter((t) => t.isRecurring);
+
+    expect(recurring.map((t) => t.description)).toEqual([
+      'RIVERSIDE GYM',
+      'RIVERSIDE GYM',
+      'RIVERSIDE GYM',
+    ]);
+  });
+
+  it('normalizes a bank export that is not in the canonical layout yet', () => {
+    const content = [
+      'Posting Date,Details,Debit,Credit',
+      '05/03/2024,SPOTIFY P1A2B3,10.99,',
+      '06/03/2024,REFUND FROM STORE,,25.00',
+    ].join('\n');
+
+    const result = analyzeWithRules(content);
+
+    expect(result.transactions.map((t) => [t.merchantName, t.type, t.amount])).toEqual([
+      ['Spotify', 'debit', 10.99],
+      ['Refund From Store', 'credit', 25],
+    ]);
+  });
+
+  it('fails when no row has a date', () => {
+    let code: string | undefined;
+    try {
+      analyzeWithRules('Date,Description,Amount,Type,Status,Currency\n');
+    } catch (error) {
+      code = isAppError(error) ? error.userError.code : undefined;
+    }
+
+    expect(code).toBe('NO_TRANSACTIONS');
+  });
+});
@@ -0,0 +1,164 @@
+// Rule-based analysis used when the AI is unavailable
+
+import { AppError } from '../errors';
+import { sanitizeFullAnalysisResult } from '../ai/response-sanitizer';
+import { CANONICAL_HEADER, parseCanonicalCSV } from '../parsers/canonical';
+import { normalizeTransactions } from '../parsers/transaction-normalizer';
+import { detectRecurringPayments, recurringMerchantKey } from '../recurring/detector';
+import { checkSubscriptions } from '../recurring/verifier';
+import type {
+  AccountType,
+  FullAnalysisResult,
+  Subscription,
+  Transaction,
+} from '../types';
+import { getDateSortKey } from '../utils/date';
+import { sumMoney } from '../utils/money';
+import { categorizeByRules } from './categorizer';
+import { findCatalogMerchant } from './merchant-catalog';
+
+/**
+ * Canonical rows of the analysis input
+ * Content that isn't in the canonical layout yet is normalized first
+ */
+function readCanonicalRows(csvContent: string) {
+  const header = csvContent.split('\n', 1)[0].trim();
+  const content = header.startsWith(CANONICAL_HEADER.slice(0, 4).join(','))
+    ? csvContent
+    : normalizeTransactions(csvContent).content;
+  return parseCanonicalCSV(content).filter((row) => getDateSortKey(row.date) > 0);
+}
+
+/**
+ * Subscriptions to catalog services, one per service and currency
+ * Like the AI, a known service counts even when it was charged once
+ */
+function findCatalogSubscriptions(
+  transactions: Transaction[],
+  currency: string
+): Subscription[] {
+  const groups = new Map<string, Transaction[]>();
+  transactions
+    .filter((t) => t.type === 'debit' && t.status !== 'failed' && t.status !== 'pending')
+    .forEach((t) => {
+      if (!findCatalogMerchant(t.description)?.subscription) return;
+      const key = `${t.merchantName}|${t.currency || currency}`;
+      groups.set(key, [...(groups.get(key) ?? []), t]);
+    });
+
+  return Array.from(groups.values()).map((charges, index): Subscription => {
+    const ordered = [...charges].sort((a, b) => getDateSortKey(a.date) - getDateSortKey(b.date));
+    const latest = ordered[ordered.length - 1];
+    const merchant = findCatalogMerchant(latest.description)!;
+    const subscriptionCurrency = latest.currency || currency;
+
+    return {
+      id: `sub-${index}`,
+      name: merchant.name,
+      amount: latest.amount,
+      currency: subscriptionCurrency,
+      frequency: 'monthly',
+      category: merchant.subscription!,
+      firstSeen: ordered[0].date,
+      lastSeen: latest.date,
+      occurrences: ordered.length,
+      totalSpent: sumMoney(
+        ordered.map((t) => t.amount),
+        subscriptionCurrency
+      ),
+      cancelInstructions: merchant.cancelInstructions ?? [
+        `Sign in to your ${merchant.name} account`,
+        'Open billing or subscription settings and cancel your plan',
+      ],
+      ...(latest.originalCurrency && {
+        originalAmount: latest.originalAmount,
+        originalCurrency: latest.originalCurrency,
+        fxRate: latest.fxRate,
+        fxFee: latest.fxFee,
+      }),
+    };
+  });
+}
+
+/**
+ * Analyze canonical rows without AI: keyword and merchant-catalog categories,
+ * catalog services plus interval-detected subscriptions, and the usual totals
+ * The result is marked as basic mode so the results page can say so
+ * @throws AppError NO_TRANSACTIONS when there are no dated rows to analyze
+ */
+export function analyzeWithRules(
+  csvContent: string,
+  accountType: AccountType = 'credit_card'
+): FullAnalysisResult {
+  const rows = readCanonicalRows(csvContent);
+  if (rows.length === 0) {
+    throw new AppError('NO_TRANSACTIONS', 'No dated rows for rule-based analysis');
+  }
+
+  const currency = rows.find((row) => row.currency)?.currency || 'INR';
+  const transactions = rows.map((row, index): Transaction => {
+    const { category, merchantName, confidence } = categorizeByRules(
+      row.counterparty ? `${row.counterparty} ${row.description}` : row.description,
+      row.type,
+      accountType,
+      row.category
+    );
+
+    return {
+      id: `txn-${index}`,
+      date: row.date,
+      description: row.description,
+      amount: row.amount,
+      type: row.type,
+      category,
+      isRecurring: false,
+      merchantName,
+      confidence,
+      status: row.status,
+      currency: row.currency,
+      originalAmount: row.originalAmount,
+      originalCurrency: row.originalCurrency,
+      fxRate: row.fxRate,
+      fxFee: row.fxFee,
+    };
+  });
+
+  // Charges to any merchant with a schedule are recurring, subscription or not
+  const recurring = new Set(
+    detectRecurringPayments(transactions, currency).map(
+      (pattern) => `${recurringMerchantKey(pattern.merchant)}|${pattern.currency}`
+    )
+  );
+  const marked = transactions.map((t) => ({
+    ...t,
+    isRecurring: recurring.has(
+      `${recurringMerchantKey(t.merchantName || t.description)}|${t.currency || currency}`
+    ),
+  }));
+
+  const dates = rows.map((row) => row.date).sort((a, b) => getDateSortKey(a) - getDateSortKey(b));
+  const draft: FullAnalysisResult = {
+    summary: {
+      totalSpending: 0,
+      totalCredits: 0,
+      subscriptionTotal: 0,
+      currency,
+      transactionCount: marked.length,
+      accountType,
+    },
+    subscriptions: findCatalogSubscriptions(marked, currency),
+    transactions: marked,
+    spendingByCategory: [],
+    topMerchants: [],
+    dateRange: { from: dates[0], to: dates[dates.length - 1] },
+    analyzedRows: rows.length,
+  };
+
+  // The recurring-payment check sets catalog services' frequencies and adds scheduled
+  // merchants - with no AI answer to compare against, its review list doesn't apply
+  const { subscriptions } = checkSubscriptions(draft);
+  return {
+    ...sanitizeFullAnalysisResult({ ...draft, subscriptions }, accountType),
+    analysisMode: 'basic',
+  };
+}
@@ -0,0 +1,95 @@
+// Keyword categorization of transactions for analysis without AI
+
+import { VALID_TRANSACTION_CATEGORIES } from '../ai/response-sanitizer';
+import type { AccountType, TransactionCategory, TransactionType } from '../types';
+import { findCatalogMerchant } from './merchant-catalog';
+
+export interface RuleCategorization {
+  category: TransactionCategory;
+  merchantName: string;
+  confidence: number; // 0-1 - catalog merchants score highest, unmatched rows lowest
+}
+
+// Debit keywords, tried in order - the first match wins
+const DEBIT_RULES: Array<{ category: TransactionCategory; pattern: RegExp }> = [
+  { category: 'Rent', pattern: /\brent\b|landlord|lease/i },
+  { category: 'EMI & Loan', pattern: /\bemi\b|\bloan\b|mortgage|instal+ment/i },
+  { category: 'Insurance', pattern: /insurance|assurance|\blic\b|premium\s+pay|policy/i },
+  {
+    category: 'Bill & Utility',
+    pattern: /electric|power|water\s+bill|\bgas\b|broadband|internet|airtel|jio|vodafone|verizon|at&t|t-mobile|comcast|xfinity|recharge|utility|\bbill\b/i,
+  },
+  { category: 'Fuel', pattern: /fuel|petrol|diesel|\bshell\b|chevron|exxon|\bbp\b|hpcl|bpcl|indian\s*oil|\biocl?\b/i },
+  { category: 'Groceries', pattern: /grocer|supermarket|mart\b|dmart|kirana|trader\s*joe|costco|kroger|safeway|aldi|tesco/i },
+  {
+    category: 'Food & Dining',
+    pattern: /restaurant|cafe|coffee|pizza|burger|kitchen|\bbar\b|bistro|dining|food|mcdonald|domino|kfc|subway/i,
+  },
+  { category: 'Travel', pattern: /airline|airways|\bair\b|flight|hotel|\binn\b|airbnb|booking\.com|expedia|makemytrip|irctc|railway|indigo/i },
+  { category: 'Transportation', pattern: /taxi|\bcab\b|metro|transit|parking|toll|fastag|rapido/i },
+  { category: 'Healthcare', pattern: /pharma|chemist|medical|hospital|clinic|doctor|dental|health|apollo|medplus|cvs|walgreens/i },
+  { category: 'Education', pattern: /school|college|universit|tuition|course|udemy|coursera|\bedu/i },
+  { category: 'Personal Care', pattern: /salon|spa\b|barber|beauty|cosmetic|nykaa/i },
+  { category: 'Entertainment', pattern: /cinema|movie|theat(?:er|re)|pvr|inox|bookmyshow|ticket|concert|game/i },
+  { category: 'Shopping', pattern: /store|shop|retail|mall|myntra|ajio|ebay|target|ikea|best\s*buy/i },
+  { category: 'Subscription', pattern: /subscription|membership|\bsubscr/i },
+];
+
+// Credit keywords, tried in order - categories that don't fit the account type are adjusted later
+const CREDIT_RULES: Array<{ category: TransactionCategory; pattern: RegExp }> = [
+  { category: 'Salary', pattern: /salary|payroll|\bsal\b|wages/i },
+  { category: 'Dividends', pattern: /dividend/i },
+  { category: 'Interest', pattern: /interest|\bint\.?\s*(?:pd|paid|cr)/i },
+  { category: 'Cashback', pattern: /cash\s*back|reward|points/i },
+  { category: 'Refund', pattern: /refund|reversal|reversed|return|chargeback/i },
+  { category: 'Payment', pattern: /payment|thank\s*you|autopay|\bbbps\b|\bneft\b|\bimps\b|\bupi\b/i },
+];
+
+/**
+ * Merchant name from a statement description
+ * Reference numbers, card masks and payment-network prefixes are dropped
+ */
+function cleanMerchantName(description: string): string {
+  const words = description
+    .replace(/^(?:pos|upi|ach|neft|imps|visa|mc|debit card|purchase)\b[\s/*:-]*/i, '')
+    .replace(/[*#/]+/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !/\d{3,}/.test(word))
+    .slice(0, 4);
+  const name = words.join(' ').trim();
+  if (!name) return description.trim();
+  return name.replace(/\w\S*/g, (word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase());
+}
+
+/**
+ * Category and merchant name of a transaction from its description
+ * Catalog merchants come first, then keywords, then a category printed by the bank export
+ * @param hint - Category column from the bank export, used when it names one of ours
+ */
+export function categorizeByRules(
+  description: string,
+  type: TransactionType,
+  accountType: AccountType,
+  hint?: string
+): RuleCategorization {
+  const catalog = findCatalogMerchant(description);
+  if (catalog && type === 'debit') {
+    return { category: catalog.category, merchantName: catalog.name, confidence: 0.9 };
+  }
+
+  const merchantName = catalog?.name ?? cleanMerchantName(description);
+  const rule = (type === 'debit' ? DEBIT_RULES : CREDIT_RULES).find(({ pattern }) =>
+    pattern.test(description)
+  );
+  if (rule) return { category: rule.category, merchantName, confidence: 0.6 };
+
+  const hinted = VALID_TRANSACTION_CATEGORIES.find(
+    (category) => category.toLowerCase() === hint?.trim().toLowerCase()
+  );
+  if (hinted) return { category: hinted, merchantName, confidence: 0.5 };
+
+  // Unmatched credits are money coming in on a bank account and refunds on a card
+  const fallback: TransactionCategory =
+    type === 'debit' ? 'Other' : accountType === 'bank_account' ? 'Transfer In' : 'Refund';
+  return { category: fallback, merchantName, confidence: 0.3 };
+}
@@ -0,0 +1,9 @@
+// Rule-based analysis module exports
+
+export { analyzeWithRules } from './analyzer';
+export { categorizeByRules, type RuleCategorization } from './categorizer';
+export {
+  MERCHANT_CATALOG,
+  findCatalogMerchant,
+  type CatalogMerchant,
+} from './merchant-catalog';
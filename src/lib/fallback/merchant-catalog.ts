@@ -0,0 +1,169 @@
+// Well-known merchants recognized from statement descriptions without AI
+// To add a merchant: give the name shown in results, a pattern matching how statements
+// print it, and a subscription category for services billed on a plan
+
+import type { SubscriptionCategory, TransactionCategory } from '../types';
+
+export interface CatalogMerchant {
+  name: string;
+  pattern: RegExp;
+  category: TransactionCategory;
+  subscription?: SubscriptionCategory; // Set for services billed on a plan
+  cancelInstructions?: string[];
+}
+
+export const MERCHANT_CATALOG: CatalogMerchant[] = [
+  // Streaming and music
+  {
+    name: 'Netflix',
+    pattern: /netflix/i,
+    category: 'Subscription',
+    subscription: 'Streaming',
+    cancelInstructions: ['Go to netflix.com/account', 'Click Cancel Membership'],
+  },
+  {
+    name: 'Disney+',
+    pattern: /disney\s*(?:plus|\+)|hotstar/i,
+    category: 'Subscription',
+    subscription: 'Streaming',
+    cancelInstructions: ['Open your Disney+ account page', 'Select Subscription, then Cancel'],
+  },
+  { name: 'Hulu', pattern: /\bhulu\b/i, category: 'Subscription', subscription: 'Streaming' },
+  { name: 'Max', pattern: /\bhbo\b|\bmax\.com\b/i, category: 'Subscription', subscription: 'Streaming' },
+  {
+    name: 'Amazon Prime',
+    pattern: /prime\s*video|amazon\s*prime|amzn\s*prime/i,
+    category: 'Subscription',
+    subscription: 'Streaming',
+    cancelInstructions: ['Go to amazon.com/prime', 'Click Manage Membership, then End Membership'],
+  },
+  {
+    name: 'YouTube Premium',
+    pattern: /youtube\s*premium|google\s*\*?\s*youtube/i,
+    category: 'Subscription',
+    subscription: 'Streaming',
+    cancelInstructions: ['Go to youtube.com/paid_memberships', 'Click Deactivate'],
+  },
+  {
+    name: 'Spotify',
+    pattern: /spotify/i,
+    category: 'Subscription',
+    subscription: 'Music',
+    cancelInstructions: ['Go to spotify.com/account', 'Click Change plan, then Cancel Premium'],
+  },
+  {
+    name: 'Apple',
+    pattern: /apple\.com\/bill|itunes|apple\s+services/i,
+    category: 'Subscription',
+    subscription: 'Streaming',
+    cancelInstructions: ['Open Settings on your iPhone', 'Tap your name, then Subscriptions'],
+  },
+  // Cloud storage and productivity
+  { name: 'Dropbox', pattern: /dropbox/i, category: 'Subscription', subscription: 'Cloud Storage' },
+  {
+    name: 'Google One',
+    pattern: /google\s*\*?\s*(?:one|storage)/i,
+    category: 'Subscription',
+    subscription: 'Cloud Storage',
+  },
+  { name: 'iCloud', pattern: /icloud/i, category: 'Subscription', subscription: 'Cloud Storage' },
+  {
+    name: 'Microsoft 365',
+    pattern: /microsoft\s*(?:365|\*?office)|msft\s*\*/i,
+    category: 'Subscription',
+    subscription: 'Productivity',
+    cancelInstructions: ['Go to account.microsoft.com/services', 'Select Cancel subscription'],
+  },
+  {
+    name: 'Google Workspace',
+    pattern: /google\s*\*?\s*(?:workspace|gsuite)/i,
+    category: 'Subscription',
+    subscription: 'Productivity',
+  },
+  {
+    name: 'Adobe',
+    pattern: /adobe/i,
+    category: 'Subscription',
+    subscription: 'Productivity',
+    cancelInstructions: ['Go to account.adobe.com/plans', 'Click Manage plan, then Cancel your plan'],
+  },
+  { name: 'Notion', pattern: /notion/i, category: 'Subscription', subscription: 'Productivity' },
+  { name: 'Slack', pattern: /slack/i, category: 'Subscription', subscription: 'Productivity' },
+  { name: 'Zoom', pattern: /zoom\.us|\bzoom\b/i, category: 'Subscription', subscription: 'Productivity' },
+  { name: 'Canva', pattern: /canva/i, category: 'Subscription', subscription: 'Productivity' },
+  {
+    name: 'GitHub',
+    pattern: /github/i,
+    category: 'Subscription',
+    subscription: 'Productivity',
+    cancelInstructions: ['Go to github.com/settings/billing', 'Click Cancel plan'],
+  },
+  {
+    name: 'OpenAI ChatGPT',
+    pattern: /openai|chatgpt/i,
+    category: 'Subscription',
+    subscription: 'Productivity',
+    cancelInstructions: ['Open ChatGPT settings', 'Select Subscription, then Cancel plan'],
+  },
+  { name: 'Claude', pattern: /anthropic|claude\.ai/i, category: 'Subscription', subscription: 'Productivity' },
+  // Gaming
+  {
+    name: 'Xbox Game Pass',
+    pattern: /xbox/i,
+    category: 'Subscription',
+    subscription: 'Gaming',
+  },
+  {
+    name: 'PlayStation Plus',
+    pattern: /playstation|\bpsn\b|sony\s+interactive/i,
+    category: 'Subscription',
+    subscription: 'Gaming',
+  },
+  { name: 'Nintendo', pattern: /nintendo/i, category: 'Subscription', subscription: 'Gaming' },
+  // News and reading
+  {
+    name: 'Kindle Unlimited',
+    pattern: /kindle/i,
+    category: 'Subscription',
+    subscription: 'News & Reading',
+  },
+  { name: 'Audible', pattern: /audible/i, category: 'Subscription', subscription: 'News & Reading' },
+  { name: 'Medium', pattern: /medium\.com/i, category: 'Subscription', subscription: 'News & Reading' },
+  {
+    name: 'The New York Times',
+    pattern: /ny\s*times|nytimes/i,
+    category: 'Subscription',
+    subscription: 'News & Reading',
+  },
+  // Fitness
+  { name: 'Cult.fit', pattern: /cult\.?\s*fit|curefit/i, category: 'Subscription', subscription: 'Fitness' },
+  { name: 'Strava', pattern: /strava/i, category: 'Subscription', subscription: 'Fitness' },
+  { name: 'Peloton', pattern: /peloton/i, category: 'Subscription', subscription: 'Fitness' },
+  // Memberships billed alongside everyday spending
+  { name: 'Swiggy One', pattern: /swiggy\s*one/i, category: 'Subscription', subscription: 'Food & Delivery' },
+  { name: 'Zomato Gold', pattern: /zomato\s*gold/i, category: 'Subscription', subscription: 'Food & Delivery' },
+  { name: 'DashPass', pattern: /dashpass/i, category: 'Subscription', subscription: 'Food & Delivery' },
+  { name: 'Uber One', pattern: /uber\s*one/i, category: 'Subscription', subscription: 'Transportation' },
+  // Everyday merchants - categorized, but not subscriptions
+  { name: 'Swiggy', pattern: /swiggy/i, category: 'Food & Dining' },
+  { name: 'Zomato', pattern: /zomato/i, category: 'Food & Dining' },
+  { name: 'DoorDash', pattern: /doordash/i, category: 'Food & Dining' },
+  { name: 'Starbucks', pattern: /starbucks/i, category: 'Food & Dining' },
+  { name: 'Uber', pattern: /\buber\b/i, category: 'Transportation' },
+  { name: 'Ola', pattern: /\bola\s*(?:cabs)?\b/i, category: 'Transportation' },
+  { name: 'Lyft', pattern: /\blyft\b/i, category: 'Transportation' },
+  { name: 'Amazon', pattern: /amazon|amzn/i, category: 'Shopping' },
+  { name: 'Flipkart', pattern: /flipkart/i, category: 'Shopping' },
+  { name: 'Walmart', pattern: /wal-?mart/i, category: 'Groceries' },
+  { name: 'BigBasket', pattern: /big\s*basket/i, category: 'Groceries' },
+  { name: 'Blinkit', pattern: /blinkit|grofers/i, category: 'Groceries' },
+  { name: 'Whole Foods', pattern: /whole\s*foods/i, category: 'Groceries' },
+];
+
+/**
+ * Catalog entry for a statement description, or undefined for unknown merchants
+ * Entries are tried in order, so memberships come before the same brand's everyday spending
+ */
+export function findCatalogMerchant(description: string): CatalogMerchant | undefined {
+  return MERCHANT_CATALOG.find((merchant) => merchant.pattern.test(description));
+}
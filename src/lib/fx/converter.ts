@@ -0,0 +1,84 @@
+// Currency conversion with the bundled rate table
+
+import { roundMoney } from '../utils/money';
+import { FX_RATES } from './rates';
+
+// Currency the rate table is quoted against
+const BASE_CURRENCY = 'USD';
+
+/**
+ * Rates in effect on a date - the latest entry on or before it
+ * Dates before the table use its first entry, and missing or unreadable dates its last
+ */
+function ratesOn(date: string): Record<string, number> {
+  const day = /^\d{4}-\d{2}-\d{2}/.test(date) ? date.slice(0, 10) : null;
+  if (!day) return FX_RATES[FX_RATES.length - 1].rates;
+
+  let current = FX_RATES[0];
+  for (const entry of FX_RATES) {
+    if (entry.date > day) break;
+    current = entry;
+  }
+  return current.rates;
+}
+
+/**
+ * Date the latest rates in the table apply from
+ */
+export function getLatestRateDate(): string {
+  return FX_RATES[FX_RATES.length - 1].date;
+}
+
+/**
+ * Check whether a date falls after the month of the latest rates,
+ * so converting it uses rates older than the transaction
+ */
+export function isPastRateTable(date: string): boolean {
+  return /^\d{4}-\d{2}/.test(date) && date.slice(0, 7) > getLatestRateDate().slice(0, 7);
+}
+
+/**
+ * Units of one US dollar in a currency on a date, or null for currencies the table lacks
+ */
+function unitsPerDollar(currency: string, date: string): number | null {
+  if (currency === BASE_CURRENCY) return 1;
+  return ratesOn(date)[currency] ?? null;
+}
+
+/**
+ * Currencies amounts can be converted between
+ */
+export function getSupportedCurrencies(): string[] {
+  return [BASE_CURRENCY, ...Object.keys(FX_RATES[FX_RATES.length - 1].rates)];
+}
+
+/**
+ * Units of the target currency per unit of the source currency on a date
+ * Returns null when either currency is missing from the rate table
+ */
+export function getExchangeRate(from: string, to: string, date: string): number | null {
+  const source = from.toUpperCase();
+  const target = to.toUpperCase();
+  if (source === target) return 1;
+
+  const sourceUnits = unitsPerDollar(source, date);
+  const targetUnits = unitsPerDollar(target, date);
+  if (sourceUnits === null || targetUnits === null) return null;
+
+  return targetUnits / sourceUnits;
+}
+
+/**
+ * Convert an amount at the rate on its date, rounded to the target currency's minor unit
+ * Returns null when either currency is missing from the rate table
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date: string
+): number | null {
+  const rate = getExchangeRate(from, to, date);
+  if (rate === null) return null;
+  return roundMoney(amount * rate, to);
+}
@@ -0,0 +1,11 @@
+// Currency conversion module exports
+
+export {
+  convertAmount,
+  getExchangeRate,
+  getSupportedCurrencies,
+  getLatestRateDate,
+  isPastRateTable,
+} from './converter';
+export { convertAnalysisResult } from './result-converter';
+export { FX_RATES, type FXRateEntry } from './rates';
@@ -0,0 +1,135 @@
+// Bundled exchange rate table used to convert amounts between currencies offline
+// Approximate rates, as units of each currency per US dollar at the start of each month
+// To update: append newer months at the end (entries stay in date order) or refine
+// existing rows - every entry should list the same currencies
+// Refresh it at least every few months from a published monthly reference rate
+// (e.g. the first business day's close); amounts dated after the last entry are
+// converted at its rates, and the results warn that they are outdated
+
+export interface FXRateEntry {
+  date: string; // YYYY-MM-DD the rates apply from
+  rates: Record<string, number>; // Units per USD
+}
+
+export const FX_RATES: FXRateEntry[] = [
+  {
+    date: '2023-01-01',
+    rates: { EUR: 0.9346, GBP: 0.8264, INR: 82.7, JPY: 131, AUD: 1.4706, CAD: 1.35, SGD: 1.34, CHF: 0.92, AED: 3.6725, HKD: 7.8, CNY: 6.9 },
+  },
+  {
+    date: '2023-02-01',
+    rates: { EUR: 0.9174, GBP: 0.813, INR: 82.8, JPY: 130, AUD: 1.4085, CAD: 1.34, SGD: 1.31, CHF: 0.92, AED: 3.6725, HKD: 7.83, CNY: 6.78 },
+  },
+  {
+    date: '2023-03-01',
+    rates: { EUR: 0.9434, GBP: 0.8333, INR: 82.6, JPY: 136, AUD: 1.4925, CAD: 1.36, SGD: 1.34, CHF: 0.93, AED: 3.6725, HKD: 7.85, CNY: 6.94 },
+  },
+  {
+    date: '2023-04-01',
+    rates: { EUR: 0.9174, GBP: 0.8065, INR: 82.2, JPY: 133, AUD: 1.4925, CAD: 1.35, SGD: 1.33, CHF: 0.9, AED: 3.6725, HKD: 7.85, CNY: 6.88 },
+  },
+  {
+    date: '2023-05-01',
+    rates: { EUR: 0.9091, GBP: 0.8, INR: 82, JPY: 136, AUD: 1.5152, CAD: 1.36, SGD: 1.33, CHF: 0.89, AED: 3.6725, HKD: 7.84, CNY: 6.92 },
+  },
+  {
+    date: '2023-06-01',
+    rates: { EUR: 0.9346, GBP: 0.8, INR: 82.4, JPY: 139, AUD: 1.5385, CAD: 1.36, SGD: 1.35, CHF: 0.91, AED: 3.6725, HKD: 7.83, CNY: 7.11 },
+  },
+  {
+    date: '2023-07-01',
+    rates: { EUR: 0.9174, GBP: 0.7874, INR: 82.1, JPY: 144, AUD: 1.4925, CAD: 1.32, SGD: 1.35, CHF: 0.87, AED: 3.6725, HKD: 7.82, CNY: 7.23 },
+  },
+  {
+    date: '2023-08-01',
+    rates: { EUR: 0.9091, GBP: 0.7812, INR: 82.7, JPY: 142, AUD: 1.4925, CAD: 1.33, SGD: 1.35, CHF: 0.88, AED: 3.6725, HKD: 7.84, CNY: 7.17 },
+  },
+  {
+    date: '2023-09-01',
+    rates: { EUR: 0.9259, GBP: 0.7874, INR: 83.1, JPY: 146, AUD: 1.5625, CAD: 1.36, SGD: 1.36, CHF: 0.89, AED: 3.6725, HKD: 7.83, CNY: 7.3 },
+  },
+  {
+    date: '2023-10-01',
+    rates: { EUR: 0.9434, GBP: 0.8197, INR: 83.2, JPY: 149, AUD: 1.5625, CAD: 1.36, SGD: 1.37, CHF: 0.91, AED: 3.6725, HKD: 7.82, CNY: 7.3 },
+  },
+  {
+    date: '2023-11-01',
+    rates: { EUR: 0.9434, GBP: 0.8197, INR: 83.3, JPY: 151, AUD: 1.5625, CAD: 1.37, SGD: 1.37, CHF: 0.9, AED: 3.6725, HKD: 7.81, CNY: 7.28 },
+  },
+  {
+    date: '2023-12-01',
+    rates: { EUR: 0.9174, GBP: 0.7937, INR: 83.3, JPY: 147, AUD: 1.5152, CAD: 1.36, SGD: 1.33, CHF: 0.86, AED: 3.6725, HKD: 7.81, CNY: 7.13 },
+  },
+  {
+    date: '2024-01-01',
+    rates: { EUR: 0.9091, GBP: 0.7874, INR: 83.2, JPY: 141, AUD: 1.4706, CAD: 1.33, SGD: 1.32, CHF: 0.84, AED: 3.6725, HKD: 7.81, CNY: 7.1 },
+  },
+  {
+    date: '2024-02-01',
+    rates: { EUR: 0.9259, GBP: 0.7874, INR: 83, JPY: 147, AUD: 1.5385, CAD: 1.35, SGD: 1.34, CHF: 0.88, AED: 3.6725, HKD: 7.82, CNY: 7.18 },
+  },
+  {
+    date: '2024-03-01',
+    rates: { EUR: 0.9259, GBP: 0.7937, INR: 82.9, JPY: 150, AUD: 1.5385, CAD: 1.36, SGD: 1.35, CHF: 0.88, AED: 3.6725, HKD: 7.83, CNY: 7.19 },
+  },
+  {
+    date: '2024-04-01',
+    rates: { EUR: 0.9259, GBP: 0.7937, INR: 83.4, JPY: 151, AUD: 1.5385, CAD: 1.36, SGD: 1.35, CHF: 0.9, AED: 3.6725, HKD: 7.83, CNY: 7.23 },
+  },
+  {
+    date: '2024-05-01',
+    rates: { EUR: 0.9346, GBP: 0.8, INR: 83.4, JPY: 157, AUD: 1.5152, CAD: 1.38, SGD: 1.36, CHF: 0.91, AED: 3.6725, HKD: 7.82, CNY: 7.24 },
+  },
+  {
+    date: '2024-06-01',
+    rates: { EUR: 0.9174, GBP: 0.7874, INR: 83.4, JPY: 157, AUD: 1.5152, CAD: 1.37, SGD: 1.35, CHF: 0.9, AED: 3.6725, HKD: 7.81, CNY: 7.24 },
+  },
+  {
+    date: '2024-07-01',
+    rates: { EUR: 0.9346, GBP: 0.7937, INR: 83.5, JPY: 161, AUD: 1.4925, CAD: 1.37, SGD: 1.35, CHF: 0.9, AED: 3.6725, HKD: 7.81, CNY: 7.27 },
+  },
+  {
+    date: '2024-08-01',
+    rates: { EUR: 0.9259, GBP: 0.7812, INR: 83.8, JPY: 150, AUD: 1.4925, CAD: 1.38, SGD: 1.33, CHF: 0.88, AED: 3.6725, HKD: 7.8, CNY: 7.16 },
+  },
+  {
+    date: '2024-09-01',
+    rates: { EUR: 0.9091, GBP: 0.7576, INR: 83.9, JPY: 144, AUD: 1.4706, CAD: 1.35, SGD: 1.3, CHF: 0.85, AED: 3.6725, HKD: 7.79, CNY: 7.05 },
+  },
+  {
+    date: '2024-10-01',
+    rates: { EUR: 0.9009, GBP: 0.7463, INR: 83.9, JPY: 143, AUD: 1.4493, CAD: 1.36, SGD: 1.29, CHF: 0.85, AED: 3.6725, HKD: 7.77, CNY: 7.02 },
+  },
+  {
+    date: '2024-11-01',
+    rates: { EUR: 0.9174, GBP: 0.7692, INR: 84.1, JPY: 152, AUD: 1.5152, CAD: 1.4, SGD: 1.33, CHF: 0.88, AED: 3.6725, HKD: 7.78, CNY: 7.2 },
+  },
+  {
+    date: '2024-12-01',
+    rates: { EUR: 0.9524, GBP: 0.7874, INR: 84.7, JPY: 150, AUD: 1.5385, CAD: 1.4, SGD: 1.34, CHF: 0.88, AED: 3.6725, HKD: 7.78, CNY: 7.25 },
+  },
+  {
+    date: '2025-01-01',
+    rates: { EUR: 0.9709, GBP: 0.8, INR: 85.6, JPY: 157, AUD: 1.6129, CAD: 1.44, SGD: 1.37, CHF: 0.91, AED: 3.6725, HKD: 7.78, CNY: 7.3 },
+  },
+  {
+    date: '2025-02-01',
+    rates: { EUR: 0.9615, GBP: 0.8065, INR: 87, JPY: 155, AUD: 1.6129, CAD: 1.44, SGD: 1.35, CHF: 0.91, AED: 3.6725, HKD: 7.79, CNY: 7.29 },
+  },
+  {
+    date: '2025-03-01',
+    rates: { EUR: 0.9615, GBP: 0.7937, INR: 87.3, JPY: 150, AUD: 1.6129, CAD: 1.44, SGD: 1.35, CHF: 0.9, AED: 3.6725, HKD: 7.78, CNY: 7.27 },
+  },
+  {
+    date: '2025-04-01',
+    rates: { EUR: 0.9259, GBP: 0.7752, INR: 85.5, JPY: 150, AUD: 1.5873, CAD: 1.43, SGD: 1.33, CHF: 0.86, AED: 3.6725, HKD: 7.76, CNY: 7.27 },
+  },
+  {
+    date: '2025-05-01',
+    rates: { EUR: 0.885, GBP: 0.7519, INR: 85, JPY: 144, AUD: 1.5625, CAD: 1.38, SGD: 1.3, CHF: 0.83, AED: 3.6725, HKD: 7.75, CNY: 7.23 },
+  },
+  {
+    date: '2025-06-01',
+    rates: { EUR: 0.885, GBP: 0.7407, INR: 85.6, JPY: 144, AUD: 1.5385, CAD: 1.37, SGD: 1.29, CHF: 0.82, AED: 3.6725, HKD: 7.85, CNY: 7.18 },
+  },
+];
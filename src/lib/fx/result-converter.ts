@@ -0,0 +1,73 @@
+// Showing an analysis in another currency
+
+import { sanitizeFullAnalysisResult } from '../ai/response-sanitizer';
+import type { FullAnalysisResult, Subscription, Transaction } from '../types';
+import { convertAmount } from './converter';
+
+/**
+ * Convert an optional amount, keeping it unset when it was
+ */
+function convertOptional(
+  amount: number | undefined,
+  from: string,
+  to: string,
+  date: string
+): number | undefined {
+  return amount === undefined ? undefined : convertAmount(amount, from, to, date) ?? amount;
+}
+
+/**
+ * Convert every transaction and subscription to a home currency at the rate on its date,
+ * then rebuild totals, breakdowns and top merchants from the converted amounts
+ * Amounts without a rate for their currency keep it, so the totals leave them out, and are listed in the summary
+ */
+export function convertAnalysisResult(
+  result: FullAnalysisResult,
+  homeCurrency: string
+): FullAnalysisResult {
+  const home = homeCurrency.toUpperCase();
+  const statementCurrency = result.summary.currency || 'INR';
+
+  const transactions = result.transactions.map((transaction): Transaction => {
+    const from = transaction.currency || statementCurrency;
+    const amount = convertAmount(transaction.amount, from, home, transaction.date);
+    if (from === home) return transaction;
+    if (amount === null) return { ...transaction, currency: from };
+
+    return {
+      ...transaction,
+      amount,
+      currency: home,
+      convertedFrom: transaction.convertedFrom ?? from,
+      fxFee: convertOptional(transaction.fxFee, from, home, transaction.date),
+    };
+  });
+
+  // Subscriptions convert at their latest charge, which sets their current price
+  const subscriptions = result.subscriptions.map((subscription): Subscription => {
+    const from = subscription.currency || statementCurrency;
+    const date = subscription.lastSeen;
+    const amount = convertAmount(subscription.amount, from, home, date);
+    if (from === home) return subscription;
+    if (amount === null) return { ...subscription, currency: from };
+
+    return {
+      ...subscription,
+      amount,
+      currency: home,
+      totalSpent: convertAmount(subscription.totalSpent, from, home, date) ?? subscription.totalSpent,
+      convertedFrom: subscription.convertedFrom ?? from,
+      fxFee: convertOptional(subscription.fxFee, from, home, date),
+    };
+  });
+
+  return {
+    ...result,
+    ...sanitizeFullAnalysisResult({
+      ...result,
+      summary: { ...result.summary, currency: home },
+      transactions,
+      subscriptions,
+    }),
+  };
+}
@@ -1,14 +1,30 @@
 // Inngest client configuration
 
 import { Inngest, EventSchemas } from 'inngest';
+import type {
+  AccountType,
+  DetectedProfile,
+  OCRPageConfidence,
+  RunningBalanceCheck,
+  SourceFile,
+  StatementFileType,
+  StatementMetadata,
+} from '../types';
 
 // Event type definitions for type safety
 export type AnalyzeRequestedEvent = {
   data: {
     jobId: string;
-    csvContent: string;
-    fileType: 'csv' | 'pdf';
+    inputKey: string; // Redis key of the statement content to analyze
+    fileType: StatementFileType;
     fileName: string;
+    accountType?: AccountType; // Chosen by the user or detected from the statements
+    csvProfile?: DetectedProfile;
+    warnings?: string[];
+    sourceFiles?: SourceFile[];
+    ocrPages?: OCRPageConfidence[];
+    statementDetails?: StatementMetadata[]; // Details of statements read before the job started
+    balanceChecks?: RunningBalanceCheck[];
   };
 };
 
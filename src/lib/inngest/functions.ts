@@ -1,15 +1,41 @@
 // Inngest background functions for analysis processing
 
 import { inngest } from './client';
-import { analyzeTransactions } from '../ai/gemini-client';
+import {
+  analyzeTransactions,
+  extractTransactionsFromPDF,
+} from '../ai/gemini-client';
+import { mergeAnalysisResults, splitForAnalysis } from '../ai/result-merger';
+import {
+  assemblePDFExtraction,
+  extractPDFWithoutAI,
+  splitPDFPages,
+  type ExtractedPart,
+} from '../parsers/pdf-chunks';
+import { prepareAnalysisInput } from '../parsers/statement-merger';
+import { hasStatementDetails, reconcileStatement } from '../parsers/statement-metadata';
+import { checkRunningBalance } from '../parsers/running-balance';
+import { verifySubscriptions } from '../recurring';
+import { analyzeWithRules } from '../fallback';
+import { sanitizeCSVContent } from '../utils/sanitizer';
 import {
   updateJobProgress,
   completeJob,
   failJob,
   isJobCancelled,
   getJob,
+  recordChunkComplete,
+  getJobInput,
+  saveJobInput,
+  saveStepResult,
+  getStepResult,
+  type AnalysisJobInput,
 } from '../redis/jobs';
-import { getErrorResponse } from '../errors';
+import { getErrorResponse, isAppError } from '../errors';
+import type { FullAnalysisResult, RunningBalanceCheck, StatementMetadata } from '../types';
+
+// Most steps of one job running at once - bounds parallel AI calls for long statements
+const MAX_PARALLEL_STEPS = 5;
 
 // Progress steps with percentages
 const PROGRESS_STEPS = {
@@ -22,6 +48,24 @@ const PROGRESS_STEPS = {
   FINALIZING: { progress: 95, step: 'Finalizing analysis...' },
 } as const;
 
+/**
+ * Progress while chunks are analyzed, between categorizing and subscriptions
+ */
+function chunkProgress(done: number, total: number): number {
+  const from = PROGRESS_STEPS.CATEGORIZING.progress;
+  const to = PROGRESS_STEPS.SUBSCRIPTIONS.progress;
+  return Math.round(from + ((to - from) * done) / total);
+}
+
+/**
+ * Progress while PDF page ranges are extracted, between reading and detecting
+ */
+function extractionProgress(done: number, total: number): number {
+  const from = PROGRESS_STEPS.READING.progress;
+  const to = PROGRESS_STEPS.DETECTING.progress;
+  return Math.round(from + ((to - from) * done) / total);
+}
+
 // Custom error for cancelled jobs
 class JobCancelledError extends Error {
   constructor(jobId: string) {
@@ -40,6 +84,18 @@ async function checkCancellation(jobId: string): Promise<void> {
   }
 }
 
+/**
+ * Read the statement content stored for a job
+ * Steps load it themselves rather than return it, as step results are size-limited too
+ */
+async function loadJobInput(inputKey: string): Promise<AnalysisJobInput> {
+  const input = await getJobInput(inputKey);
+  if (!input) {
+    throw new Error(`Input ${inputKey} not found`);
+  }
+  return input;
+}
+
 /**
  * Background function to analyze transactions
  * This runs outside of Vercel's request timeout limits
@@ -48,10 +104,18 @@ export const analyzeFunction = inngest.createFunction(
   {
     id: 'analyze-transactions',
     retries: 1, // Reduce retries since analysis is expensive
+    concurrency: { key: 'event.data.jobId', limit: MAX_PARALLEL_STEPS },
   },
   { event: 'analyze.requested' },
   async ({ event, step }) => {
-    const { jobId, csvContent, fileName } = event.data;
+    const { jobId, inputKey, fileName, accountType, ocrPages } = event.data;
+    let {
+      csvProfile,
+      warnings,
+      sourceFiles,
+      statementDetails,
+      balanceChecks,
+    } = event.data;
 
     try {
       // Step 1: Check cancellation and mark as starting
@@ -74,6 +138,163 @@ export const analyzeFunction = inngest.createFunction(
         );
       });
 
+      // Extract PDFs the upload couldn't read without AI
+      // Each PDF is split into page ranges that are extracted in parallel
+      // A range the AI can't extract returns null, and its PDF is read without AI if possible
+      // Extracted tables are kept in Redis, and each step returns only the name they're stored under
+      const extractionChunks = await step.run('plan-pdf-extraction', async () => {
+        const { pendingPDFs } = await loadJobInput(inputKey);
+        return (pendingPDFs ?? []).flatMap((pdf, file) =>
+          splitPDFPages(pdf.pageTexts).map((chunk, index, chunks) => ({
+            file,
+            index,
+            total: chunks.length,
+            pages: chunk.pages,
+          }))
+        );
+      });
+
+      if (extractionChunks.length > 0) {
+        const extractedParts = await Promise.all(
+          extractionChunks.map(({ file, index, total }) =>
+            step.run(`extract-pdf-${file}-chunk-${index}`, async () => {
+              await checkCancellation(jobId);
+
+              const { pendingPDFs } = await loadJobInput(inputKey);
+              const chunk = splitPDFPages(pendingPDFs![file].pageTexts)[index];
+              let csv: string | null = '';
+              try {
+                csv = await extractTransactionsFromPDF(
+                  chunk.text,
+                  total > 1 ? { index, total, pages: chunk.pages } : undefined
+                );
+              } catch (extractError) {
+                // Page ranges holding only summaries or terms have no transactions
+                const isEmptyRange =
+                  total > 1 &&
+                  isAppError(extractError) &&
+                  extractError.userError.code === 'PDF_NO_TABLES';
+                const isAIUnavailable =
+                  isAppError(extractError) && extractError.userError.code === 'AI_ERROR';
+                if (isAIUnavailable) {
+                  console.error('PDF Extraction Error:', {
+                    jobId,
+                    file,
+                    chunk: `${index + 1}/${total}`,
+                    error: extractError.message,
+                  });
+                  csv = null;
+                } else if (!isEmptyRange) {
+                  throw extractError;
+                }
+              }
+
+              if (extractionChunks.length > 1) {
+                const done = Math.min(
+                  await recordChunkComplete(jobId, 'extraction'),
+                  extractionChunks.length
+                );
+                await updateJobProgress(
+                  jobId,
+                  extractionProgress(done, extractionChunks.length),
+                  `Extracting transactions from PDF (${done} of ${extractionChunks.length} parts done)...`
+                );
+              }
+
+              return csv === null
+                ? null
+                : await saveStepResult(jobId, `extract-pdf-${file}-chunk-${index}`, { csv });
+            })
+          )
+        );
+
+        const prepared = await step.run('merge-pdf-extractions', async () => {
+          const stored = await loadJobInput(inputKey);
+          const pendingPDFs = stored.pendingPDFs ?? [];
+          const statements = stored.statements;
+          const isMultiFile = (statements?.length ?? 0) + pendingPDFs.length > 1;
+          const inputs = [...(statements ?? [])];
+          const pdfWarnings: string[] = [];
+          const pdfDetails: StatementMetadata[] = [];
+          const pdfBalanceChecks: RunningBalanceCheck[] = [];
+
+          // Put each PDF back at its place among the uploads, in upload order
+          const extractedTables = await Promise.all(
+            extractedParts.map(async (name) =>
+              name === null ? null : (await getStepResult<{ csv: string }>(jobId, name)).csv
+            )
+          );
+          pendingPDFs.forEach((pdf, file) => {
+            const parts = extractedTables.flatMap((csv, index) =>
+              extractionChunks[index].file === file
+                ? [{ csv, pages: extractionChunks[index].pages }]
+                : []
+            );
+            const extracted = parts.filter(
+              (part): part is ExtractedPart => part.csv !== null
+            );
+            const extraction =
+              extracted.length === parts.length
+                ? assemblePDFExtraction(extracted, pdf.pageTexts)
+                : extractPDFWithoutAI(pdf);
+            const content = sanitizeCSVContent(extraction.content);
+            inputs.splice(pdf.position, 0, {
+              fileName: pdf.fileName,
+              fileType: 'pdf',
+              content,
+            });
+
+            // Check the extracted transactions against the balances the statement prints
+            const reconciled = pdf.metadata
+              ? reconcileStatement(pdf.metadata, content)
+              : { metadata: {}, warnings: [] };
+            if (hasStatementDetails(reconciled.metadata)) {
+              pdfDetails.push(
+                isMultiFile
+                  ? { ...reconciled.metadata, fileName: pdf.fileName }
+                  : reconciled.metadata
+              );
+            }
+
+            // AI extraction can drop or repeat rows - the running balance shows where
+            const balanceCheck = checkRunningBalance(content);
+            if (balanceCheck.check) {
+              pdfBalanceChecks.push(
+                isMultiFile
+                  ? { ...balanceCheck.check, fileName: pdf.fileName }
+                  : balanceCheck.check
+              );
+            }
+
+            pdfWarnings.push(
+              ...[
+                ...extraction.warnings,
+                ...reconciled.warnings,
+                ...balanceCheck.warnings,
+              ].map((warning) =>
+                isMultiFile ? `${pdf.fileName}: ${warning}` : warning
+              )
+            );
+          });
+
+          // The merged table replaces the stored content; the PDFs stay so a retry can rebuild it
+          const { content, ...input } = prepareAnalysisInput(inputs);
+          await saveJobInput(jobId, { ...stored, csvContent: content });
+          return {
+            ...input,
+            warnings: pdfWarnings,
+            statementDetails: pdfDetails,
+            balanceChecks: pdfBalanceChecks,
+          };
+        });
+
+        csvProfile = prepared.csvProfile;
+        sourceFiles = prepared.sourceFiles;
+        warnings = [...(warnings ?? []), ...prepared.warnings];
+        statementDetails = [...(statementDetails ?? []), ...prepared.statementDetails];
+        balanceChecks = [...(balanceChecks ?? []), ...prepared.balanceChecks];
+      }
+
       // Step 3: Detecting patterns
       await step.run('update-progress-detecting', async () => {
         await checkCancellation(jobId);
@@ -95,22 +316,88 @@ export const analyzeFunction = inngest.createFunction(
       });
 
       // Run the AI analysis - this is the long-running part
-      const result = await step.run('analyze-with-ai', async () => {
-        // Check cancellation before starting expensive AI call
-        await checkCancellation(jobId);
-        
-        try {
-          const analysisResult = await analyzeTransactions(csvContent);
-          return analysisResult;
-        } catch (aiError) {
-          // Log detailed AI error for debugging
-          console.error('AI Analysis Error:', {
-            jobId,
-            error: aiError instanceof Error ? aiError.message : 'Unknown error',
-            stack: aiError instanceof Error ? aiError.stack : undefined,
-          });
-          throw aiError;
-        }
+      // Statements of any length are split into chunks analyzed in parallel, then merged
+      // A chunk the AI can't analyze returns null, and the statement falls back to basic mode
+      // Like extracted tables, chunk results and the merged result are kept in Redis
+      const chunkCount = await step.run('split-for-analysis', async () => {
+        const { csvContent } = await loadJobInput(inputKey);
+        return splitForAnalysis(csvContent).length;
+      });
+      const chunkResults = await Promise.all(
+        Array.from({ length: chunkCount }, (_, index) =>
+          step.run(`analyze-chunk-${index}`, async () => {
+            // Check cancellation before starting expensive AI call
+            await checkCancellation(jobId);
+
+            try {
+              const { csvContent } = await loadJobInput(inputKey);
+              const chunkResult = await analyzeTransactions(
+                splitForAnalysis(csvContent)[index],
+                chunkCount > 1 ? { index, total: chunkCount } : undefined,
+                accountType
+              );
+
+              if (chunkCount > 1) {
+                const done = Math.min(
+                  await recordChunkComplete(jobId),
+                  chunkCount
+                );
+                await updateJobProgress(
+                  jobId,
+                  chunkProgress(done, chunkCount),
+                  `Categorizing transactions (${done} of ${chunkCount} parts done)...`
+                );
+              }
+
+              return await saveStepResult(jobId, `analyze-chunk-${index}`, chunkResult);
+            } catch (aiError) {
+              // Log detailed AI error for debugging
+              console.error('AI Analysis Error:', {
+                jobId,
+                chunk: `${index + 1}/${chunkCount}`,
+                error: aiError instanceof Error ? aiError.message : 'Unknown error',
+                stack: aiError instanceof Error ? aiError.stack : undefined,
+              });
+              if (isAppError(aiError) && aiError.userError.code === 'AI_ERROR') {
+                return null;
+              }
+              throw aiError;
+            }
+          })
+        )
+      );
+
+      const merged = await step.run('merge-results', async () => {
+        // Rebuild subscriptions and totals across all chunks, then check the
+        // subscriptions against the schedule of their charges
+        // Without every chunk's AI result, the whole statement is analyzed by rules instead
+        const aiResults = chunkResults.filter((name) => name !== null);
+        const analysisResult =
+          aiResults.length === chunkCount
+            ? verifySubscriptions(
+                mergeAnalysisResults(
+                  await Promise.all(
+                    aiResults.map((name) => getStepResult<FullAnalysisResult>(jobId, name))
+                  )
+                )
+              )
+            : analyzeWithRules((await loadJobInput(inputKey)).csvContent, accountType);
+        // Record which bank export mapping produced the input, any input warnings,
+        // the statements merged into it, the quality of any OCR'd pages, printed statement
+        // details and running balance checks
+        const result: FullAnalysisResult = {
+          ...analysisResult,
+          ...(csvProfile && { csvProfile }),
+          ...(warnings && warnings.length > 0 && { warnings }),
+          ...(sourceFiles && sourceFiles.length > 1 && { sourceFiles }),
+          ...(ocrPages && ocrPages.length > 0 && { ocrPages }),
+          ...(statementDetails && statementDetails.length > 0 && { statementDetails }),
+          ...(balanceChecks && balanceChecks.length > 0 && { balanceChecks }),
+        };
+        return {
+          resultName: await saveStepResult(jobId, 'merge-results', result),
+          transactionCount: result.summary?.transactionCount ?? 0,
+        };
       });
 
       // Step 5: Check cancellation after AI completes
@@ -145,14 +432,17 @@ export const analyzeFunction = inngest.createFunction(
       await step.run('complete-job', async () => {
         // Final cancellation check
         await checkCancellation(jobId);
-        await completeJob(jobId, result);
+        await completeJob(
+          jobId,
+          await getStepResult<FullAnalysisResult>(jobId, merged.resultName)
+        );
       });
 
       return {
         success: true,
         jobId,
         fileName,
-        transactionCount: result.summary?.transactionCount ?? 0,
+        transactionCount: merged.transactionCount,
       };
     } catch (error) {
       // Handle cancellation - don't mark as failed, just exit gracefully
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { inferDecimalSeparator, parseAmount, parseAmountValue } from './amount-normalizer';
+
+describe('parseAmount', () => {
+  it('drops a currency word with a trailing dot before reading separators', () => {
+    expect(parseAmount('Rs. 1,200')?.value).toBe(1200);
+    expect(parseAmount('Rs. 500')?.value).toBe(500);
+    expect(parseAmount('Rs.12,34,567')?.value).toBe(1234567);
+  });
+
+  it('drops currency codes before and after the number', () => {
+    expect(parseAmount('INR 500.00')?.value).toBe(500);
+    expect(parseAmount('1.234,56 EUR')?.value).toBe(1234.56);
+    expect(parseAmount('US$ 15.99')?.value).toBe(15.99);
+  });
+
+  it('keeps signs next to a currency symbol', () => {
+    expect(parseAmountValue('-$15.99')).toBe(-15.99);
+    expect(parseAmountValue('(₹ 1,200.00)')).toBe(-1200);
+    expect(parseAmountValue('1,200.00 Dr')).toBe(-1200);
+  });
+
+  it('rejects text that is not an amount', () => {
+    expect(parseAmount('1e5')).toBeNull();
+    expect(parseAmount('CHQ 123456')).toBeNull();
+    expect(parseAmount('12/01/2024')).toBeNull();
+  });
+});
+
+describe('inferDecimalSeparator', () => {
+  it('is not misled by the dot of "Rs."', () => {
+    expect(inferDecimalSeparator(['Rs. 1,200', 'Rs. 45,50'])).toBe(',');
+    expect(inferDecimalSeparator(['Rs. 1,200.50', 'Rs. 99.00'])).toBe('.');
+  });
+});
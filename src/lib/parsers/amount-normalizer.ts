@@ -0,0 +1,267 @@
+// Amount parsing for the signed-amount conventions banks use
+
+import type { TransactionType } from '../types';
+
+export type DecimalSeparator = '.' | ',';
+
+export interface ParsedAmount {
+  value: number; // Always positive
+  negative: boolean; // Minus sign (leading or trailing) or parentheses
+  indicator?: TransactionType; // From a Dr/Cr marker next to the number
+}
+
+export interface NormalizedAmount {
+  amount: number; // Signed from the account holder's view - debits are negative
+  type: TransactionType;
+}
+
+export interface AmountCells {
+  amount?: string; // Single signed amount column
+  debit?: string; // Separate debit/credit columns
+  credit?: string;
+  indicator?: string; // Debit/credit indicator column
+}
+
+export interface AmountConventions {
+  // Sign of debits in a single amount column (1 when charges are positive)
+  debitSign?: 1 | -1;
+  // Indicator values (lowercase) that mark a credit - anything else is a debit
+  creditIndicators?: string[];
+  // Decimal separator used by the file ("1.234,56" uses ",")
+  decimalSeparator?: DecimalSeparator;
+}
+
+// Indicator values recognized in a type column
+export const DEBIT_INDICATORS = ['debit', 'dr', 'd', 'db', 'dbit', 'sale', 'purchase', 'withdrawal', 'charge'];
+export const CREDIT_INDICATORS = ['credit', 'cr', 'c', 'crdt', 'payment', 'refund', 'return', 'deposit', 'cashback'];
+
+// Dr/Cr markers written after or before the number ("1,200.00 Dr", "45.00CR", "CR 45.00")
+const MARKER_SUFFIX = /^(.*[\d)])\s*(dr|cr|db|debit|credit)\.?$/i;
+const MARKER_PREFIX = /^(dr|cr|db|debit|credit)\.?\s*([^a-z].*)$/i;
+
+// Digit grouping characters other than "." and "," ("1 234,56", "1'234.56")
+const GROUPING_CHARS = /[\s'\u2019\u00a0\u202f]/g;
+
+// Currency symbols and codes written with an amount, with any trailing dot ("Rs. 500", "US$ 5", "500 EUR")
+const CURRENCY_MARKS =
+  /(?:\b(?:rs|inr|usd|eur|euro|gbp|aud|cad|nzd|sgd|hkd|aed|sar|qar|kwd|bhd|omr|jpy|cny|rmb|chf|sek|nok|dkk|zar|myr|thb|idr|php|krw|brl|mxn|pkr|lkr|npr|bdt)(?![a-z])|[a-z]{0,2}[$€£¥₹₩₽₺₪฿])\.?/gi;
+
+// What may remain once currency marks and grouping are gone: signs, brackets, digits and separators
+const MONEY_TEXT = /^[+\-(]*[\d.,]*\d[\d.,]*[)\-]*$/;
+
+/**
+ * Digits and separators of a money cell, or null when it holds anything
+ * else (letters, exponents, other symbols) rather than a plain amount
+ */
+function moneyDigits(text: string): string | null {
+  const bare = text.replace(CURRENCY_MARKS, '').replace(GROUPING_CHARS, '');
+  return MONEY_TEXT.test(bare) ? bare.replace(/[^\d.,]/g, '') : null;
+}
+
+/**
+ * Convert the numeric part of a money cell to a number
+ * Without a known decimal separator, the last of "." and "," is the decimal point,
+ * and a lone "," followed by exactly three digits groups thousands
+ */
+function toNumber(text: string, decimalSeparator?: DecimalSeparator): number | null {
+  const digits = moneyDigits(text);
+  if (digits === null) return null;
+
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  let decimal: DecimalSeparator | null;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimal = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot < 0 && lastComma < 0) {
+    decimal = null;
+  } else {
+    const separator: DecimalSeparator = lastDot >= 0 ? '.' : ',';
+    const occurrences = digits.split(separator).length - 1;
+    if (decimalSeparator) {
+      decimal = separator === decimalSeparator && occurrences === 1 ? separator : null;
+    } else if (occurrences > 1) {
+      decimal = null;
+    } else if (separator === ',') {
+      decimal = /,\d{3}$/.test(digits) ? null : ',';
+    } else {
+      decimal = '.';
+    }
+  }
+
+  const [whole, fraction = ''] =
+    decimal === null
+      ? [digits.replace(/[.,]/g, '')]
+      : [
+          digits.slice(0, digits.lastIndexOf(decimal)).replace(/[.,]/g, ''),
+          digits.slice(digits.lastIndexOf(decimal) + 1),
+        ];
+
+  const amount = Number(`${whole || '0'}.${fraction || '0'}`);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Work out which decimal separator a column of amounts uses
+ */
+export function inferDecimalSeparator(values: string[]): DecimalSeparator {
+  let dot = 0;
+  let comma = 0;
+
+  for (const value of values) {
+    const digits = moneyDigits(value);
+    if (digits === null) continue;
+    const lastDot = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+
+    if (lastDot >= 0 && lastComma >= 0) {
+      if (lastDot > lastComma) dot++;
+      else comma++;
+    } else if (/,\d{1,2}$/.test(digits) || /\.\d{3}\./.test(digits)) {
+      comma++;
+    } else if (/\.\d{1,2}$/.test(digits) || /,\d{3},/.test(digits)) {
+      dot++;
+    }
+  }
+
+  return comma > dot ? ',' : '.';
+}
+
+/**
+ * Map an indicator word to a transaction type
+ */
+export function parseIndicator(
+  value: string | undefined
+): TransactionType | undefined {
+  const lower = (value || '').trim().toLowerCase();
+  if (!lower) return undefined;
+  if (CREDIT_INDICATORS.includes(lower)) return 'credit';
+  if (DEBIT_INDICATORS.includes(lower)) return 'debit';
+  return undefined;
+}
+
+/**
+ * Parse a money cell, keeping its sign conventions separate from its value
+ * Handles "-$15.99", "15.99-", "(15.99)", "1,200.00 Dr", "CR 45.00", "Rs. 1,200" and "1.234,56"
+ * Returns null for cells that aren't an amount ("1e5", "CHQ 123456")
+ */
+export function parseAmount(
+  value: string | undefined,
+  decimalSeparator?: DecimalSeparator
+): ParsedAmount | null {
+  if (!value) return null;
+
+  let text = value.trim();
+  let indicator: TransactionType | undefined;
+
+  const suffix = text.match(MARKER_SUFFIX);
+  const prefix = suffix ? null : text.match(MARKER_PREFIX);
+  if (suffix) {
+    indicator = parseIndicator(suffix[2]);
+    text = suffix[1].trim();
+  } else if (prefix) {
+    indicator = parseIndicator(prefix[1]);
+    text = prefix[2].trim();
+  }
+
+  const parenthesized = /^\(.*\)$/.test(text);
+  const negative =
+    parenthesized || /^[^\d]*-/.test(text) || /\d[^\d]*-\s*$/.test(text);
+
+  const amount = toNumber(text, decimalSeparator);
+  if (amount === null) return null;
+
+  return { value: amount, negative, indicator };
+}
+
+/**
+ * Parse a money cell to a signed number - Dr markers count as negative
+ */
+export function parseAmountValue(
+  value: string | undefined,
+  decimalSeparator?: DecimalSeparator
+): number | null {
+  const parsed = parseAmount(value, decimalSeparator);
+  if (!parsed) return null;
+
+  if (parsed.indicator) {
+    return parsed.indicator === 'debit' ? -parsed.value : parsed.value;
+  }
+  return parsed.negative ? -parsed.value : parsed.value;
+}
+
+/**
+ * Build a normalized amount from a magnitude and direction
+ */
+function toNormalized(value: number, type: TransactionType): NormalizedAmount {
+  return { amount: type === 'debit' ? -value : value, type };
+}
+
+/**
+ * Resolve a row's amount cells to a signed amount and transaction type
+ * Returns null for rows without a non-zero amount (totals, notes, blanks)
+ */
+export function normalizeAmount(
+  cells: AmountCells,
+  conventions: AmountConventions = {}
+): NormalizedAmount | null {
+  if (cells.debit !== undefined || cells.credit !== undefined) {
+    const debit = parseAmount(cells.debit, conventions.decimalSeparator);
+    const credit = parseAmount(cells.credit, conventions.decimalSeparator);
+
+    // A negative value in the debit column is a reversal, and vice versa
+    if (debit && debit.value !== 0) {
+      return toNormalized(debit.value, debit.negative ? 'credit' : 'debit');
+    }
+    if (credit && credit.value !== 0) {
+      return toNormalized(credit.value, credit.negative ? 'debit' : 'credit');
+    }
+    if (cells.amount === undefined) return null;
+  }
+
+  const parsed = parseAmount(cells.amount, conventions.decimalSeparator);
+  if (!parsed || parsed.value === 0) return null;
+
+  // An explicit Dr/Cr marker on the number wins
+  if (parsed.indicator) {
+    return toNormalized(parsed.value, parsed.indicator);
+  }
+
+  // Then an indicator column
+  if (cells.indicator !== undefined && cells.indicator.trim()) {
+    const indicator = cells.indicator.trim().toLowerCase();
+    if (conventions.creditIndicators) {
+      return toNormalized(
+        parsed.value,
+        conventions.creditIndicators.includes(indicator) ? 'credit' : 'debit'
+      );
+    }
+
+    const type = parseIndicator(indicator);
+    if (type) return toNormalized(parsed.value, type);
+  }
+
+  // Otherwise the sign decides
+  const debitSign = conventions.debitSign ?? -1;
+  const sign = parsed.negative ? -1 : 1;
+  return toNormalized(parsed.value, sign === debitSign ? 'debit' : 'credit');
+}
+
+/**
+ * Decide the sign of debits in a single signed amount column
+ * Most statement rows are spending, so the majority sign is taken as debit
+ */
+export function inferDebitSign(values: string[]): 1 | -1 {
+  let negatives = 0;
+  let positives = 0;
+
+  for (const value of values) {
+    const parsed = parseAmount(value);
+    // Rows with Dr/Cr markers don't say anything about the bare-number convention
+    if (!parsed || parsed.value === 0 || parsed.indicator) continue;
+    if (parsed.negative) negatives++;
+    else positives++;
+  }
+
+  return negatives > positives ? -1 : 1;
+}
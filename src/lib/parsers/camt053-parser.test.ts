@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { isAppError } from '../errors';
+import { extractCamt053Transactions, isCamt053Content } from './camt053-parser';
+
+/** camt.053.001.08 statement wrapping the given entries */
+function camtStatement(entries: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">',
+    '<BkToCstmrStmt><Stmt><Id>STMT-1</Id>',
+    ...entries,
+    '</Stmt></BkToCstmrStmt>',
+    '</Document>',
+  ].join('\n');
+}
+
+/** One booked entry with a creditor or debtor and remittance text */
+function entry({
+  amount,
+  indicator,
+  status = '<Sts><Cd>BOOK</Cd></Sts>',
+  party,
+  remittance,
+}: {
+  amount: string;
+  indicator: string;
+  status?: string;
+  party: string;
+  remittance: string;
+}): string {
+  const role = indicator === 'DBIT' ? 'Cdtr' : 'Dbtr';
+  return `<Ntry>
+  <Amt Ccy="EUR">${amount}</Amt>
+  <CdtDbtInd>${indicator}</CdtDbtInd>
+  ${status}
+  <BookgDt><Dt>2024-03-05</Dt></BookgDt>
+  <ValDt><Dt>2024-03-06</Dt></ValDt>
+  <NtryDtls><TxDtls>
+    <RltdPties><${role}><Pty><Nm>${party}</Nm></Pty></${role}></RltdPties>
+    <RmtInf><Ustrd>${remittance}</Ustrd></RmtInf>
+  </TxDtls></NtryDtls>
+</Ntry>`;
+}
+
+/** Code of the AppError a call throws */
+function errorCode(run: () => unknown): string | undefined {
+  try {
+    run();
+  } catch (error) {
+    return isAppError(error) ? error.userError.code : undefined;
+  }
+  return undefined;
+}
+
+describe('extractCamt053Transactions', () => {
+  it('reads booked entries with their counterparty and direction', () => {
+    const content = camtStatement([
+      entry({ amount: '15.99', indicator: 'DBIT', party: 'Netflix International B.V.', remittance: 'Subscription March' }),
+      entry({ amount: '2500.00', indicator: 'CRDT', party: 'ACME GmbH', remittance: 'Salary &amp; bonus' }),
+    ]);
+
+    expect(extractCamt053Transactions(content)).toEqual([
+      {
+        date: '2024-03-05',
+        valueDate: '2024-03-06',
+        description: 'Netflix International B.V. - Subscription March',
+        amount: 15.99,
+        type: 'debit',
+        currency: 'EUR',
+        counterparty: 'Netflix International B.V.',
+      },
+      {
+        date: '2024-03-05',
+        valueDate: '2024-03-06',
+        description: 'ACME GmbH - Salary & bonus',
+        amount: 2500,
+        type: 'credit',
+        currency: 'EUR',
+        counterparty: 'ACME GmbH',
+      },
+    ]);
+  });
+
+  it('leaves out pending entries', () => {
+    const content = camtStatement([
+      entry({ amount: '15.99', indicator: 'DBIT', party: 'Netflix', remittance: 'March' }),
+      entry({ amount: '9.99', indicator: 'DBIT', status: '<Sts>PDNG</Sts>', party: 'Spotify', remittance: 'March' }),
+    ]);
+
+    expect(extractCamt053Transactions(content).map((t) => t.counterparty)).toEqual(['Netflix']);
+  });
+
+  it('rejects an entry without a debit or credit indicator', () => {
+    const content = camtStatement([
+      entry({ amount: '15.99', indicator: 'XXXX', party: 'Netflix', remittance: 'March' }),
+    ]);
+
+    expect(errorCode(() => extractCamt053Transactions(content))).toBe('CAMT053_MALFORMED');
+  });
+
+  it('rejects XML that is not a camt.053 statement', () => {
+    expect(isCamt053Content('<?xml version="1.0"?><Invoice/>')).toBe(false);
+    expect(errorCode(() => extractCamt053Transactions('<Invoice/>'))).toBe('CAMT053_MALFORMED');
+  });
+});
@@ -0,0 +1,157 @@
+// ISO 20022 camt.053 (Bank-to-Customer Statement) XML parsing
+
+import { AppError } from '../errors';
+import { toCanonicalCSV, type CanonicalTransaction } from './canonical';
+
+// Entry statuses that represent money that actually moved
+const BOOKED_STATUSES = ['BOOK'];
+
+/**
+ * Decode XML entities in element text
+ */
+function decodeXMLEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Return the inner XML of the first matching element (namespace prefixes allowed)
+ */
+function readBlock(xml: string, tag: string): string | undefined {
+  const match = xml.match(
+    new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`)
+  );
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Return the text of the first element reached by following a tag path
+ */
+function readText(xml: string, ...path: string[]): string | undefined {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    if (current === undefined) return undefined;
+    current = readBlock(current, tag);
+  }
+  if (current === undefined) return undefined;
+
+  const text = decodeXMLEntities(current.replace(/<[^>]*>/g, ' ')).trim();
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * Read a date group (<Dt> or <DtTm>) as YYYY-MM-DD
+ */
+function readDate(entry: string, tag: string): string | undefined {
+  const group = readBlock(entry, tag);
+  if (!group) return undefined;
+
+  const value = readText(group, 'Dt') || readText(group, 'DtTm');
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Find the counterparty name - the creditor for debits, the debtor for credits
+ * Handles both <Cdtr><Nm> (v2-v7) and <Cdtr><Pty><Nm> (v8+)
+ */
+function readCounterparty(
+  details: string,
+  isDebit: boolean
+): string | undefined {
+  const parties = readBlock(details, 'RltdPties');
+  if (!parties) return undefined;
+
+  const role = isDebit ? 'Cdtr' : 'Dbtr';
+  return readText(parties, role, 'Pty', 'Nm') || readText(parties, role, 'Nm');
+}
+
+/**
+ * Check whether text content looks like a camt.053 document
+ */
+export function isCamt053Content(content: string): boolean {
+  return /camt\.053|<(?:\w+:)?BkToCstmrStmt\b/.test(content.slice(0, 4096));
+}
+
+/**
+ * Extract canonical transactions from camt.053 XML
+ */
+export function extractCamt053Transactions(
+  content: string
+): CanonicalTransaction[] {
+  if (!isCamt053Content(content) || !readBlock(content, 'BkToCstmrStmt')) {
+    throw new AppError(
+      'CAMT053_MALFORMED',
+      'Missing BkToCstmrStmt root - not a camt.053 statement'
+    );
+  }
+
+  const entries = content.match(/<(\w+:)?Ntry\b[^>]*>[\s\S]*?<\/(\w+:)?Ntry>/g) || [];
+  const transactions: CanonicalTransaction[] = [];
+
+  entries.forEach((entry, index) => {
+    // v2-v7 use <Sts>BOOK</Sts>, v8+ wrap it as <Sts><Cd>BOOK</Cd></Sts>
+    const status = readText(entry, 'Sts');
+    if (status && !BOOKED_STATUSES.includes(status)) {
+      return;
+    }
+
+    const amountText = readText(entry, 'Amt');
+    const currency = entry.match(/<(?:\w+:)?Amt\b[^>]*\bCcy="([A-Z]{3})"/)?.[1];
+    const indicator = readText(entry, 'CdtDbtInd');
+    const bookingDate = readDate(entry, 'BookgDt');
+    const valueDate = readDate(entry, 'ValDt');
+    const amount = Number(amountText);
+
+    if (!amountText || !Number.isFinite(amount)) {
+      throw new AppError('CAMT053_MALFORMED', `Entry ${index + 1} has no valid <Amt>`);
+    }
+    if (indicator !== 'DBIT' && indicator !== 'CRDT') {
+      throw new AppError(
+        'CAMT053_MALFORMED',
+        `Entry ${index + 1} has invalid <CdtDbtInd>: ${indicator ?? 'missing'}`
+      );
+    }
+    if (!bookingDate && !valueDate) {
+      throw new AppError('CAMT053_MALFORMED', `Entry ${index + 1} has no booking or value date`);
+    }
+
+    const isDebit = indicator === 'DBIT';
+    const details = readBlock(entry, 'TxDtls') || entry;
+    const counterparty = readCounterparty(details, isDebit);
+    const remittance =
+      readText(details, 'RmtInf', 'Ustrd') || readText(entry, 'AddtlNtryInf');
+
+    transactions.push({
+      date: bookingDate || valueDate!,
+      valueDate,
+      description:
+        [counterparty, remittance].filter(Boolean).join(' - ') || 'Unknown',
+      amount: Math.abs(amount),
+      type: isDebit ? 'debit' : 'credit',
+      currency,
+      counterparty,
+    });
+  });
+
+  if (transactions.length === 0) {
+    throw new AppError(
+      'NO_TRANSACTIONS',
+      `camt.053 file contains no booked entries (found ${entries.length})`
+    );
+  }
+
+  return transactions;
+}
+
+/**
+ * Parse camt.053 XML into the canonical CSV used for analysis
+ */
+export function parseCamt053(content: string): string {
+  return toCanonicalCSV(extractCamt053Transactions(content));
+}
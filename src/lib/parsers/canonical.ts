@@ -0,0 +1,151 @@
+// Canonical transaction rows shared by the structured statement parsers
+
+import type { ForeignExchangeDetails, TransactionStatus, TransactionType } from '../types';
+import { escapeCSVCell, tokenizeCSV } from '../utils/csv';
+import { formatMoneyValue } from '../utils/money';
+
+export { escapeCSVCell };
+
+export interface CanonicalTransaction extends ForeignExchangeDetails {
+  date: string; // YYYY-MM-DD (booking date where the format has one)
+  description: string;
+  amount: number; // Always positive, direction is in `type`
+  type: TransactionType;
+  status?: TransactionStatus;
+  currency?: string; // ISO 4217 code
+  valueDate?: string; // YYYY-MM-DD, for bank formats that distinguish it
+  counterparty?: string;
+  category?: string; // Category hint supplied by the bank export
+  source?: string; // Uploaded file the row came from, when several are merged
+  balance?: number; // Running balance printed after the row, signed as printed
+}
+
+// Columns every normalized statement is rewritten to
+export const CANONICAL_HEADER = [
+  'Date',
+  'Description',
+  'Amount',
+  'Type',
+  'Status',
+  'Currency',
+];
+
+// Optional columns, only emitted when at least one row carries them
+const OPTIONAL_COLUMNS: Array<{
+  header: string;
+  key: 'valueDate' | 'counterparty' | 'category' | 'source' | 'originalCurrency';
+}> = [
+  { header: 'Value Date', key: 'valueDate' },
+  { header: 'Counterparty', key: 'counterparty' },
+  { header: 'Category', key: 'category' },
+  { header: 'Source', key: 'source' },
+  { header: 'Original Currency', key: 'originalCurrency' },
+];
+
+// Optional numeric columns, after the text ones - the running balance always comes last
+const NUMERIC_COLUMNS: Array<{
+  header: string;
+  key: 'originalAmount' | 'fxRate' | 'fxFee' | 'balance';
+}> = [
+  { header: 'Original Amount', key: 'originalAmount' },
+  { header: 'FX Rate', key: 'fxRate' },
+  { header: 'FX Fee', key: 'fxFee' },
+  { header: 'Balance', key: 'balance' },
+];
+
+/**
+ * Collapse whitespace in free-text fields
+ */
+function cleanText(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Map a free-text status value to a transaction status
+ */
+export function parseStatusValue(value: string | undefined): TransactionStatus {
+  const lower = (value || '').toLowerCase();
+  if (/fail|declin|reject|revert|cancel|return/.test(lower)) return 'failed';
+  if (/pend|hold|process/.test(lower)) return 'pending';
+  return 'completed';
+}
+
+/**
+ * Convert canonical transactions to the CSV format used by the analysis pipeline
+ */
+export function toCanonicalCSV(transactions: CanonicalTransaction[]): string {
+  const optionalColumns = OPTIONAL_COLUMNS.filter(({ key }) =>
+    transactions.some((txn) => txn[key])
+  );
+  const numericColumns = NUMERIC_COLUMNS.filter(({ key }) =>
+    transactions.some((txn) => txn[key] !== undefined)
+  );
+  const lines = [
+    [
+      ...CANONICAL_HEADER,
+      ...optionalColumns.map((c) => c.header),
+      ...numericColumns.map((c) => c.header),
+    ].join(','),
+  ];
+
+  for (const txn of transactions) {
+    lines.push(
+      [
+        txn.date,
+        escapeCSVCell(cleanText(txn.description)),
+        formatMoneyValue(Math.abs(txn.amount), txn.currency),
+        txn.type,
+        txn.status || 'completed',
+        (txn.currency || '').toUpperCase(),
+        ...optionalColumns.map(({ key }) => escapeCSVCell(cleanText(txn[key] || ''))),
+        ...numericColumns.map(({ key }) => {
+          const value = txn[key];
+          // Exchange rates keep their printed precision, money keeps its currency's
+          if (value === undefined) return '';
+          if (key === 'fxRate') return String(value);
+          return formatMoneyValue(
+            value,
+            key === 'originalAmount' ? txn.originalCurrency : txn.currency
+          );
+        }),
+      ].join(',')
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Read canonical CSV (as produced by toCanonicalCSV) back into transactions
+ */
+export function parseCanonicalCSV(content: string): CanonicalTransaction[] {
+  const [header = [], ...rows] = tokenizeCSV(content, { delimiter: ',' });
+  const column = (name: string) => header.indexOf(name);
+  const read = (row: string[], name: string) => {
+    const index = column(name);
+    return index >= 0 && row[index] ? row[index] : undefined;
+  };
+
+  return rows.map((row) => {
+    const transaction: CanonicalTransaction = {
+      date: read(row, 'Date') || '',
+      description: read(row, 'Description') || 'Unknown',
+      amount: Number(read(row, 'Amount')) || 0,
+      type: read(row, 'Type') === 'credit' ? 'credit' : 'debit',
+      status: parseStatusValue(read(row, 'Status')),
+      currency: read(row, 'Currency'),
+    };
+
+    for (const { header: name, key } of OPTIONAL_COLUMNS) {
+      const value = read(row, name);
+      if (value) transaction[key] = value;
+    }
+
+    for (const { header: name, key } of NUMERIC_COLUMNS) {
+      const value = read(row, name);
+      if (value && Number.isFinite(Number(value))) transaction[key] = Number(value);
+    }
+
+    return transaction;
+  });
+}
@@ -1,13 +1,19 @@
 // CSV parsing and validation
 
-import Papa from 'papaparse';
-import type { FileValidationResult } from '../types';
+import type { FileValidationResult, StatementFileType } from '../types';
 import { AppError } from '../errors';
 import {
   validateFile as validateFileMultiLayer,
   validateContent,
 } from '../validators/content-validator';
 import { sanitizeCSVContent } from '../utils/sanitizer';
+import { tokenizeCSV, serializeCSV } from '../utils/csv';
+import { decodeText } from '../utils/encoding';
+import {
+  isStructuredStatementType,
+  parseStructuredStatement,
+} from './statement-parser';
+import { parseExcel } from './excel-parser';
 
 // Re-export the multi-layer validation
 export { validateFile as validateFileBasic } from '../validators/file-validator';
@@ -34,63 +40,44 @@ export async function validateFile(file: File): Promise<FileValidationResult> {
 
 /**
  * Parse CSV file and return sanitized content
+ * Comma, semicolon, tab and pipe delimiters and the text encoding are detected automatically
  */
 export async function parseCSV(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    Papa.parse(file, {
-      complete: (results) => {
-        // Check for critical parsing errors
-        const criticalErrors = results.errors.filter(
-          (e) => e.type === 'Quotes' || e.type === 'FieldMismatch'
-        );
-
-        if (criticalErrors.length > 0) {
-          console.warn('CSV parsing errors:', criticalErrors);
-        }
-
-        if (!results.data || results.data.length === 0) {
-          reject(new AppError('FILE_EMPTY'));
-          return;
-        }
-
-        // Check minimum data rows
-        if (results.data.length < 2) {
-          reject(new AppError('NO_TRANSACTIONS'));
-          return;
-        }
-
-        // Convert parsed data back to a clean CSV string
-        const csvString = Papa.unparse(results.data as unknown[][]);
-
-        // Sanitize the content
-        const sanitized = sanitizeCSVContent(csvString);
-
-        // Validate structure
-        try {
-          validateContent(sanitized, 'csv');
-        } catch (error) {
-          reject(error);
-          return;
-        }
-
-        resolve(sanitized);
-      },
-      error: (error) => {
-        console.error('CSV parse error:', error);
-        reject(new AppError('PARSE_ERROR', error.message));
-      },
-      skipEmptyLines: true,
-      dynamicTyping: false, // Keep everything as strings for consistent handling
-    });
-  });
+  let data: ArrayBuffer;
+  try {
+    data = await file.arrayBuffer();
+  } catch (error) {
+    console.error('CSV read error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new AppError('PARSE_ERROR', message);
+  }
+
+  const rows = tokenizeCSV(decodeText(data).text);
+
+  if (rows.length === 0) {
+    throw new AppError('FILE_EMPTY');
+  }
+
+  // Check minimum data rows
+  if (rows.length < 2) {
+    throw new AppError('NO_TRANSACTIONS');
+  }
+
+  // Convert tokenized rows back to a clean comma-delimited CSV string
+  const sanitized = sanitizeCSVContent(serializeCSV(rows));
+
+  // Validate structure
+  validateContent(sanitized, 'csv');
+
+  return sanitized;
 }
 
 /**
- * Extract and validate file content (CSV or PDF)
+ * Extract and validate file content (CSV, Excel, structured bank formats or PDF)
  */
 export async function extractFileContent(file: File): Promise<{
   content: string;
-  type: 'csv' | 'pdf';
+  type: StatementFileType;
 }> {
   // Validate file first
   const validation = await validateFileMultiLayer(file);
@@ -104,29 +91,25 @@ export async function extractFileContent(file: File): Promise<{
     throw new AppError('PDF_SCANNED', 'PDF support requires server-side processing');
   }
 
-  // Parse and sanitize CSV
-  const content = await parseCSV(file);
-  return { content, type: 'csv' };
-}
-
-/**
- * Truncate large CSVs for API payload while preserving structure
- */
-export function truncateForAnalysis(
-  csvContent: string,
-  maxRows: number = 1000
-): string {
-  const lines = csvContent.split('\n');
-
-  if (lines.length <= maxRows + 1) {
-    return csvContent;
+  if (validation.fileType === 'excel') {
+    const content = await parseExcel(file);
+    return { content, type: 'excel' };
   }
 
-  // Keep header + maxRows of data
-  const header = lines[0];
-  const dataRows = lines.slice(1, maxRows + 1);
+  if (isStructuredStatementType(validation.fileType)) {
+    // OFX/camt.053/MT940 already hold typed fields, so convert straight to canonical CSV
+    const content = sanitizeCSVContent(
+      parseStructuredStatement(
+        decodeText(await file.arrayBuffer()).text,
+        validation.fileType
+      ).content
+    );
+    return { content, type: validation.fileType };
+  }
 
-  return [header, ...dataRows].join('\n');
+  // Parse and sanitize CSV
+  const content = await parseCSV(file);
+  return { content, type: 'csv' };
 }
 
 /**
@@ -134,11 +117,27 @@ export function truncateForAnalysis(
  */
 export function quickValidateFile(file: File): {
   valid: boolean;
-  fileType: 'csv' | 'pdf' | 'unknown';
+  fileType: StatementFileType | 'unknown';
   error?: string;
 } {
   const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-  const ALLOWED_EXTENSIONS = ['.csv', '.pdf'];
+  const EXTENSION_FILE_TYPES: Record<string, StatementFileType> = {
+    '.csv': 'csv',
+    '.pdf': 'pdf',
+    '.xlsx': 'excel',
+    '.xls': 'excel',
+    '.ofx': 'ofx',
+    '.qfx': 'ofx',
+    '.xml': 'camt053',
+    '.sta': 'mt940',
+    '.mt940': 'mt940',
+    '.940': 'mt940',
+    '.png': 'image',
+    '.jpg': 'image',
+    '.jpeg': 'image',
+    '.heic': 'image',
+    '.heif': 'image',
+  };
 
   // Check file size
   if (file.size === 0) {
@@ -160,16 +159,19 @@ export function quickValidateFile(file: File): {
   // Check extension
   const extension = file.name.toLowerCase().slice(file.name.lastIndexOf('.'));
 
-  if (!ALLOWED_EXTENSIONS.includes(extension)) {
+  const fileType = EXTENSION_FILE_TYPES[extension];
+
+  if (!fileType) {
     return {
       valid: false,
       fileType: 'unknown',
-      error: 'Please upload a CSV or PDF file.',
+      error:
+        'Please upload a CSV, Excel, PDF, OFX/QFX, camt.053 (XML) or MT940 file, or a photo of your statement.',
     };
   }
 
   return {
     valid: true,
-    fileType: extension === '.pdf' ? 'pdf' : 'csv',
+    fileType,
   };
 }
@@ -0,0 +1,286 @@
+// Bank-specific CSV profiles recognized by their header row
+
+import type { AccountType, DetectedProfile } from '../types';
+import { tokenizeCSV } from '../utils/csv';
+import {
+  toCanonicalCSV,
+  parseStatusValue,
+  type CanonicalTransaction,
+} from './canonical';
+import {
+  normalizeAmount,
+  inferDecimalSeparator,
+  parseAmountValue,
+} from './amount-normalizer';
+import { normalizeDate, type DateOrder } from './date-normalizer';
+import { splitHeaderRow } from './header-row';
+
+export interface CSVProfile {
+  id: string;
+  name: string;
+  // Headers that must all be present (compared after normalizeHeader)
+  fingerprint: string[];
+  dateOrder: DateOrder;
+  accountType: AccountType;
+  columns: {
+    date: string;
+    description: string;
+    amount?: string; // Signed amount column
+    debit?: string; // Separate debit/credit columns
+    credit?: string;
+    type?: string; // Debit/credit indicator column
+    status?: string;
+    currency?: string;
+    balance?: string; // Running balance after each row
+  };
+  // Currency of exports that don't carry a currency column
+  currency?: string;
+  // Sign of debits in the signed amount column
+  debitSign?: 1 | -1;
+  // Indicator values (lowercase) that mark a credit
+  creditIndicators?: string[];
+}
+
+const PROFILES: CSVProfile[] = [
+  {
+    id: 'chase-card',
+    name: 'Chase Credit Card',
+    currency: 'USD',
+    fingerprint: ['Transaction Date', 'Post Date', 'Description', 'Category', 'Type', 'Amount'],
+    dateOrder: 'MDY',
+    accountType: 'credit_card',
+    columns: { date: 'Transaction Date', description: 'Description', amount: 'Amount' },
+    debitSign: -1,
+  },
+  {
+    id: 'chase-checking',
+    name: 'Chase Checking',
+    currency: 'USD',
+    fingerprint: ['Details', 'Posting Date', 'Description', 'Amount', 'Type', 'Balance'],
+    dateOrder: 'MDY',
+    accountType: 'bank_account',
+    columns: {
+      date: 'Posting Date',
+      description: 'Description',
+      amount: 'Amount',
+      balance: 'Balance',
+    },
+    debitSign: -1,
+  },
+  {
+    id: 'amex',
+    name: 'American Express',
+    currency: 'USD',
+    fingerprint: ['Date', 'Description', 'Card Member', 'Account #', 'Amount'],
+    dateOrder: 'MDY',
+    accountType: 'credit_card',
+    columns: { date: 'Date', description: 'Description', amount: 'Amount' },
+    debitSign: 1,
+  },
+  {
+    id: 'capital-one',
+    name: 'Capital One',
+    currency: 'USD',
+    fingerprint: ['Transaction Date', 'Posted Date', 'Card No.', 'Description', 'Category', 'Debit', 'Credit'],
+    dateOrder: 'YMD',
+    accountType: 'credit_card',
+    columns: { date: 'Transaction Date', description: 'Description', debit: 'Debit', credit: 'Credit' },
+  },
+  {
+    id: 'hdfc-account',
+    name: 'HDFC Bank Account',
+    currency: 'INR',
+    fingerprint: ['Date', 'Narration', 'Value Dt', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance'],
+    dateOrder: 'DMY',
+    accountType: 'bank_account',
+    columns: {
+      date: 'Date',
+      description: 'Narration',
+      debit: 'Withdrawal Amt.',
+      credit: 'Deposit Amt.',
+      balance: 'Closing Balance',
+    },
+  },
+  {
+    id: 'icici-account',
+    name: 'ICICI Bank Account',
+    currency: 'INR',
+    fingerprint: ['Value Date', 'Transaction Date', 'Transaction Remarks', 'Withdrawal Amount (INR )', 'Deposit Amount (INR )'],
+    dateOrder: 'DMY',
+    accountType: 'bank_account',
+    columns: {
+      date: 'Transaction Date',
+      description: 'Transaction Remarks',
+      debit: 'Withdrawal Amount (INR )',
+      credit: 'Deposit Amount (INR )',
+    },
+  },
+  {
+    id: 'icici-card',
+    name: 'ICICI Credit Card',
+    currency: 'INR',
+    fingerprint: ['Date', 'Sr.No.', 'Transaction Details', 'Amount(in Rs)', 'BillingAmountSign'],
+    dateOrder: 'DMY',
+    accountType: 'credit_card',
+    columns: {
+      date: 'Date',
+      description: 'Transaction Details',
+      amount: 'Amount(in Rs)',
+      type: 'BillingAmountSign',
+    },
+    creditIndicators: ['cr'],
+  },
+  {
+    id: 'sbi-card',
+    name: 'SBI Card',
+    currency: 'INR',
+    fingerprint: ['Date', 'Transaction Details', 'Amount', 'Type'],
+    dateOrder: 'DMY',
+    accountType: 'credit_card',
+    columns: { date: 'Date', description: 'Transaction Details', amount: 'Amount', type: 'Type' },
+    creditIndicators: ['c', 'cr', 'credit'],
+  },
+  {
+    id: 'mercury',
+    name: 'Mercury',
+    currency: 'USD',
+    fingerprint: ['Date (UTC)', 'Description', 'Amount', 'Status', 'Source Account', 'Bank Description'],
+    dateOrder: 'MDY',
+    accountType: 'bank_account',
+    columns: { date: 'Date (UTC)', description: 'Description', amount: 'Amount', status: 'Status' },
+    debitSign: -1,
+  },
+  {
+    id: 'revolut',
+    name: 'Revolut',
+    fingerprint: ['Type', 'Product', 'Started Date', 'Completed Date', 'Description', 'Amount', 'Fee', 'Currency', 'State'],
+    dateOrder: 'YMD',
+    accountType: 'bank_account',
+    columns: {
+      date: 'Started Date',
+      description: 'Description',
+      amount: 'Amount',
+      status: 'State',
+      currency: 'Currency',
+    },
+    debitSign: -1,
+  },
+];
+
+/**
+ * Normalize a header cell for comparison (case, punctuation and spacing)
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9#]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the most specific profile whose fingerprint matches the header row
+ */
+export function detectCSVProfile(header: string[]): CSVProfile | null {
+  const present = new Set(header.map(normalizeHeader));
+  let best: CSVProfile | null = null;
+
+  for (const profile of PROFILES) {
+    const matches = profile.fingerprint.every((h) => present.has(normalizeHeader(h)));
+    if (matches && (!best || profile.fingerprint.length > best.fingerprint.length)) {
+      best = profile;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Map data rows to canonical transactions using a profile's column mapping
+ */
+function mapRows(
+  profile: CSVProfile,
+  header: string[],
+  rows: string[][]
+): CanonicalTransaction[] {
+  const normalized = header.map(normalizeHeader);
+  const column = (name?: string) =>
+    name ? normalized.indexOf(normalizeHeader(name)) : -1;
+
+  const dateIndex = column(profile.columns.date);
+  const descriptionIndex = column(profile.columns.description);
+  const amountIndex = column(profile.columns.amount);
+  const debitIndex = column(profile.columns.debit);
+  const creditIndex = column(profile.columns.credit);
+  const typeIndex = column(profile.columns.type);
+  const statusIndex = column(profile.columns.status);
+  const currencyIndex = column(profile.columns.currency);
+  const balanceIndex = column(profile.columns.balance);
+
+  const decimalSeparator = inferDecimalSeparator(
+    rows.flatMap((row) => [amountIndex, debitIndex, creditIndex].map((i) => row[i] || ''))
+  );
+  const transactions: CanonicalTransaction[] = [];
+
+  for (const row of rows) {
+    const date = normalizeDate(row[dateIndex] || '', profile.dateOrder);
+    if (!date) continue; // Totals, footers and blank lines
+
+    const cell = (index: number) => (index >= 0 ? row[index] || '' : undefined);
+    const normalized = normalizeAmount(
+      {
+        amount: cell(amountIndex),
+        debit: cell(debitIndex),
+        credit: cell(creditIndex),
+        indicator: cell(typeIndex),
+      },
+      {
+        debitSign: profile.debitSign,
+        creditIndicators: profile.creditIndicators,
+        decimalSeparator,
+      }
+    );
+    if (!normalized) continue;
+
+    transactions.push({
+      date,
+      description: row[descriptionIndex] || 'Unknown',
+      amount: Math.abs(normalized.amount),
+      type: normalized.type,
+      status: statusIndex >= 0 ? parseStatusValue(row[statusIndex]) : undefined,
+      currency: (currencyIndex >= 0 && row[currencyIndex]) || profile.currency,
+      balance:
+        balanceIndex >= 0
+          ? parseAmountValue(row[balanceIndex], decimalSeparator) ?? undefined
+          : undefined,
+    });
+  }
+
+  return transactions;
+}
+
+/**
+ * Detect a known bank export and rewrite it to canonical columns
+ * Banner rows above the header are skipped
+ * Returns the content unchanged when no profile matches
+ */
+export function applyCSVProfile(content: string): {
+  content: string;
+  profile?: DetectedProfile;
+} {
+  const { header, rows } = splitHeaderRow(tokenizeCSV(content));
+  if (header.length === 0) return { content };
+
+  const profile = detectCSVProfile(header);
+  if (!profile) return { content };
+
+  const transactions = mapRows(profile, header, rows);
+  if (transactions.length === 0) {
+    // Header looked familiar but the rows didn't - let the AI handle it
+    return { content };
+  }
+
+  return {
+    content: toCanonicalCSV(transactions),
+    profile: { id: profile.id, name: profile.name, accountType: profile.accountType },
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { inferDateOrder, normalizeDate, normalizeDateColumn } from './date-normalizer';
+
+describe('normalizeDate', () => {
+  it('reads ISO, compact and month-name dates whatever the order', () => {
+    expect(normalizeDate('2024-03-05T10:15:00+05:30', 'MDY')).toBe('2024-03-05');
+    expect(normalizeDate('20240305', 'MDY')).toBe('2024-03-05');
+    expect(normalizeDate('5th Mar 2024', 'MDY')).toBe('2024-03-05');
+    expect(normalizeDate('September 5, 24', 'DMY')).toBe('2024-09-05');
+    expect(normalizeDate('15-JAN-99', 'DMY')).toBe('1999-01-15');
+  });
+
+  it('reads numeric dates in the given order', () => {
+    expect(normalizeDate('03/05/2024', 'DMY')).toBe('2024-05-03');
+    expect(normalizeDate('03/05/2024', 'MDY')).toBe('2024-03-05');
+    expect(normalizeDate('2024.03.05', 'DMY')).toBe('2024-03-05');
+  });
+
+  it('rejects impossible dates and non-dates', () => {
+    expect(normalizeDate('31/02/2024', 'DMY')).toBeNull();
+    expect(normalizeDate('Opening balance', 'DMY')).toBeNull();
+    expect(normalizeDate('', 'DMY')).toBeNull();
+  });
+});
+
+describe('inferDateOrder', () => {
+  it('is decided by a part above 12', () => {
+    expect(inferDateOrder(['01/03/2024', '15/03/2024']).order).toBe('DMY');
+    expect(inferDateOrder(['03/01/2024', '03/15/2024'], 'DMY').order).toBe('MDY');
+  });
+
+  it('keeps the statement in date order when every value fits both readings', () => {
+    // Read day-first these run 1-3 March; month-first they jump between months
+    const values = ['01/03/2024', '02/03/2024', '03/03/2024', '01/04/2024'];
+
+    expect(inferDateOrder(values, 'MDY')).toEqual({
+      order: 'DMY',
+      ambiguous: false,
+      conflicting: false,
+    });
+  });
+
+  it('needs no order for ISO dates', () => {
+    expect(inferDateOrder(['2024-03-05', '2024-03-06']).order).toBe('YMD');
+  });
+});
+
+describe('normalizeDateColumn', () => {
+  it('warns when the order had to be guessed', () => {
+    const result = normalizeDateColumn(['05/06/2024'], 'MDY');
+
+    expect(result.dates).toEqual(['2024-05-06']);
+    expect(result.warning).toMatch(/read as month\/day\/year/);
+  });
+
+  it('warns when the column mixes both orders', () => {
+    const result = normalizeDateColumn(['25/01/2024', '01/25/2024']);
+
+    expect(result.order).toBe('DMY');
+    expect(result.dates).toEqual(['2024-01-25', null]);
+    expect(result.warning).toMatch(/mix day\/month and month\/day/);
+  });
+});
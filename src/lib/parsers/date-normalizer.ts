@@ -0,0 +1,177 @@
+// Statement-wide date format inference and ISO date normalization
+
+export type DateOrder = 'MDY' | 'DMY' | 'YMD';
+
+export interface DateColumnResult {
+  dates: Array<string | null>; // YYYY-MM-DD, null where the value isn't a date
+  order: DateOrder;
+  warning?: string; // Set when the day/month order had to be guessed
+}
+
+// Month names for dates like "15 Jan 2024", "Jan 15, 2024" or "15-JAN-24"
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Two-digit years up to this value are 20xx, later ones 19xx
+const TWO_DIGIT_YEAR_PIVOT = 69;
+
+// ISO dates and timestamps - the calendar date is kept as written, in the statement's own time zone
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T\s]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?\s*(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+const COMPACT_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+const DAY_MONTH_NAME_PATTERN = /^(\d{1,2})(?:st|nd|rd|th)?[\s\-/.]+([A-Za-z]{3,9})\.?[\s\-/.,]+(\d{2,4})\b/;
+const MONTH_NAME_DAY_PATTERN = /^([A-Za-z]{3,9})\.?[\s\-]+(\d{1,2})(?:st|nd|rd|th)?,?[\s\-]+(\d{2,4})\b/;
+const NUMERIC_PATTERN = /^(\d{1,4})[/.\-](\d{1,2})[/.\-](\d{1,4})\b/;
+
+/**
+ * Expand a two-digit year
+ */
+function toFullYear(year: string): number {
+  const value = Number(year);
+  if (year.length === 4) return value;
+  if (year.length !== 2) return NaN;
+  return value <= TWO_DIGIT_YEAR_PIVOT ? 2000 + value : 1900 + value;
+}
+
+/**
+ * Look up a month by English name or abbreviation ("Sep", "Sept", "September")
+ */
+function monthFromName(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+/**
+ * Build YYYY-MM-DD, rejecting impossible dates like 31/02
+ */
+function toISODate(year: number, month: number, day: number): string | null {
+  if (!Number.isFinite(year) || month < 1 || month > 12 || day < 1) return null;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Convert a single date value to YYYY-MM-DD using a known field order
+ * Month names and ISO forms don't depend on the order
+ */
+export function normalizeDate(value: string, order: DateOrder): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const iso = trimmed.match(ISO_PATTERN) || trimmed.match(COMPACT_PATTERN);
+  if (iso) return toISODate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const dayFirst = trimmed.match(DAY_MONTH_NAME_PATTERN);
+  if (dayFirst && monthFromName(dayFirst[2])) {
+    return toISODate(toFullYear(dayFirst[3]), monthFromName(dayFirst[2]), Number(dayFirst[1]));
+  }
+
+  const monthFirst = trimmed.match(MONTH_NAME_DAY_PATTERN);
+  if (monthFirst && monthFromName(monthFirst[1])) {
+    return toISODate(toFullYear(monthFirst[3]), monthFromName(monthFirst[1]), Number(monthFirst[2]));
+  }
+
+  const numeric = trimmed.match(NUMERIC_PATTERN);
+  if (!numeric) return null;
+
+  const [, first, second, third] = numeric;
+  if (first.length === 4) {
+    return toISODate(Number(first), Number(second), Number(third));
+  }
+
+  return order === 'MDY'
+    ? toISODate(toFullYear(third), Number(first), Number(second))
+    : toISODate(toFullYear(third), Number(second), Number(first));
+}
+
+/**
+ * Count adjacent pairs that go backwards in time
+ * Statements are listed in date order (either direction), so the right reading has few
+ */
+function countOrderBreaks(dates: Array<string | null>): number {
+  const valid = dates.filter((date): date is string => date !== null);
+  let forward = 0;
+  let backward = 0;
+
+  for (let i = 1; i < valid.length; i++) {
+    if (valid[i] > valid[i - 1]) forward++;
+    if (valid[i] < valid[i - 1]) backward++;
+  }
+
+  return Math.min(forward, backward);
+}
+
+/**
+ * Infer whether numeric dates in a column are day-first or month-first
+ * Values with a part above 12 decide it; otherwise chronological order does
+ */
+export function inferDateOrder(
+  values: string[],
+  fallback: DateOrder = 'DMY'
+): { order: DateOrder; ambiguous: boolean; conflicting: boolean } {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let numericCount = 0;
+
+  for (const value of values) {
+    const trimmed = value.trim();
+    if (ISO_PATTERN.test(trimmed) || COMPACT_PATTERN.test(trimmed)) continue;
+
+    const numeric = trimmed.match(NUMERIC_PATTERN);
+    if (!numeric || numeric[1].length === 4) continue;
+
+    numericCount++;
+    const first = Number(numeric[1]);
+    const second = Number(numeric[2]);
+    if (first > 12 && second <= 12) dayFirst++;
+    if (second > 12 && first <= 12) monthFirst++;
+  }
+
+  // Nothing order-dependent in the column
+  if (numericCount === 0) {
+    return { order: 'YMD', ambiguous: false, conflicting: false };
+  }
+
+  if (dayFirst > 0 || monthFirst > 0) {
+    return {
+      order: dayFirst >= monthFirst ? 'DMY' : 'MDY',
+      ambiguous: false,
+      conflicting: dayFirst > 0 && monthFirst > 0,
+    };
+  }
+
+  // Every value fits both readings - prefer the one that keeps the statement in order
+  const breaksDMY = countOrderBreaks(values.map((v) => normalizeDate(v, 'DMY')));
+  const breaksMDY = countOrderBreaks(values.map((v) => normalizeDate(v, 'MDY')));
+
+  if (breaksDMY !== breaksMDY) {
+    return {
+      order: breaksDMY < breaksMDY ? 'DMY' : 'MDY',
+      ambiguous: false,
+      conflicting: false,
+    };
+  }
+
+  return { order: fallback, ambiguous: true, conflicting: false };
+}
+
+/**
+ * Normalize every date in a column to YYYY-MM-DD with one inferred format
+ */
+export function normalizeDateColumn(
+  values: string[],
+  fallback: DateOrder = 'DMY'
+): DateColumnResult {
+  const { order, ambiguous, conflicting } = inferDateOrder(values, fallback);
+  const dates = values.map((value) => normalizeDate(value, order));
+  const label = order === 'MDY' ? 'month/day/year' : 'day/month/year';
+
+  let warning: string | undefined;
+  if (ambiguous) {
+    warning = `Dates could be read as day/month or month/day - they were read as ${label}. Check the transaction dates look right.`;
+  } else if (conflicting) {
+    warning = `Dates mix day/month and month/day formats - they were read as ${label}, so some dates may be wrong.`;
+  }
+
+  return { dates, order, warning };
+}
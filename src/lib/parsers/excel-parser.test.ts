@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { isAppError } from '../errors';
+import { convertExcelToCSV } from './excel-parser';
+
+/** Workbook bytes holding one sheet per entry, with optional merged ranges */
+function workbook(
+  sheets: Record<string, { rows: unknown[][]; merges?: string[] }>
+): ArrayBuffer {
+  const book = XLSX.utils.book_new();
+  for (const [name, { rows, merges }] of Object.entries(sheets)) {
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    if (merges) sheet['!merges'] = merges.map((range) => XLSX.utils.decode_range(range));
+    XLSX.utils.book_append_sheet(book, sheet, name);
+  }
+  return XLSX.write(book, { type: 'array', bookType: 'xlsx' });
+}
+
+describe('convertExcelToCSV', () => {
+  it('finds the transaction table below banner rows on the busiest sheet', async () => {
+    const data = workbook({
+      Summary: { rows: [['Total due', 1234.5]] },
+      Transactions: {
+        rows: [
+          ['HDFC Bank - Account Statement'],
+          ['Account No', 'XXXX1234'],
+          [],
+          ['Date', 'Narration', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance'],
+          ['01/03/24', 'UPI-SWIGGY', 450, '', 52550],
+          ['02/03/24', 'NEFT CR-ACME PAYROLL', '', 85000, 137550],
+        ],
+      },
+    });
+
+    const csv = await convertExcelToCSV(data);
+
+    expect(csv.split('\n')).toEqual([
+      'Date,Narration,Withdrawal Amt.,Deposit Amt.,Closing Balance',
+      '01/03/24,UPI-SWIGGY,450,,52550',
+      '02/03/24,NEFT CR-ACME PAYROLL,,85000,137550',
+    ]);
+  });
+
+  it('joins a merged header group with the sub-header row below it', async () => {
+    const data = workbook({
+      Statement: {
+        rows: [
+          ['Date', 'Description', 'Amount', ''],
+          ['', '', 'Debit', 'Credit'],
+          ['2024-03-05', 'NETFLIX', 649, ''],
+          ['2024-03-06', 'REFUND', '', 120],
+        ],
+        merges: ['A1:A2', 'B1:B2', 'C1:D1'],
+      },
+    });
+
+    const [header] = (await convertExcelToCSV(data)).split('\n');
+
+    expect(header).toBe('Date,Description,Amount Debit,Amount Credit');
+  });
+
+  it('fails when no sheet holds a transaction table', async () => {
+    const data = workbook({ Notes: { rows: [['Thank you for banking with us']] } });
+
+    let code: string | undefined;
+    try {
+      await convertExcelToCSV(data);
+    } catch (error) {
+      code = isAppError(error) ? error.userError.code : undefined;
+    }
+
+    expect(code).toBe('NO_TRANSACTIONS');
+  });
+});
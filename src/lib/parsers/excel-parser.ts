@@ -0,0 +1,173 @@
+// Excel (.xlsx/.xls) statement parsing
+
+import type { WorkBook, WorkSheet } from 'xlsx';
+import { AppError } from '../errors';
+import { validateContent } from '../validators/content-validator';
+import { sanitizeCSVContent } from '../utils/sanitizer';
+import { serializeCSV } from '../utils/csv';
+import { findHeaderRow, scoreHeaderRow } from './header-row';
+
+interface SheetTable {
+  name: string;
+  header: string[];
+  rows: string[][];
+  score: number;
+}
+
+/**
+ * Convert a raw cell value to text (dates as YYYY-MM-DD, numbers unformatted)
+ */
+function cellToText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return '';
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+
+  return String(value).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Read a worksheet into a grid, copying merged cell values across their range
+ */
+function readGrid(sheet: WorkSheet, utils: typeof import('xlsx').utils): string[][] {
+  const raw = utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: '',
+    blankrows: true, // Keep row indices aligned with !merges
+  });
+  const grid = raw.map((row) => row.map(cellToText));
+
+  const ref = sheet['!ref'];
+  const origin = ref ? utils.decode_range(ref).s : { r: 0, c: 0 };
+
+  for (const merge of sheet['!merges'] || []) {
+    const top = merge.s.r - origin.r;
+    const left = merge.s.c - origin.c;
+    const value = grid[top]?.[left] || '';
+
+    for (let r = top; r <= merge.e.r - origin.r; r++) {
+      if (!grid[r]) continue;
+      for (let c = left; c <= merge.e.c - origin.c; c++) {
+        if (!grid[r][c]) grid[r][c] = value;
+      }
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * Check whether a row is a second header line under a merged group
+ * (e.g. "Amount" spanning "Debit" and "Credit")
+ */
+function isSubHeaderRow(row: string[], header: string[]): boolean {
+  const hasRepeatedGroup = header.some(
+    (cell, index) => cell && index > 0 && cell === header[index - 1]
+  );
+  return hasRepeatedGroup && scoreHeaderRow(row) > 0;
+}
+
+/**
+ * Locate the transaction table in a sheet, skipping banner rows above the header
+ */
+function extractTable(name: string, grid: string[][]): SheetTable | null {
+  const found = findHeaderRow(grid);
+  if (!found) return null;
+
+  const { index: headerIndex, score: headerScore } = found;
+  let header = grid[headerIndex];
+  let dataStart = headerIndex + 1;
+
+  const nextRow = grid[dataStart];
+  if (nextRow && isSubHeaderRow(nextRow, header)) {
+    header = header.map((top, index) => {
+      const sub = nextRow[index] || '';
+      if (!sub || sub === top) return top;
+      return top ? `${top} ${sub}` : sub;
+    });
+    dataStart++;
+  }
+
+  const rows = grid
+    .slice(dataStart)
+    .filter((row) => row.filter((cell) => cell.length > 0).length >= 2);
+
+  // Drop columns that have neither a header nor any data
+  const keep = header
+    .map((_, index) => index)
+    .filter(
+      (index) => header[index] || rows.some((row) => (row[index] || '').length > 0)
+    );
+
+  return {
+    name,
+    header: keep.map((index) => header[index] || `Column ${index + 1}`),
+    rows: rows.map((row) => keep.map((index) => row[index] || '')),
+    // Favor sheets with a strong header and many transaction rows
+    score: headerScore * 10 + rows.length,
+  };
+}
+
+/**
+ * Pick the worksheet that holds the transaction table
+ */
+function selectTable(workbook: WorkBook, utils: typeof import('xlsx').utils): SheetTable {
+  let best: SheetTable | null = null;
+
+  for (const name of workbook.SheetNames) {
+    const sheet = workbook.Sheets[name];
+    if (!sheet || !sheet['!ref']) continue;
+
+    const table = extractTable(name, readGrid(sheet, utils));
+    if (table && table.rows.length > 0 && (!best || table.score > best.score)) {
+      best = table;
+    }
+  }
+
+  if (!best) {
+    throw new AppError(
+      'NO_TRANSACTIONS',
+      `No transaction table found in ${workbook.SheetNames.length} worksheet(s)`
+    );
+  }
+
+  return best;
+}
+
+/**
+ * Convert spreadsheet bytes to the sanitized CSV used for analysis
+ */
+export async function convertExcelToCSV(data: ArrayBuffer): Promise<string> {
+  // Loaded on demand to keep the spreadsheet library out of the main bundle
+  const XLSX = await import('xlsx');
+
+  let workbook: WorkBook;
+  try {
+    workbook = XLSX.read(data, { type: 'array', cellDates: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new AppError('EXCEL_UNREADABLE', message);
+  }
+
+  const table = selectTable(workbook, XLSX.utils);
+  const csvString = serializeCSV([table.header, ...table.rows]);
+
+  return sanitizeCSVContent(csvString);
+}
+
+/**
+ * Parse Excel file and return sanitized content
+ */
+export async function parseExcel(file: File): Promise<string> {
+  const sanitized = await convertExcelToCSV(await file.arrayBuffer());
+
+  // Validate structure
+  validateContent(sanitized, 'csv');
+
+  return sanitized;
+}
@@ -0,0 +1,133 @@
+// Foreign currency details printed with card transactions
+
+import type { ForeignExchangeDetails } from '../types';
+import { getDateSortKey } from '../utils/date';
+import { sumMoney } from '../utils/money';
+import { parseAmount } from './amount-normalizer';
+import type { CanonicalTransaction } from './canonical';
+
+// Currencies foreign card charges are usually made in ("EURO" is printed by some issuers)
+const FOREIGN_CURRENCIES =
+  'USD|EUR|EURO|GBP|AED|SGD|AUD|CAD|JPY|CHF|HKD|THB|MYR|NZD|SAR|INR|CNY|SEK|NOK|DKK';
+
+const CODE_THEN_AMOUNT = new RegExp(
+  `\\b(${FOREIGN_CURRENCIES})\\b[ \\t:]*(\\d[\\d,]*(?:\\.\\d+)?)`,
+  'i'
+);
+const AMOUNT_THEN_CODE = new RegExp(
+  `(\\d[\\d,]*\\.\\d{2})[ \\t]*(${FOREIGN_CURRENCIES})\\b`,
+  'i'
+);
+const EXCHANGE_RATE = /(?:exchange\s+rate|conversion\s+rate|\brate\b|@)[ \t:]*(\d[\d,]*\.\d+)/i;
+
+// A separate row charging the markup on a foreign transaction
+const FX_FEE_ROW =
+  /mark[- ]?up|foreign\s+(?:(?:currency|transaction|exchange)\s+){0,2}(?:fee|charge)|cross[- ]?(?:currency|border)\s+(?:fee|charge|markup)|\b(?:fx|forex)\s+(?:fee|charge)|\bdcc\b|currency\s+conversion\s+(?:fee|charge)/i;
+
+// Days a fee row may be posted after its transaction
+const FEE_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read the original amount, currency and exchange rate from a line printed
+ * under a foreign transaction ("USD 20.00", "20.00 USD @ 84.12", "Exchange rate 84.12")
+ * Returns null when the line carries none of them
+ */
+export function parseForeignAmountLine(line: string): ForeignExchangeDetails | null {
+  const details: ForeignExchangeDetails = {};
+
+  const codeFirst = line.match(CODE_THEN_AMOUNT);
+  const amountFirst = codeFirst ? null : line.match(AMOUNT_THEN_CODE);
+  const [amountText, code] = codeFirst
+    ? [codeFirst[2], codeFirst[1]]
+    : amountFirst
+    ? [amountFirst[1], amountFirst[2]]
+    : [];
+  const amount = parseAmount(amountText);
+  if (amount && code) {
+    details.originalAmount = amount.value;
+    details.originalCurrency = code.toUpperCase() === 'EURO' ? 'EUR' : code.toUpperCase();
+  }
+
+  const rate = line.match(EXCHANGE_RATE);
+  const rateValue = rate ? parseAmount(rate[1], '.') : null;
+  if (rateValue) details.fxRate = rateValue.value;
+
+  return Object.keys(details).length > 0 ? details : null;
+}
+
+/**
+ * Keep the foreign currency details that describe a real conversion
+ * An "original" amount in the statement's own currency is just the amount again
+ */
+export function withForeignExchange(
+  transaction: CanonicalTransaction,
+  details: ForeignExchangeDetails
+): CanonicalTransaction {
+  const code = details.originalCurrency?.trim().toUpperCase();
+  const isForeign =
+    code !== undefined &&
+    /^[A-Z]{3}$/.test(code) &&
+    code !== transaction.currency?.toUpperCase() &&
+    details.originalAmount !== undefined &&
+    details.originalAmount > 0;
+  if (!isForeign) return transaction;
+
+  return {
+    ...transaction,
+    originalAmount: details.originalAmount,
+    originalCurrency: code,
+    ...(details.fxRate && details.fxRate > 0 && { fxRate: details.fxRate }),
+    ...(details.fxFee && details.fxFee > 0 && { fxFee: details.fxFee }),
+  };
+}
+
+/**
+ * Attach markup fee rows to the foreign transaction they were charged for
+ * The fee row stays in the statement as spending - the transaction only records it
+ * Each fee goes to the closest foreign debit on or up to a few days before its date;
+ * tax on the markup is printed as a row of its own and adds to the same fee
+ */
+export function linkFXFees(transactions: CanonicalTransaction[]): CanonicalTransaction[] {
+  const linked = [...transactions];
+  // Transactions whose fee came from fee rows rather than a printed fee column
+  const feeFromRows = new Set<number>();
+
+  transactions.forEach((fee, feeIndex) => {
+    if (fee.type !== 'debit' || !FX_FEE_ROW.test(fee.description)) return;
+    const feeDate = getDateSortKey(fee.date);
+
+    let best = -1;
+    let bestDistance = Infinity;
+    linked.forEach((candidate, index) => {
+      if (
+        index === feeIndex ||
+        candidate.type !== 'debit' ||
+        !candidate.originalCurrency ||
+        (candidate.fxFee !== undefined && !feeFromRows.has(index)) ||
+        fee.amount >= candidate.amount
+      ) {
+        return;
+      }
+
+      const days = Math.round((feeDate - getDateSortKey(candidate.date)) / DAY_MS);
+      if (days < 0 || days > FEE_WINDOW_DAYS) return;
+
+      // Same-day rows first, then the row printed nearest the fee
+      const distance = days * linked.length + Math.abs(index - feeIndex);
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+
+    if (best >= 0) {
+      const fxFee = sumMoney([linked[best].fxFee ?? 0, fee.amount], fee.currency);
+      linked[best] = { ...linked[best], fxFee };
+      feeFromRows.add(best);
+    }
+  });
+
+  return linked;
+}
@@ -0,0 +1,73 @@
+// Locate the header row of a statement table below any banner rows
+// Exports often print the account, card number or period above the table
+
+// How many rows from the top to search for the real header row
+const HEADER_SCAN_ROWS = 30;
+
+// Minimum filled cells for a row to count as a header
+const MIN_HEADER_CELLS = 3;
+
+// Words that commonly appear in statement header cells
+const HEADER_KEYWORDS = [
+  'date',
+  'description',
+  'details',
+  'narration',
+  'particulars',
+  'merchant',
+  'payee',
+  'transaction',
+  'amount',
+  'debit',
+  'credit',
+  'withdrawal',
+  'deposit',
+  'balance',
+  'reference',
+  'type',
+  'category',
+  'currency',
+  'status',
+];
+
+/**
+ * Score how much a row looks like a statement header
+ */
+export function scoreHeaderRow(row: string[]): number {
+  const filled = row.map((cell) => cell.trim()).filter((cell) => cell.length > 0);
+  if (filled.length < MIN_HEADER_CELLS) return 0;
+
+  // Headers are labels, not values
+  if (filled.some((cell) => /^-?[\d.,]+$/.test(cell))) return 0;
+
+  return filled.filter((cell) => {
+    const lower = cell.toLowerCase();
+    return HEADER_KEYWORDS.some((keyword) => lower.includes(keyword));
+  }).length;
+}
+
+/**
+ * Find the row that best looks like a header among the first rows
+ * Returns null when no row does
+ */
+export function findHeaderRow(rows: string[][]): { index: number; score: number } | null {
+  let best: { index: number; score: number } | null = null;
+
+  for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+    const score = scoreHeaderRow(rows[i]);
+    if (score > (best?.score ?? 0)) {
+      best = { index: i, score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split tokenized CSV rows into the header row and the data rows below it
+ * The first row is the header when none looks like one
+ */
+export function splitHeaderRow(rows: string[][]): { header: string[]; rows: string[][] } {
+  const index = findHeaderRow(rows)?.index ?? 0;
+  return { header: rows[index] ?? [], rows: rows.slice(index + 1) };
+}
@@ -5,13 +5,127 @@ export {
   validateFile,
   validateFileBasic,
   extractFileContent,
-  truncateForAnalysis,
   quickValidateFile,
 } from './csv-parser';
 
+export { parseExcel, convertExcelToCSV } from './excel-parser';
+
+export {
+  applyCSVProfile,
+  detectCSVProfile,
+  type CSVProfile,
+} from './csv-profiles';
+
+export {
+  normalizeTransactions,
+  detectColumns,
+  detectColumnsInCSV,
+  assertRequiredColumns,
+  type ColumnMapping,
+  type ColumnRole,
+} from './transaction-normalizer';
+
+export {
+  normalizeAmount,
+  parseAmount,
+  parseAmountValue,
+  parseIndicator,
+  inferDebitSign,
+  inferDecimalSeparator,
+  type DecimalSeparator,
+  type NormalizedAmount,
+  type ParsedAmount,
+} from './amount-normalizer';
+
+export {
+  normalizeDate,
+  normalizeDateColumn,
+  inferDateOrder,
+  type DateOrder,
+  type DateColumnResult,
+} from './date-normalizer';
+
 export {
   extractTextFromPDF,
   processPDF,
   fileToBuffer,
   validatePDFClient,
 } from './pdf-parser';
+
+export {
+  reconstructTransactionTable,
+  readTextLines,
+  type PDFTextItem,
+} from './pdf-table';
+
+export {
+  detectPDFTemplate,
+  applyPDFTemplate,
+  readDatedLines,
+  type PDFTemplate,
+} from './pdf-templates';
+
+export {
+  splitPDFPages,
+  mergeExtractedCSV,
+  checkStatedTotals,
+  assemblePDFExtraction,
+  extractPDFWithoutAI,
+  PDF_CHUNK_CHARS,
+  type PendingPDF,
+  type PDFPageChunk,
+  type ExtractedPart,
+} from './pdf-chunks';
+
+export {
+  extractStatementMetadata,
+  reconcileStatement,
+  hasStatementDetails,
+  findLabeledAmount,
+} from './statement-metadata';
+
+export { checkRunningBalance } from './running-balance';
+
+export {
+  parseForeignAmountLine,
+  withForeignExchange,
+  linkFXFees,
+} from './foreign-exchange';
+
+export { parseOFX, extractOFXTransactions, isOFXContent } from './ofx-parser';
+
+export {
+  parseCamt053,
+  extractCamt053Transactions,
+  isCamt053Content,
+} from './camt053-parser';
+
+export {
+  parseMT940,
+  extractMT940Transactions,
+  isMT940Content,
+} from './mt940-parser';
+
+export {
+  isStructuredStatementType,
+  parseStructuredStatement,
+  type StructuredStatement,
+} from './statement-parser';
+
+export {
+  mergeStatements,
+  prepareAnalysisInput,
+  MAX_STATEMENT_FILES,
+  type StatementInput,
+} from './statement-merger';
+
+export { isZipFile, expandZipFile, expandStatementFiles } from './zip-parser';
+
+export {
+  toCanonicalCSV,
+  parseCanonicalCSV,
+  escapeCSVCell,
+  parseStatusValue,
+  CANONICAL_HEADER,
+  type CanonicalTransaction,
+} from './canonical';
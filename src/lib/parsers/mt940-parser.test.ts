@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { isAppError } from '../errors';
+import { extractMT940Transactions, isMT940Content } from './mt940-parser';
+
+/** MT940 message with an opening balance in EUR and the given statement lines */
+function mt940Message(lines: string[]): string {
+  return [
+    ':20:STMT2403',
+    ':25:DE89370400440532013000',
+    ':28C:00001/001',
+    ':60F:C240301EUR1000,00',
+    ...lines,
+    ':62F:C240331EUR3484,01',
+    '-',
+  ].join('\n');
+}
+
+/** Code of the AppError a call throws */
+function errorCode(run: () => unknown): string | undefined {
+  try {
+    run();
+  } catch (error) {
+    return isAppError(error) ? error.userError.code : undefined;
+  }
+  return undefined;
+}
+
+describe('extractMT940Transactions', () => {
+  it('reads statement lines with the German structured :86: field', () => {
+    const content = mt940Message([
+      ':61:2403050305D15,99NDDTNONREF',
+      ':86:105?00SEPA LASTSCHRIFT?20Netflix Abo Maerz?32NETFLIX INTERNATIONAL',
+      ':61:2403290329C2500,00NTRFNONREF',
+      ':86:166?00GUTSCHRIFT?20Gehalt Maerz?32ACME GMBH',
+    ]);
+
+    expect(extractMT940Transactions(content)).toEqual([
+      {
+        date: '2024-03-05',
+        valueDate: '2024-03-05',
+        description: 'NETFLIX INTERNATIONAL - Netflix Abo Maerz',
+        amount: 15.99,
+        type: 'debit',
+        currency: 'EUR',
+        counterparty: 'NETFLIX INTERNATIONAL',
+      },
+      {
+        date: '2024-03-29',
+        valueDate: '2024-03-29',
+        description: 'ACME GMBH - Gehalt Maerz',
+        amount: 2500,
+        type: 'credit',
+        currency: 'EUR',
+        counterparty: 'ACME GMBH',
+      },
+    ]);
+  });
+
+  it('reads slash-keyed :86: fields and flips reversals', () => {
+    const content = mt940Message([
+      ':61:240307RC49,95NMSCREF123',
+      ':86:/NAME/Amazon EU/REMI/USTD//Refund order 123/',
+    ]);
+
+    const [transaction] = extractMT940Transactions(content);
+
+    expect(transaction.type).toBe('debit');
+    expect(transaction.amount).toBe(49.95);
+    expect(transaction.description).toBe('Amazon EU - Refund order 123');
+  });
+
+  it('books entries dated across a year end in the right year', () => {
+    const content = mt940Message([
+      ':61:2312311230D20,00NMSCNONREF',
+      ':86:Card payment',
+      ':61:2312310102D20,00NMSCNONREF',
+      ':86:Card payment',
+    ]);
+
+    const dates = extractMT940Transactions(content).map((t) => t.date);
+
+    expect(dates).toEqual(['2023-12-30', '2024-01-02']);
+  });
+
+  it('rejects statement lines it cannot parse', () => {
+    const content = mt940Message([':61:not a statement line']);
+
+    expect(errorCode(() => extractMT940Transactions(content))).toBe('MT940_MALFORMED');
+  });
+
+  it('rejects text without MT940 header fields', () => {
+    expect(isMT940Content('Date,Description,Amount')).toBe(false);
+    expect(errorCode(() => extractMT940Transactions('Date,Description,Amount'))).toBe(
+      'MT940_MALFORMED'
+    );
+  });
+});
@@ -0,0 +1,215 @@
+// SWIFT MT940 (Customer Statement Message) parsing
+
+import { AppError } from '../errors';
+import { toCanonicalCSV, type CanonicalTransaction } from './canonical';
+
+interface MT940Field {
+  tag: string;
+  value: string;
+}
+
+// :61: statement line - value date, optional entry date, mark, funds code, amount, type code, rest
+const STATEMENT_LINE_PATTERN =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})?(.*)$/;
+
+/**
+ * Split the message into tagged fields, joining continuation lines
+ */
+function splitFields(content: string): MT940Field[] {
+  const fields: MT940Field[] = [];
+  // Drop SWIFT block wrappers ({1:...}{2:...}{4: ... -})
+  const body = content
+    .replace(/\{[1-35]:[^}]*\}/g, '')
+    .replace(/\{4:/g, '')
+    .replace(/^-\}?\s*$/gm, '');
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.length > 0) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Convert YYMMDD to YYYY-MM-DD (SWIFT years 00-79 are 20xx, 80-99 are 19xx)
+ */
+function toISODate(yy: string, mm: string, dd: string): string | null {
+  const month = Number(mm);
+  const day = Number(dd);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const year = Number(yy) < 80 ? 2000 + Number(yy) : 1900 + Number(yy);
+  return `${year}-${mm}-${dd}`;
+}
+
+/**
+ * Resolve the MMDD entry (booking) date against the value date's year,
+ * allowing for bookings that cross a year boundary
+ */
+function resolveEntryDate(valueDate: string, entry: string): string | null {
+  const valueYear = Number(valueDate.slice(0, 4));
+  const valueMonth = Number(valueDate.slice(5, 7));
+  const month = Number(entry.slice(0, 2));
+  const day = Number(entry.slice(2, 4));
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  let year = valueYear;
+  if (valueMonth === 12 && month === 1) year += 1;
+  if (valueMonth === 1 && month === 12) year -= 1;
+
+  return `${year}-${entry.slice(0, 2)}-${entry.slice(2, 4)}`;
+}
+
+/**
+ * Parse the :86: information field
+ * Supports the German structured format (?20-?29 remittance, ?32/?33 name),
+ * the slash-keyed format (/NAME/, /REMI/, /CNTP/) and free text
+ */
+function parseInformation(value: string): {
+  description?: string;
+  counterparty?: string;
+} {
+  const text = value.trim();
+  if (!text) return {};
+
+  if (/\?\d{2}/.test(text)) {
+    const subfields = new Map<string, string>();
+    for (const part of text.replace(/\n/g, '').split('?').slice(1)) {
+      const key = part.slice(0, 2);
+      subfields.set(key, (subfields.get(key) || '') + part.slice(2));
+    }
+
+    const counterparty = [subfields.get('32'), subfields.get('33')]
+      .filter(Boolean)
+      .join('')
+      .trim();
+    const remittance = Array.from({ length: 10 }, (_, i) => subfields.get(`2${i}`))
+      .filter(Boolean)
+      .join(' ')
+      .trim();
+
+    return {
+      counterparty: counterparty || undefined,
+      description: remittance || subfields.get('00')?.trim() || undefined,
+    };
+  }
+
+  if (/^\/[A-Z]{2,4}\//.test(text)) {
+    const flat = text.replace(/\n/g, '');
+    const readKey = (key: string) =>
+      flat.match(new RegExp(`/${key}/([^/]*)`))?.[1]?.trim() || undefined;
+
+    // /CNTP/ is IBAN/BIC/NAME/CITY
+    const counterpartyBlock = flat.match(/\/CNTP\/([^/]*)\/([^/]*)\/([^/]*)/);
+    const counterparty =
+      readKey('NAME') || counterpartyBlock?.[3]?.trim() || undefined;
+    // /REMI/ may be qualified as USTD// (unstructured) before the text
+    const remittance =
+      flat.match(/\/REMI\/(?:USTD\/\/)?([^/]*)/)?.[1]?.trim() ||
+      readKey('EREF');
+
+    return { counterparty, description: remittance };
+  }
+
+  return { description: text.replace(/\n/g, ' ') };
+}
+
+/**
+ * Check whether text content looks like an MT940 message
+ */
+export function isMT940Content(content: string): boolean {
+  const head = content.slice(0, 4096);
+  return /(^|\n|\{4:\s*)\s*:20:/.test(head) && /\n:25:/.test(head);
+}
+
+/**
+ * Extract canonical transactions from MT940 content
+ */
+export function extractMT940Transactions(
+  content: string
+): CanonicalTransaction[] {
+  if (!isMT940Content(content)) {
+    throw new AppError(
+      'MT940_MALFORMED',
+      'Missing :20: or :25: header fields - not an MT940 statement'
+    );
+  }
+
+  const fields = splitFields(content);
+  const transactions: CanonicalTransaction[] = [];
+  let lineNumber = 0;
+  let currency: string | undefined;
+
+  for (let i = 0; i < fields.length; i++) {
+    // Opening balance (:60F:/:60M:) is mark, YYMMDD, then the account currency
+    if (fields[i].tag.startsWith('60')) {
+      currency = fields[i].value.match(/^[CD]\d{6}([A-Z]{3})/)?.[1] || currency;
+      continue;
+    }
+    if (fields[i].tag !== '61') continue;
+    lineNumber++;
+
+    const match = fields[i].value.replace(/\n/g, ' ').match(STATEMENT_LINE_PATTERN);
+    if (!match) {
+      throw new AppError(
+        'MT940_MALFORMED',
+        `Statement line ${lineNumber} (:61:) could not be parsed`
+      );
+    }
+
+    const [, yy, mm, dd, entry, mark, , amountText, , rest] = match;
+    const valueDate = toISODate(yy, mm, dd);
+    if (!valueDate) {
+      throw new AppError(
+        'MT940_MALFORMED',
+        `Statement line ${lineNumber} has an invalid value date`
+      );
+    }
+
+    const bookingDate = entry ? resolveEntryDate(valueDate, entry) : null;
+    const amount = Number(amountText.replace(',', '.'));
+
+    // RC/RD are reversals, so the direction flips
+    const isDebit = mark === 'D' || mark === 'RC';
+
+    const info =
+      fields[i + 1]?.tag === '86' ? parseInformation(fields[i + 1].value) : {};
+    // Account owner reference and supplementary details follow the type code
+    const reference = rest.split('//')[0].trim();
+
+    transactions.push({
+      date: bookingDate || valueDate,
+      valueDate,
+      description:
+        [info.counterparty, info.description].filter(Boolean).join(' - ') ||
+        (reference && reference !== 'NONREF' ? reference : 'Unknown'),
+      amount,
+      type: isDebit ? 'debit' : 'credit',
+      currency,
+      counterparty: info.counterparty,
+    });
+  }
+
+  if (transactions.length === 0) {
+    throw new AppError(
+      'NO_TRANSACTIONS',
+      'MT940 file contains no :61: statement lines'
+    );
+  }
+
+  return transactions;
+}
+
+/**
+ * Parse MT940 content into the canonical CSV used for analysis
+ */
+export function parseMT940(content: string): string {
+  return toCanonicalCSV(extractMT940Transactions(content));
+}
@@ -0,0 +1,222 @@
+// Offline OCR for scanned PDF pages and statement photos
+// The engine and English language data are bundled - nothing leaves the server
+
+import { AppError } from '../errors';
+import type { PDFTextItem } from './pdf-table';
+
+// Most pages recognized per upload - OCR runs within the 60-second upload request,
+// and a page takes up to 10 seconds on one serverless CPU
+export const MAX_OCR_PAGES = 3;
+
+// Width scanned PDF pages are rendered at (about 240 dpi for A4 and Letter)
+const RENDER_WIDTH = 2000;
+
+// pdf-parse renders at 72 dpi per unit of scale; layout units are 16 points
+const POINTS_PER_LAYOUT_UNIT = 16;
+
+// Typical word box height of statement body text, in layout units (about 9pt)
+const WORD_HEIGHT_UNITS = 0.55;
+
+// Words recognized with less confidence than this are treated as noise
+const MIN_WORD_CONFIDENCE = 30;
+
+// HEIF brands used by phone cameras for HEIC photos
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+interface OCRImage {
+  data: Buffer;
+  pixelsPerUnit?: number; // Known for rendered PDF pages, estimated for photos
+}
+
+// Text recognized on one page, positioned like pdf2json output
+export interface OCRPage {
+  text: string;
+  items: PDFTextItem[];
+  confidence: number;
+}
+
+/**
+ * Check whether an image is a HEIC/HEIF photo by its ftyp brand
+ */
+function isHEIF(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 4, 8) === 'ftyp' &&
+    HEIF_BRANDS.includes(buffer.toString('ascii', 8, 12))
+  );
+}
+
+/**
+ * Encode RGBA pixels as an uncompressed 24-bit BMP the OCR engine can read
+ */
+function encodeBMP(width: number, height: number, rgba: Uint8ClampedArray): Buffer {
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const bmp = Buffer.alloc(54 + rowSize * height);
+
+  bmp.write('BM', 0, 'ascii');
+  bmp.writeUInt32LE(bmp.length, 2);
+  bmp.writeUInt32LE(54, 10); // Pixel data offset
+  bmp.writeUInt32LE(40, 14); // Info header size
+  bmp.writeInt32LE(width, 18);
+  bmp.writeInt32LE(height, 22); // Rows are stored bottom-up
+  bmp.writeUInt16LE(1, 26); // Colour planes
+  bmp.writeUInt16LE(24, 28); // Bits per pixel
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4;
+      const target = 54 + (height - 1 - y) * rowSize + x * 3;
+      bmp[target] = rgba[source + 2];
+      bmp[target + 1] = rgba[source + 1];
+      bmp[target + 2] = rgba[source];
+    }
+  }
+
+  return bmp;
+}
+
+/**
+ * Convert a photo to a format the OCR engine reads
+ * PNG and JPEG pass through; HEIC photos from phones are decoded first
+ */
+async function toOCRImage(buffer: Buffer): Promise<OCRImage> {
+  if (!isHEIF(buffer)) {
+    return { data: buffer };
+  }
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const decode = require('heic-decode');
+    const image: { width: number; height: number; data: Uint8ClampedArray } =
+      await decode({ buffer });
+    return { data: encodeBMP(image.width, image.height, image.data) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new AppError('INVALID_FORMAT', `Failed to decode HEIC photo: ${message}`);
+  }
+}
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Recognize text in each image with a single local worker
+ * Word boxes are scaled to layout units so the PDF table reconstruction can read them
+ */
+async function recognizeImages(images: OCRImage[]): Promise<OCRPage[]> {
+  const { createWorker, OEM } = await import('tesseract.js');
+  // Language data ships with the app, so the worker never downloads anything
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { langPath } = require('@tesseract.js-data/eng');
+
+  const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+    langPath,
+    gzip: true,
+    cacheMethod: 'none',
+  });
+
+  try {
+    const pages: OCRPage[] = [];
+
+    for (const image of images) {
+      const { data } = await worker.recognize(image.data, {}, { text: true, blocks: true });
+      const words = (data.blocks || [])
+        .flatMap((block) => block.paragraphs)
+        .flatMap((paragraph) => paragraph.lines)
+        .flatMap((line) => line.words)
+        .filter((word) => word.text.trim() && word.confidence >= MIN_WORD_CONFIDENCE);
+
+      if (words.length === 0) {
+        pages.push({ text: '', items: [], confidence: 0 });
+        continue;
+      }
+
+      const pixelsPerUnit =
+        image.pixelsPerUnit ??
+        median(words.map((word) => word.bbox.y1 - word.bbox.y0)) / WORD_HEIGHT_UNITS;
+
+      pages.push({
+        text: data.text,
+        items: words.map((word) => ({
+          x: word.bbox.x0 / pixelsPerUnit,
+          y: word.bbox.y0 / pixelsPerUnit,
+          width: (word.bbox.x1 - word.bbox.x0) / pixelsPerUnit,
+          text: word.text,
+        })),
+        confidence: Math.round(data.confidence),
+      });
+    }
+
+    return pages;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AppError('PARSE_ERROR', `OCR failed: ${message}`);
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * Render PDF pages to images and recognize their text
+ * The given pages are read, or every page when none are given, up to maxPages
+ * Pages left unread past the limit are returned in skippedPages
+ */
+export async function recognizePDFPages(
+  buffer: Buffer,
+  password?: string,
+  pageNumbers?: number[],
+  maxPages: number = MAX_OCR_PAGES
+): Promise<{ pages: Array<OCRPage & { page: number }>; skippedPages: number[] }> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: new Uint8Array(buffer), password });
+
+  let screenshots;
+  let skippedPages: number[];
+  try {
+    const result = await parser.getScreenshot({
+      desiredWidth: RENDER_WIDTH,
+      imageBuffer: true,
+      imageDataUrl: false,
+      ...(pageNumbers
+        ? { partial: pageNumbers.slice(0, maxPages) }
+        : { first: maxPages }),
+    });
+    screenshots = result.pages;
+    skippedPages = pageNumbers
+      ? pageNumbers.slice(maxPages)
+      : Array.from(
+          { length: Math.max(result.total - maxPages, 0) },
+          (_, index) => maxPages + index + 1
+        );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new AppError('PARSE_ERROR', `Failed to render PDF pages for OCR: ${message}`);
+  } finally {
+    await parser.destroy();
+  }
+
+  const pages = await recognizeImages(
+    screenshots.map((screenshot) => ({
+      data: Buffer.from(screenshot.data),
+      pixelsPerUnit: screenshot.scale * POINTS_PER_LAYOUT_UNIT,
+    }))
+  );
+
+  return {
+    pages: pages.map((page, index) => ({ ...page, page: screenshots[index].pageNumber })),
+    skippedPages,
+  };
+}
+
+/**
+ * Recognize the text of a statement photo (PNG, JPEG or HEIC)
+ */
+export async function recognizeStatementImage(buffer: Buffer): Promise<OCRPage> {
+  const [page] = await recognizeImages([await toOCRImage(buffer)]);
+  return page;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { parseCanonicalCSV } from './canonical';
+import { extractOFXTransactions, isOFXContent, parseOFX } from './ofx-parser';
+
+/** SGML (v1) OFX credit card download with the given STMTTRN blocks */
+function ofxStatement(transactions: string[]): string {
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    '',
+    '<OFX>',
+    '<CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>',
+    '<CURDEF>USD',
+    '<BANKTRANLIST>',
+    ...transactions,
+    '</BANKTRANLIST>',
+    '</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>',
+    '</OFX>',
+  ].join('\n');
+}
+
+/** One SGML STMTTRN block, whose leaf elements have no closing tags */
+function stmttrn(fields: Record<string, string>): string {
+  const lines = Object.entries(fields).map(([tag, value]) => `<${tag}>${value}`);
+  return ['<STMTTRN>', ...lines, '</STMTTRN>'].join('\n');
+}
+
+describe('extractOFXTransactions', () => {
+  it('reads signed amounts as debits and credits', () => {
+    const content = ofxStatement([
+      stmttrn({ TRNTYPE: 'DEBIT', DTPOSTED: '20240305120000[-5:EST]', TRNAMT: '-15.99', FITID: '1', NAME: 'NETFLIX.COM' }),
+      stmttrn({ TRNTYPE: 'CREDIT', DTPOSTED: '20240310', TRNAMT: '200.00', FITID: '2', NAME: 'PAYMENT THANK YOU' }),
+    ]);
+
+    const { transactions, skipped } = extractOFXTransactions(content);
+
+    expect(skipped).toBe(0);
+    expect(transactions).toEqual([
+      { date: '2024-03-05', description: 'NETFLIX.COM', amount: 15.99, type: 'debit', currency: 'USD' },
+      { date: '2024-03-10', description: 'PAYMENT THANK YOU', amount: 200, type: 'credit', currency: 'USD' },
+    ]);
+  });
+
+  it('reads amounts with thousands separators and comma decimals', () => {
+    const content = ofxStatement([
+      stmttrn({ DTPOSTED: '20240305', TRNAMT: '-1,234.56', FITID: '1', NAME: 'AIRLINE' }),
+      stmttrn({ DTPOSTED: '20240306', TRNAMT: '-12,50', FITID: '2', NAME: 'CAFE' }),
+    ]);
+
+    const amounts = extractOFXTransactions(content).transactions.map((t) => t.amount);
+
+    expect(amounts).toEqual([1234.56, 12.5]);
+  });
+
+  it('counts the same FITID once', () => {
+    const entry = stmttrn({ DTPOSTED: '20240305', TRNAMT: '-9.99', FITID: 'A1', NAME: 'SPOTIFY' });
+
+    expect(extractOFXTransactions(ofxStatement([entry, entry])).transactions).toHaveLength(1);
+  });
+});
+
+describe('parseOFX', () => {
+  it('warns about entries whose amount cannot be read', () => {
+    const content = ofxStatement([
+      stmttrn({ DTPOSTED: '20240305', TRNAMT: '-15.99', FITID: '1', NAME: 'NETFLIX.COM' }),
+      stmttrn({ DTPOSTED: '20240306', TRNAMT: 'N/A', FITID: '2', NAME: 'UNKNOWN' }),
+    ]);
+
+    const parsed = parseOFX(content);
+
+    expect(parseCanonicalCSV(parsed.content)).toHaveLength(1);
+    expect(parsed.warnings).toEqual([
+      "1 transaction was skipped because its date or amount couldn't be read.",
+    ]);
+  });
+});
+
+describe('isOFXContent', () => {
+  it('recognizes SGML and XML headers only', () => {
+    expect(isOFXContent(ofxStatement([]))).toBe(true);
+    expect(isOFXContent('<?xml version="1.0"?>\n<?OFX OFXHEADER="200"?>')).toBe(true);
+    expect(isOFXContent('Date,Description,Amount')).toBe(false);
+  });
+});
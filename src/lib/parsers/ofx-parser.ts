@@ -0,0 +1,146 @@
+// OFX/QFX statement parsing (SGML v1.x and XML v2.x)
+
+import { AppError } from '../errors';
+import { toCanonicalCSV, type CanonicalTransaction } from './canonical';
+import { parseAmountValue } from './amount-normalizer';
+
+/**
+ * Decode the handful of entities OFX allows in element values
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+}
+
+/**
+ * Read a leaf element value
+ * SGML (v1) leaves have no closing tag, so the value runs to the next tag or line end
+ */
+function readElement(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return undefined;
+
+  const value = decodeEntities(match[1]).trim();
+  return value.length > 0 ? value : undefined;
+}
+
+/**
+ * Convert an OFX datetime (YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]) to YYYY-MM-DD
+ */
+function parseOFXDate(value: string | undefined): string | null {
+  if (!value) return null;
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  if (Number(month) < 1 || Number(month) > 12) return null;
+  if (Number(day) < 1 || Number(day) > 31) return null;
+
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a TRNAMT value - signed, with some banks using a comma decimal or
+ * grouping thousands ("1,234.56")
+ */
+function parseOFXAmount(value: string | undefined): number | null {
+  return parseAmountValue(value);
+}
+
+/**
+ * Check whether text content looks like an OFX/QFX document
+ */
+export function isOFXContent(content: string): boolean {
+  const head = content.slice(0, 2048).toUpperCase();
+  return (
+    head.includes('OFXHEADER') || head.includes('<?OFX') || head.includes('<OFX>')
+  );
+}
+
+/**
+ * Extract canonical transactions from OFX/QFX content
+ * Bank (STMTRS) and credit card (CCSTMTRS) statements share the STMTTRN aggregate
+ * Entries whose date or amount can't be read are counted as skipped
+ */
+export function extractOFXTransactions(content: string): {
+  transactions: CanonicalTransaction[];
+  skipped: number;
+} {
+  if (!isOFXContent(content)) {
+    throw new AppError('INVALID_FORMAT', 'File is not a valid OFX/QFX statement');
+  }
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  // Statement default currency (a single download holds one account)
+  const currency = readElement(content, 'CURDEF');
+  const transactions: CanonicalTransaction[] = [];
+  const seenIds = new Set<string>();
+  let skipped = 0;
+
+  for (const block of blocks) {
+    // Some exports repeat transactions across overlapping statement ranges
+    const fitId = readElement(block, 'FITID');
+    if (fitId) {
+      if (seenIds.has(fitId)) continue;
+      seenIds.add(fitId);
+    }
+
+    const date =
+      parseOFXDate(readElement(block, 'DTPOSTED')) ||
+      parseOFXDate(readElement(block, 'DTUSER'));
+    const amount = parseOFXAmount(readElement(block, 'TRNAMT'));
+
+    if (!date || amount === null) {
+      skipped++;
+      continue;
+    }
+    if (amount === 0) continue;
+
+    // PAYEE is an aggregate whose NAME comes after the transaction's own NAME
+    const description =
+      readElement(block, 'NAME') ||
+      readElement(block, 'MEMO') ||
+      readElement(block, 'TRNTYPE') ||
+      'Unknown';
+
+    transactions.push({
+      date,
+      description,
+      amount: Math.abs(amount),
+      // OFX amounts are signed from the account holder's view for both bank and card accounts
+      type: amount < 0 ? 'debit' : 'credit',
+      // Foreign-currency transactions carry their own CURRENCY aggregate
+      currency: readElement(block, 'CURSYM') || currency,
+    });
+  }
+
+  if (transactions.length === 0) {
+    throw new AppError(
+      'NO_TRANSACTIONS',
+      `OFX file contains no usable STMTTRN entries (found ${blocks.length})`
+    );
+  }
+
+  return { transactions, skipped };
+}
+
+/**
+ * Parse OFX/QFX content into the canonical CSV used for analysis
+ * Warns about entries that had to be skipped
+ */
+export function parseOFX(content: string): { content: string; warnings: string[] } {
+  const { transactions, skipped } = extractOFXTransactions(content);
+  const warnings =
+    skipped > 0
+      ? [
+          `${skipped} ${skipped === 1 ? 'transaction was' : 'transactions were'} skipped because ${skipped === 1 ? 'its' : 'their'} date or amount couldn't be read.`,
+        ]
+      : [];
+  return { content: toCanonicalCSV(transactions), warnings };
+}
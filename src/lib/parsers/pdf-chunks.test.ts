@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { isAppError } from '../errors';
+import {
+  extractPDFWithoutAI,
+  mergeExtractedCSV,
+  splitPDFPages,
+  type PendingPDF,
+} from './pdf-chunks';
+
+const pendingPDF: PendingPDF = {
+  fileName: 'statement.pdf',
+  position: 0,
+  pageTexts: ['Date Description Amount 02/03/2024 NETFLIX.COM 649.00 Total purchases 649.00'],
+};
+
+describe('mergeExtractedCSV', () => {
+  const header = 'Date,Description,Amount';
+  // Each page fills a chunk of its own, as long statement pages do
+  const chunks = splitPDFPages(
+    ['Page one transactions', 'Page two transactions', 'Page three transactions'],
+    30
+  );
+
+  it('splits pages into ranges that never share a page', () => {
+    expect(chunks.map((chunk) => chunk.pages)).toEqual([
+      { from: 1, to: 1 },
+      { from: 2, to: 2 },
+      { from: 3, to: 3 },
+    ]);
+  });
+
+  it('keeps identical charges either side of a page break', () => {
+    const merged = mergeExtractedCSV([
+      {
+        csv: `${header}\n2024-03-02,UBER TRIP,250.00\n2024-03-05,UBER TRIP,180.00`,
+        pages: chunks[0].pages,
+      },
+      {
+        csv: `${header}\n2024-03-05,UBER TRIP,180.00\n2024-03-09,SWIGGY,450.00`,
+        pages: chunks[1].pages,
+      },
+    ]);
+
+    expect(merged.split('\n')).toEqual([
+      header,
+      '2024-03-02,UBER TRIP,250.00',
+      '2024-03-05,UBER TRIP,180.00',
+      '2024-03-05,UBER TRIP,180.00',
+      '2024-03-09,SWIGGY,450.00',
+    ]);
+  });
+
+  it('drops header and carried-forward rows repeated where chunks meet', () => {
+    const merged = mergeExtractedCSV([
+      {
+        csv: `${header}\n2024-03-02,UBER TRIP,250.00\n2024-03-05,Balance carried forward,12450.00`,
+        pages: chunks[0].pages,
+      },
+      {
+        csv: `${header}\nDate,Description,Amount\n2024-03-05,Balance brought forward,12450.00\n2024-03-09,SWIGGY,450.00`,
+        pages: chunks[1].pages,
+      },
+      {
+        csv: `${header}\n2024-03-12,NETFLIX,649.00`,
+        pages: chunks[2].pages,
+      },
+    ]);
+
+    expect(merged.split('\n')).toEqual([
+      header,
+      '2024-03-02,UBER TRIP,250.00',
+      '2024-03-09,SWIGGY,450.00',
+      '2024-03-12,NETFLIX,649.00',
+    ]);
+  });
+});
+
+describe('extractPDFWithoutAI', () => {
+  it('uses the transactions read from dated lines at upload', () => {
+    const fallbackContent = [
+      'Date,Description,Amount,Type,Status,Currency',
+      '2024-03-02,NETFLIX.COM,649.00,debit,completed,',
+    ].join('\n');
+
+    const extraction = extractPDFWithoutAI({ ...pendingPDF, fallbackContent });
+
+    expect(extraction.content).toBe(fallbackContent);
+    expect(extraction.warnings[0]).toMatch(/couldn't be reached/);
+  });
+
+  it('fails with PDF_NEEDS_AI when the layout can only be read with AI', () => {
+    let code: string | undefined;
+    try {
+      extractPDFWithoutAI(pendingPDF);
+    } catch (error) {
+      code = isAppError(error) ? error.userError.code : undefined;
+    }
+
+    expect(code).toBe('PDF_NEEDS_AI');
+  });
+});
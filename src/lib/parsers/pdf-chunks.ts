@@ -0,0 +1,230 @@
+// Page-range chunks for AI extraction of long PDF statements
+
+import { AppError } from '../errors';
+import type { StatementMetadata, TransactionType } from '../types';
+import { serializeCSV, tokenizeCSV } from '../utils/csv';
+import { sumMoney } from '../utils/money';
+import { parseCanonicalCSV } from './canonical';
+import { findLabeledAmount } from './statement-metadata';
+import { normalizeTransactions } from './transaction-normalizer';
+
+// Most characters of statement text sent to the AI in one extraction request
+export const PDF_CHUNK_CHARS = 12000;
+
+// Balance lines statements print where a table breaks across pages
+const CARRIED_FORWARD = /\b(?:brought|carried)\s+(?:forward|fwd|over)\b|\b[bc]\/f\b/i;
+
+// Largest difference from a stated total put down to rounding
+const TOTAL_TOLERANCE = 1;
+
+// Summary labels statements print their debit and credit totals under
+const STATED_TOTAL_LABELS: Array<{ type: TransactionType; label: string }> = [
+  {
+    type: 'debit',
+    label:
+      'total\\s+(?:purchases|debits|spends|withdrawals)|purchases\\s*(?:&|and|/)\\s*(?:other\\s+)?debits',
+  },
+  {
+    type: 'credit',
+    label:
+      'total\\s+(?:credits|deposits)|payments\\s*(?:&|and|/)\\s*(?:other\\s+)?credits',
+  },
+];
+
+// A PDF whose transactions are extracted by AI in the background job
+export interface PendingPDF {
+  fileName: string;
+  position: number; // Index among the uploaded statements, to keep merge order
+  pageTexts: string[];
+  fallbackContent?: string; // Transactions read without AI, used only when AI extraction is unavailable
+  metadata?: StatementMetadata; // Printed details, reconciled once the transactions are extracted
+}
+
+export interface PDFPageChunk {
+  text: string;
+  pages: { from: number; to: number }; // 1-based, inclusive
+}
+
+// CSV the AI extracted from one chunk, with the pages it was read from
+export interface ExtractedPart {
+  csv: string;
+  pages: { from: number; to: number }; // 1-based, inclusive
+}
+
+/**
+ * Group consecutive pages into chunks of at most maxChars
+ * A page longer than the limit gets a chunk of its own; blank pages are skipped
+ */
+export function splitPDFPages(
+  pageTexts: string[],
+  maxChars: number = PDF_CHUNK_CHARS
+): PDFPageChunk[] {
+  const chunks: PDFPageChunk[] = [];
+
+  pageTexts.forEach((pageText, index) => {
+    const text = pageText.trim();
+    if (!text) return;
+
+    const page = index + 1;
+    const last = chunks[chunks.length - 1];
+    if (last && last.text.length + text.length + 2 <= maxChars) {
+      last.text = `${last.text}\n\n${text}`;
+      last.pages.to = page;
+    } else {
+      chunks.push({ text, pages: { from: page, to: page } });
+    }
+  });
+
+  return chunks;
+}
+
+/**
+ * Check whether a row repeats the table header or carries a balance over a page break
+ * The row's cells are in the order of the header
+ */
+function isPageBreakRow(row: string[], header: string[]): boolean {
+  const cells = row.map((cell) => cell.replace(/\s+/g, ' ').trim().toLowerCase());
+  const repeatsHeader =
+    cells.some(Boolean) &&
+    cells.every((cell, index) => !cell || cell === header[index]?.toLowerCase());
+  return repeatsHeader || cells.some((cell) => CARRIED_FORWARD.test(cell));
+}
+
+/**
+ * Join the CSV extracted from each chunk into one table, in page order
+ * Columns are matched by header name. Where two chunks meet, repeated header rows and
+ * balance brought or carried forward lines are dropped. Transaction rows are all kept -
+ * identical rows either side of a page break are separate charges
+ */
+export function mergeExtractedCSV(parts: ExtractedPart[]): string {
+  const tables = parts
+    .map(({ csv, pages }) => ({ table: tokenizeCSV(csv), pages }))
+    .filter(({ table }) => table.length > 1)
+    .sort((a, b) => a.pages.from - b.pages.from);
+  if (tables.length === 0) return '';
+
+  const header = tables[0].table[0].map((name) => name.trim());
+  const rows: string[][] = [];
+
+  tables.forEach(({ table }, position) => {
+    const [tableHeader, ...body] = table;
+    // Chunks may order or name columns differently - map them onto the first header
+    const names = tableHeader.map((name) => name.trim().toLowerCase());
+    const indexes = header.map((name) => names.indexOf(name.toLowerCase()));
+    const mapped = body
+      .filter((row) => row.some((cell) => cell.trim()))
+      .map((row) => indexes.map((index) => (index >= 0 ? row[index] ?? '' : '')));
+
+    if (position > 0) {
+      while (rows.length > 0 && isPageBreakRow(rows[rows.length - 1], header)) {
+        rows.pop();
+      }
+      while (mapped.length > 0 && isPageBreakRow(mapped[0], header)) {
+        mapped.shift();
+      }
+    }
+    rows.push(...mapped);
+  });
+
+  return serializeCSV([header, ...rows]);
+}
+
+/**
+ * Find the debit and credit totals printed in a statement's summary
+ */
+function findStatedTotals(text: string): Partial<Record<TransactionType, number>> {
+  const totals: Partial<Record<TransactionType, number>> = {};
+
+  for (const { type, label } of STATED_TOTAL_LABELS) {
+    const parsed = findLabeledAmount(text, label);
+    if (parsed) totals[type] = parsed.value;
+  }
+
+  return totals;
+}
+
+/**
+ * Format an amount for a warning message
+ */
+function formatTotal(value: number): string {
+  return value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+/**
+ * Compare extracted transactions with the totals printed on the statement
+ * Returns a warning for each stated total the transactions don't add up to
+ */
+export function checkStatedTotals(content: string, statementText: string): string[] {
+  const stated = findStatedTotals(statementText);
+  const transactions = parseCanonicalCSV(content).filter(
+    (transaction) => transaction.status !== 'failed'
+  );
+  const warnings: string[] = [];
+
+  for (const type of ['debit', 'credit'] as const) {
+    const statedTotal = stated[type];
+    if (statedTotal === undefined) continue;
+
+    const extracted = sumMoney(
+      transactions
+        .filter((transaction) => transaction.type === type)
+        .map((transaction) => transaction.amount),
+      transactions[0]?.currency
+    );
+
+    if (Math.abs(extracted - statedTotal) > TOTAL_TOLERANCE) {
+      warnings.push(
+        `The statement shows total ${type}s of ${formatTotal(statedTotal)}, but the extracted transactions add up to ${formatTotal(extracted)} - some may be missing or misread.`
+      );
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Combine the AI extractions of a PDF's chunks into normalized transactions
+ * and check them against the statement's stated totals
+ */
+export function assemblePDFExtraction(
+  parts: ExtractedPart[],
+  pageTexts: string[]
+): { content: string; warnings: string[] } {
+  const csvContent = mergeExtractedCSV(parts);
+
+  if (!csvContent || csvContent.split('\n').length < 3) {
+    throw new AppError(
+      'PDF_NO_TABLES',
+      'Could not extract enough transaction data from PDF'
+    );
+  }
+
+  // Derive signed amounts and types from the printed amounts
+  const { content } = normalizeTransactions(csvContent);
+  return { content, warnings: checkStatedTotals(content, pageTexts.join('\n')) };
+}
+
+/**
+ * Transactions of a pending PDF when AI extraction is unavailable
+ * Only simple dated-line layouts were read without AI at upload; other layouts need the AI
+ * @throws AppError PDF_NEEDS_AI when the PDF can't be read without it
+ */
+export function extractPDFWithoutAI(pdf: PendingPDF): { content: string; warnings: string[] } {
+  if (!pdf.fallbackContent) {
+    throw new AppError(
+      'PDF_NEEDS_AI',
+      'AI extraction unavailable and the layout could not be read line by line'
+    );
+  }
+
+  return {
+    content: pdf.fallbackContent,
+    warnings: [
+      "The AI couldn't be reached, so transactions were read from lines that start with a date and end with an amount - compare them with the statement.",
+      ...checkStatedTotals(pdf.fallbackContent, pdf.pageTexts.join('\n')),
+    ],
+  };
+}
@@ -1,8 +1,23 @@
-// PDF text extraction using pdf2json with pdf-parse fallback
+// PDF text extraction using pdf2json with pdf-parse fallback and OCR for scanned pages
 
-import { AppError } from '../errors';
+import { AppError, isAppError } from '../errors';
+import type { DetectedProfile, OCRPageConfidence, StatementMetadata } from '../types';
 import { sanitizePDFText } from '../utils/sanitizer';
-import { extractTransactionsFromPDF } from '../ai/gemini-client';
+import { normalizeTransactions } from './transaction-normalizer';
+import {
+  readTextLines,
+  reconstructTransactionTable,
+  type PDFTextItem,
+} from './pdf-table';
+import {
+  applyPDFTemplate,
+  detectPDFTemplate,
+  readDatedLines,
+  type PDFTemplate,
+} from './pdf-templates';
+import { MAX_OCR_PAGES, recognizePDFPages, recognizeStatementImage } from './ocr';
+import { checkStatedTotals } from './pdf-chunks';
+import { extractStatementMetadata } from './statement-metadata';
 
 // PDF magic bytes
 const PDF_MAGIC = '%PDF-';
@@ -13,6 +28,26 @@ const MIN_TEXT_LENGTH = 100;
 // Timeout for PDF parsing
 const PDF_PARSE_TIMEOUT = 30000;
 
+// pdf2json reports text widths in points and positions in form units of 16 points
+const POINTS_PER_FORM_UNIT = 16;
+
+interface PDFContent {
+  text: string;
+  pageTexts: string[];
+  pages?: PDFTextItem[][]; // Positioned text, when the parser provides it
+}
+
+// Transactions read from a PDF or photo, with the quality of any OCR'd pages
+export interface StatementExtraction {
+  content: string; // Normalized transactions - empty while AI extraction is pending
+  pendingPages?: string[]; // Sanitized page texts left for AI extraction in the background job
+  pendingFallback?: string; // Transactions read from dated lines, for when AI extraction is unavailable
+  ocrPages?: OCRPageConfidence[];
+  warnings?: string[];
+  template?: DetectedProfile; // Issuer template the transactions were read with
+  metadata?: StatementMetadata; // Account details printed on the statement
+}
+
 /**
  * Safely decode URI-encoded text from PDF
  * Some PDFs contain malformed URI encoding, so we handle errors gracefully
@@ -84,15 +119,18 @@ async function extractTextWithPdfParse(buffer: Buffer): Promise<string> {
 }
 
 /**
- * Extract text from PDF using pdf2json
+ * Extract text and text positions from PDF using pdf2json
  * This runs on the server-side only
  */
-async function extractTextWithPdf2json(buffer: Buffer): Promise<string> {
+async function extractTextWithPdf2json(
+  buffer: Buffer,
+  password?: string
+): Promise<PDFContent> {
   return new Promise((resolve, reject) => {
     let isSettled = false;
     let timeoutId: NodeJS.Timeout | null = null;
 
-    const safeResolve = (value: string) => {
+    const safeResolve = (value: PDFContent) => {
       if (isSettled) return;
       isSettled = true;
       if (timeoutId) clearTimeout(timeoutId);
@@ -111,7 +149,8 @@ async function extractTextWithPdf2json(buffer: Buffer): Promise<string> {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const PDFParser = require('pdf2json');
 
-      const pdfParser = new PDFParser(null, true); // true = don't combine text items
+      // true = don't combine text items; the password only decrypts and is never logged
+      const pdfParser = new PDFParser(null, true, password);
 
       // Add timeout to prevent hanging on problematic PDFs
       timeoutId = setTimeout(() => {
@@ -125,7 +164,7 @@ async function extractTextWithPdf2json(buffer: Buffer): Promise<string> {
 
       pdfParser.on(
         'pdfParser_dataError',
-        (errData: { parserError?: Error } | Error | string) => {
+        (errData: { parserError?: Error | string } | Error | string) => {
           // Handle various error formats from pdf2json
           let message = 'Unknown PDF error';
 
@@ -135,13 +174,19 @@ async function extractTextWithPdf2json(buffer: Buffer): Promise<string> {
             message = errData.message;
           } else if (errData && typeof errData === 'object') {
             if ('parserError' in errData && errData.parserError) {
-              message = errData.parserError.message || 'PDF parsing failed';
+              // pdf2json reports most failures as a plain string
+              message =
+                typeof errData.parserError === 'string'
+                  ? errData.parserError
+                  : errData.parserError.message || 'PDF parsing failed';
             } else if ('message' in errData) {
               message = String((errData as { message: unknown }).message);
             }
           }
 
-          if (
+          if (/incorrect password/i.test(message)) {
+            safeReject(new AppError('PDF_WRONG_PASSWORD', 'Incorrect PDF password'));
+          } else if (
             message.includes('password') ||
             message.includes('encrypted') ||
             message.includes('decrypt')
@@ -171,31 +216,48 @@ async function extractTextWithPdf2json(buffer: Buffer): Promise<string> {
         (pdfData: {
           Pages: Array<{
             Texts: Array<{
+              x: number;
+              y: number;
+              w?: number;
               R: Array<{ T: string }>;
             }>;
           }>;
         }) => {
           try {
-            // Extract text from all pages
+            // Extract text from all pages, keeping each item's position
             const textContent: string[] = [];
+            const pages: PDFTextItem[][] = [];
 
             for (const page of pdfData.Pages || []) {
               const pageTexts: string[] = [];
+              const pageItems: PDFTextItem[] = [];
 
               for (const textItem of page.Texts || []) {
+                const itemTexts: string[] = [];
                 for (const run of textItem.R || []) {
                   if (run.T) {
                     // Safely decode URI-encoded text
                     const decodedText = safeDecodeURIComponent(run.T);
                     if (decodedText) {
-                      pageTexts.push(decodedText);
+                      itemTexts.push(decodedText);
                     }
                   }
                 }
+
+                if (itemTexts.length > 0) {
+                  pageTexts.push(...itemTexts);
+                  pageItems.push({
+                    x: textItem.x,
+                    y: textItem.y,
+                    width: (textItem.w || 0) / POINTS_PER_FORM_UNIT,
+                    text: itemTexts.join(''),
+                  });
+                }
               }
 
               // Join text items with spaces, add newline between pages
               textContent.push(pageTexts.join(' '));
+              pages.push(pageItems);
             }
 
             const fullText = textContent.join('\n');
@@ -220,7 +282,7 @@ async function extractTextWithPdf2json(buffer: Buffer): Promise<string> {
               return;
             }
 
-            safeResolve(fullText);
+            safeResolve({ text: fullText, pageTexts: textContent, pages });
           } catch (error) {
             const message =
               error instanceof Error ? error.message : 'Unknown error';
@@ -257,18 +319,21 @@ async function extractTextWithPdf2json(buffer: Buffer): Promise<string> {
 }
 
 /**
- * Extract text from PDF using multiple parsers with fallback
- * Tries pdf2json first, then falls back to pdf-parse
+ * Extract PDF content using multiple parsers with fallback
+ * Tries pdf2json first, then falls back to pdf-parse (text only)
  */
-export async function extractTextFromPDF(buffer: Buffer): Promise<string> {
+async function extractPDFContent(
+  buffer: Buffer,
+  password?: string
+): Promise<PDFContent> {
   const errors: string[] = [];
 
   // Try pdf2json first (better at preserving layout)
   try {
     console.log('Attempting PDF extraction with pdf2json...');
-    const text = await extractTextWithPdf2json(buffer);
+    const content = await extractTextWithPdf2json(buffer, password);
     console.log('pdf2json extraction successful');
-    return text;
+    return content;
   } catch (error) {
     const msg = error instanceof Error ? error.message : 'Unknown error';
     console.log('pdf2json failed:', msg);
@@ -278,6 +343,7 @@ export async function extractTextFromPDF(buffer: Buffer): Promise<string> {
     if (error instanceof AppError) {
       if (
         error.userError.code === 'PDF_PROTECTED' ||
+        error.userError.code === 'PDF_WRONG_PASSWORD' ||
         error.userError.code === 'PDF_SCANNED'
       ) {
         throw error;
@@ -290,7 +356,7 @@ export async function extractTextFromPDF(buffer: Buffer): Promise<string> {
     console.log('Attempting PDF extraction with pdf-parse fallback...');
     const text = await extractTextWithPdfParse(buffer);
     console.log('pdf-parse extraction successful');
-    return text;
+    return { text, pageTexts: [text] };
   } catch (error) {
     const msg = error instanceof Error ? error.message : 'Unknown error';
     console.log('pdf-parse failed:', msg);
@@ -314,51 +380,225 @@ export async function extractTextFromPDF(buffer: Buffer): Promise<string> {
   );
 }
 
+/**
+ * Extract text from PDF using multiple parsers with fallback
+ */
+export async function extractTextFromPDF(buffer: Buffer): Promise<string> {
+  return (await extractPDFContent(buffer)).text;
+}
+
+/**
+ * Rebuild the transaction table from text positions, or null if the layout isn't recognized
+ */
+function extractTableFromLayout(pages: PDFTextItem[][]): string | null {
+  const tableCSV = reconstructTransactionTable(pages);
+  if (!tableCSV) return null;
+
+  try {
+    const { content } = normalizeTransactions(tableCSV);
+    return content.split('\n').length >= 3 ? content : null;
+  } catch (error) {
+    if (isAppError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Turn statement text and text positions into normalized transaction CSV
+ * Layouts that can't be rebuilt are left for AI extraction in the background job,
+ * which reads long statements in page-range chunks
+ * Shared by text PDFs, scanned PDFs and photos
+ */
+function extractStatementTransactions(
+  pageTexts: string[],
+  pages?: PDFTextItem[][]
+): Pick<
+  StatementExtraction,
+  'content' | 'pendingPages' | 'pendingFallback' | 'warnings' | 'template' | 'metadata'
+> {
+  // Sanitize the extracted text
+  const sanitizedText = sanitizePDFText(pageTexts.join('\n'));
+
+  // Check if text contains transaction-like content, and from which issuer
+  const { hasTransactions, template } = checkForTransactionContent(sanitizedText);
+
+  if (!hasTransactions) {
+    throw new AppError(
+      'PDF_NO_TABLES',
+      'PDF does not appear to contain transaction data'
+    );
+  }
+
+  // Card number, period, balances and due dates printed on the statement
+  const metadata = extractStatementMetadata(sanitizedText, {
+    issuer: template?.name,
+    dateOrder: template?.dateOrder,
+  });
+
+  // Known issuer layouts are read line by line with their template
+  const lines = pages ? readTextLines(pages) : sanitizedText.split('\n');
+  if (template) {
+    const templateCSV = applyPDFTemplate(template, lines, sanitizedText);
+    if (templateCSV) {
+      console.log(`PDF read with the ${template.name} template`);
+      return {
+        content: templateCSV,
+        warnings: checkStatedTotals(templateCSV, sanitizedText),
+        template: { id: template.id, name: template.name },
+        metadata,
+      };
+    }
+  }
+
+  // Rebuild the table from text positions - reproducible and needs no AI call
+  const layoutCSV = pages ? extractTableFromLayout(pages) : null;
+  if (layoutCSV) {
+    console.log('PDF table reconstructed from text layout');
+    return {
+      content: layoutCSV,
+      warnings: checkStatedTotals(layoutCSV, sanitizedText),
+      metadata,
+    };
+  }
+
+  // Simple dated-line layouts are also read now, in case the AI is unavailable when the job runs
+  console.log('PDF layout not recognized, leaving it for AI extraction');
+  const datedLinesCSV = readDatedLines(lines, sanitizedText);
+  return {
+    content: '',
+    pendingPages: pageTexts.map(sanitizePDFText),
+    ...(datedLinesCSV && { pendingFallback: datedLinesCSV }),
+    metadata,
+  };
+}
+
+/**
+ * List page numbers with consecutive pages joined into ranges, e.g. "11-14, 16"
+ */
+function formatPageList(pages: number[]): string {
+  const ranges: Array<[number, number]> = [];
+  for (const page of pages) {
+    const last = ranges[ranges.length - 1];
+    if (last && page === last[1] + 1) {
+      last[1] = page;
+    } else {
+      ranges.push([page, page]);
+    }
+  }
+  return ranges.map(([from, to]) => (from === to ? `${from}` : `${from}-${to}`)).join(', ');
+}
+
 /**
  * Process PDF file and extract transaction data
- * Returns CSV-formatted string ready for analysis
+ * Pages without a text layer are read with OCR, up to ocrPageLimit pages
+ * The password, if any, is only used to decrypt and must not be logged or stored
  */
-export async function processPDF(buffer: Buffer): Promise<string> {
+export async function processPDF(
+  buffer: Buffer,
+  password?: string,
+  ocrPageLimit: number = MAX_OCR_PAGES
+): Promise<StatementExtraction> {
   // Validate PDF magic bytes first
   const header = buffer.slice(0, 5).toString('ascii');
   if (!header.startsWith(PDF_MAGIC)) {
     throw new AppError('INVALID_FORMAT', 'File is not a valid PDF');
   }
 
-  // Step 1: Extract raw text from PDF
-  const rawText = await extractTextFromPDF(buffer);
+  // Step 1: Extract raw text and text positions from PDF
+  let content: PDFContent | null = null;
+  try {
+    content = await extractPDFContent(buffer, password);
+  } catch (error) {
+    if (!isAppError(error) || error.userError.code !== 'PDF_SCANNED') {
+      throw error;
+    }
+  }
 
-  // Step 2: Sanitize the extracted text
-  const sanitizedText = sanitizePDFText(rawText);
+  // Step 2: Read scanned pages with OCR - the whole file when it has no text layer
+  const scannedPages = content?.pages
+    ?.map((items, index) => (items.length === 0 ? index + 1 : 0))
+    .filter((page) => page > 0);
+  if (content && !scannedPages?.length) {
+    return extractStatementTransactions(content.pageTexts, content.pages);
+  }
 
-  // Step 3: Check if text contains transaction-like content
-  const hasTransactionMarkers = checkForTransactionContent(sanitizedText);
+  if (ocrPageLimit <= 0 && !content) {
+    throw new AppError('TOO_MANY_SCANS', 'OCR page limit of the upload already used');
+  }
 
-  if (!hasTransactionMarkers) {
-    throw new AppError(
-      'PDF_NO_TABLES',
-      'PDF does not appear to contain transaction data'
-    );
+  console.log('PDF has pages without text, running OCR...');
+  const ocr =
+    ocrPageLimit > 0
+      ? await recognizePDFPages(buffer, password, scannedPages, ocrPageLimit)
+      : { pages: [], skippedPages: scannedPages ?? [] };
+  const recognized = ocr.pages.filter((page) => page.items.length > 0);
+
+  if (!content && recognized.length === 0) {
+    throw new AppError('PDF_SCANNED', 'OCR found no text in the scanned PDF');
   }
 
-  // Step 4: Use AI to extract structured transaction data
-  const csvContent = await extractTransactionsFromPDF(sanitizedText);
+  const pages = content?.pages ? [...content.pages] : [];
+  const pageTexts = content?.pages ? [...content.pageTexts] : [];
+  for (const page of recognized) {
+    pages[page.page - 1] = page.items;
+    pageTexts[page.page - 1] = page.text;
+  }
 
-  // Step 5: Validate the extracted CSV
-  if (!csvContent || csvContent.split('\n').length < 3) {
-    throw new AppError(
-      'PDF_NO_TABLES',
-      'Could not extract enough transaction data from PDF'
+  const extraction = extractStatementTransactions(
+    Array.from(pageTexts, (text) => text ?? ''),
+    Array.from(pages, (items) => items ?? [])
+  );
+
+  // Scanned pages past the OCR limit are left out - say which, so the user knows what's missing
+  const warnings = [...(extraction.warnings ?? [])];
+  if (ocr.skippedPages.length > 0) {
+    const pageList = formatPageList(ocr.skippedPages);
+    const skipped =
+      ocr.skippedPages.length === 1 ? `Page ${pageList} wasn't` : `Pages ${pageList} weren't`;
+    warnings.push(
+      `${skipped} read - only ${MAX_OCR_PAGES} scanned pages per upload are read with OCR, so any transactions on them are missing.`
     );
   }
 
-  return csvContent;
+  return {
+    ...extraction,
+    ...(warnings.length > 0 && { warnings }),
+    ocrPages: recognized.map((page) => ({ page: page.page, confidence: page.confidence })),
+  };
+}
+
+/**
+ * Process a photo of a statement (PNG, JPEG or HEIC) with OCR
+ * Fails when the upload has no OCR pages left for it
+ */
+export async function processStatementImage(
+  buffer: Buffer,
+  ocrPageLimit: number = MAX_OCR_PAGES
+): Promise<StatementExtraction> {
+  if (ocrPageLimit <= 0) {
+    throw new AppError('TOO_MANY_SCANS', 'OCR page limit of the upload already used');
+  }
+
+  const page = await recognizeStatementImage(buffer);
+
+  if (page.items.length === 0) {
+    throw new AppError('PDF_SCANNED', 'OCR found no text in the photo');
+  }
+
+  return {
+    ...extractStatementTransactions([page.text], [page.items]),
+    ocrPages: [{ page: 1, confidence: page.confidence }],
+  };
 }
 
 /**
  * Check if PDF text contains transaction-like content
+ * Also reports the issuer template the statement matches, if any
  */
-function checkForTransactionContent(text: string): boolean {
+function checkForTransactionContent(text: string): {
+  hasTransactions: boolean;
+  template: PDFTemplate | null;
+} {
   const lowerText = text.toLowerCase();
 
   // Look for common transaction-related terms
@@ -380,8 +620,9 @@ function checkForTransactionContent(text: string): boolean {
     lowerText.includes(marker)
   ).length;
 
-  // Need at least 3 markers to consider it a transaction document
-  return matchCount >= 3;
+  // A known issuer's statement, or at least 3 markers, make a transaction document
+  const template = detectPDFTemplate(text);
+  return { hasTransactions: template !== null || matchCount >= 3, template };
 }
 
 /**
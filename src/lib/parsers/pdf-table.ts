@@ -0,0 +1,248 @@
+// Transaction table reconstruction from PDF text positions
+
+import { serializeCSV } from '../utils/csv';
+import { normalizeDate } from './date-normalizer';
+import { parseAmount } from './amount-normalizer';
+import { detectColumns } from './transaction-normalizer';
+
+// A run of text placed on a page, in pdf2json form units (16pt)
+export interface PDFTextItem {
+  x: number;
+  y: number;
+  width: number;
+  text: string;
+}
+
+interface Segment {
+  x0: number;
+  x1: number;
+  text: string;
+}
+
+interface Line {
+  y: number;
+  segments: Segment[];
+}
+
+interface TableColumns {
+  names: string[];
+  boundaries: number[]; // Right edge of each column but the last
+}
+
+// Items whose tops differ by less than this sit on the same line
+const LINE_TOLERANCE = 0.3;
+
+// Horizontal gap below which neighbouring items belong to the same cell
+const CELL_GAP = 0.6;
+
+// Largest vertical gap for a wrapped description line to join the row above
+const CONTINUATION_GAP = 1.5;
+
+// Rows sampled when checking a header candidate
+const SAMPLE_ROWS = 50;
+
+// Fewest transactions for a reconstructed table to be trusted
+const MIN_TABLE_ROWS = 2;
+
+/**
+ * Check whether text reads as a date in either day/month order
+ */
+function isDateText(text: string): boolean {
+  return normalizeDate(text, 'DMY') !== null || normalizeDate(text, 'MDY') !== null;
+}
+
+/**
+ * Check whether text reads as a money amount
+ */
+function isAmountText(text: string): boolean {
+  return /\d/.test(text) && parseAmount(text) !== null;
+}
+
+/**
+ * Group a page's items into lines, top to bottom, merging close items into segments
+ */
+function groupLines(items: PDFTextItem[]): Line[] {
+  const sorted = items
+    .filter((item) => item.text.trim())
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: Array<{ y: number; items: PDFTextItem[] }> = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && item.y - line.y <= LINE_TOLERANCE) {
+      line.items.push(item);
+    } else {
+      lines.push({ y: item.y, items: [item] });
+    }
+  }
+
+  return lines.map((line) => {
+    const segments: Segment[] = [];
+    for (const item of line.items.sort((a, b) => a.x - b.x)) {
+      const last = segments[segments.length - 1];
+      if (last && item.x - last.x1 < CELL_GAP) {
+        last.text = `${last.text} ${item.text.trim()}`;
+        last.x1 = Math.max(last.x1, item.x + item.width);
+      } else {
+        segments.push({ x0: item.x, x1: item.x + item.width, text: item.text.trim() });
+      }
+    }
+    return { y: line.y, segments };
+  });
+}
+
+/**
+ * Read positioned text as plain lines, top to bottom on each page
+ */
+export function readTextLines(pages: PDFTextItem[][]): string[] {
+  return pages.flatMap((page) =>
+    groupLines(page).map((line) => line.segments.map((segment) => segment.text).join(' '))
+  );
+}
+
+/**
+ * Build column boundaries from a header line
+ * Each boundary sits midway between neighbouring header labels
+ */
+function toColumns(header: Line): TableColumns {
+  const { segments } = header;
+  return {
+    names: segments.map((segment) => segment.text),
+    boundaries: segments
+      .slice(0, -1)
+      .map((segment, index) => (segment.x1 + segments[index + 1].x0) / 2),
+  };
+}
+
+/**
+ * Place a line's segments into table cells by their horizontal centre
+ */
+function toCells(line: Line, columns: TableColumns): string[] {
+  const cells = columns.names.map(() => '');
+
+  for (const segment of line.segments) {
+    const centre = (segment.x0 + segment.x1) / 2;
+    let index = columns.boundaries.findIndex((boundary) => centre < boundary);
+    if (index < 0) index = columns.names.length - 1;
+    cells[index] = cells[index] ? `${cells[index]} ${segment.text}` : segment.text;
+  }
+
+  return cells;
+}
+
+/**
+ * Read transaction rows below a header, joining wrapped description lines
+ */
+function readRows(
+  lines: Line[],
+  columns: TableColumns
+): string[][] | null {
+  const cellRows = lines.map((line) => toCells(line, columns));
+  const sample = cellRows
+    .filter((cells) => cells.some(isDateText))
+    .slice(0, SAMPLE_ROWS);
+  const mapping = detectColumns(columns.names, sample);
+  const { date, description, amount, debit, credit } = mapping.columns;
+
+  if (date === undefined) return null;
+  const moneyIndexes = [amount, debit, credit].filter(
+    (index): index is number => index !== undefined
+  );
+  if (moneyIndexes.length === 0) return null;
+
+  const rows: string[][] = [];
+  let previousY = -Infinity;
+
+  cellRows.forEach((cells, index) => {
+    const { y } = lines[index];
+    const hasMoney = moneyIndexes.some((column) => isAmountText(cells[column]));
+
+    if (isDateText(cells[date]) && hasMoney) {
+      rows.push(cells);
+      previousY = y;
+      return;
+    }
+
+    // A wrapped description line carries text in the description column only
+    const isContinuation =
+      description !== undefined &&
+      rows.length > 0 &&
+      y - previousY <= CONTINUATION_GAP &&
+      cells.every((cell, column) => column === description || !cell) &&
+      cells[description];
+    if (isContinuation) {
+      const last = rows[rows.length - 1];
+      last[description] = `${last[description]} ${cells[description]}`.trim();
+      previousY = y;
+    }
+  });
+
+  return rows;
+}
+
+/**
+ * Check whether a line could be a table header
+ * Headers have several labels and no dates or amounts of their own
+ */
+function isHeaderCandidate(line: Line): boolean {
+  return (
+    line.segments.length >= 3 &&
+    !line.segments.some(
+      (segment) => isDateText(segment.text) || isAmountText(segment.text)
+    )
+  );
+}
+
+/**
+ * Find the transaction table on a page, trying each header candidate
+ * Pages without a header continue the previous page's table
+ */
+function readPage(
+  lines: Line[],
+  previous: TableColumns | null
+): { columns: TableColumns | null; rows: string[][] } {
+  let best: { columns: TableColumns | null; rows: string[][] } = {
+    columns: previous,
+    rows: previous ? readRows(lines, previous) ?? [] : [],
+  };
+
+  lines.forEach((line, index) => {
+    if (!isHeaderCandidate(line)) return;
+    const columns = toColumns(line);
+    const rows = readRows(lines.slice(index + 1), columns);
+    if (rows && rows.length > best.rows.length) {
+      best = { columns, rows };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Rebuild the transaction table from positioned PDF text as CSV
+ * Returns null when no page holds a recognizable date/amount table,
+ * so the caller can fall back to AI extraction
+ */
+export function reconstructTransactionTable(pages: PDFTextItem[][]): string | null {
+  let columns: TableColumns | null = null;
+  let header: string[] | null = null;
+  const rows: string[][] = [];
+
+  for (const page of pages) {
+    const result = readPage(groupLines(page), columns);
+    if (!result.columns || result.rows.length === 0) continue;
+
+    // Later pages must repeat the first table's layout to be joined to it
+    if (header && result.columns.names.join('|') !== header.join('|')) continue;
+
+    columns = result.columns;
+    header = header ?? result.columns.names;
+    rows.push(...result.rows);
+  }
+
+  if (!header || rows.length < MIN_TABLE_ROWS) {
+    return null;
+  }
+
+  return serializeCSV([header, ...rows]);
+}
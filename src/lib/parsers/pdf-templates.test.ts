@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { readDatedLines } from './pdf-templates';
+
+describe('readDatedLines', () => {
+  it('reads lines that start with a date and end with an amount', () => {
+    const lines = [
+      'Statement of account for March 2024',
+      'Date Description Amount',
+      '02/03/2024 NETFLIX.COM 649.00',
+      '05/03/2024 AMAZON PAY INDIA 1,249.50',
+      'MUMBAI IN',
+      '14/03/2024 PAYMENT RECEIVED THANK YOU 5,000.00 Cr',
+      '15/03/2024 Opening balance 3,000.00',
+    ];
+
+    expect(readDatedLines(lines, lines.join('\n'))?.split('\n').slice(1)).toEqual([
+      '2024-03-02,NETFLIX.COM,649.00,debit,completed,',
+      '2024-03-05,AMAZON PAY INDIA MUMBAI IN,1249.50,debit,completed,',
+      '2024-03-14,PAYMENT RECEIVED THANK YOU,5000.00,credit,completed,',
+    ]);
+  });
+
+  it('gives up on layouts that print a running balance after the amount', () => {
+    const lines = [
+      '02/03/2024 NETFLIX.COM 649.00 10,351.00',
+      '05/03/2024 SALARY ACME CORP 50,000.00 60,351.00',
+    ];
+
+    expect(readDatedLines(lines, lines.join('\n'))).toBeNull();
+  });
+});
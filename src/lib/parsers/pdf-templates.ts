@@ -0,0 +1,287 @@
+// Issuer-specific PDF statement templates recognized by their text
+
+import { parseAmount } from './amount-normalizer';
+import { toCanonicalCSV, type CanonicalTransaction } from './canonical';
+import { inferDateOrder, normalizeDate, type DateOrder } from './date-normalizer';
+import { linkFXFees, parseForeignAmountLine, withForeignExchange } from './foreign-exchange';
+
+export interface PDFTemplate {
+  id: string;
+  name: string;
+  currency: string;
+  // Patterns that must all appear in the statement text
+  identifiers: RegExp[];
+  dateOrder: DateOrder;
+  // A transaction line - groups: date, description, amount, optional credit/debit marker
+  row: RegExp;
+  // Marker values (lowercase) that mark a credit; without a marker, negative amounts are credits
+  creditMarkers?: string[];
+  // Rows print MM/DD only, so the year comes from the statement's dates
+  yearlessDates?: boolean;
+}
+
+const TEMPLATES: PDFTemplate[] = [
+  {
+    id: 'hdfc-card',
+    name: 'HDFC Bank Credit Card',
+    currency: 'INR',
+    identifiers: [/hdfc bank/i, /credit card/i],
+    dateOrder: 'DMY',
+    row: /^(\d{2}\/\d{2}\/\d{4})(?: \d{2}:\d{2}(?::\d{2})?)? (.+?) ([\d,]+\.\d{2})(?: ?(Cr))?$/i,
+    creditMarkers: ['cr'],
+  },
+  {
+    id: 'icici-card',
+    name: 'ICICI Bank Credit Card',
+    currency: 'INR',
+    identifiers: [/icici bank/i, /credit card/i],
+    dateOrder: 'DMY',
+    // Serial number before the details, reward points before the amount
+    row: /^(\d{2}\/\d{2}\/\d{4}) (?:\d{6,} )?(.+?) (?:-?\d+ )?([\d,]+\.\d{2})(?: ?(CR))?$/i,
+    creditMarkers: ['cr'],
+  },
+  {
+    id: 'axis-card',
+    name: 'Axis Bank Credit Card',
+    currency: 'INR',
+    identifiers: [/axis bank/i, /credit card/i],
+    dateOrder: 'DMY',
+    row: /^(\d{2}\/\d{2}\/\d{4}) (.+?) ([\d,]+\.\d{2}) ?(Dr|Cr)$/i,
+    creditMarkers: ['cr'],
+  },
+  {
+    id: 'sbi-card',
+    name: 'SBI Card',
+    currency: 'INR',
+    identifiers: [/sbi ?card/i],
+    dateOrder: 'DMY',
+    // D = debit, C = credit, M = EMI
+    row: /^(\d{1,2} [A-Za-z]{3} \d{2,4}) (.+?) ([\d,]+\.\d{2}) ?([CDM])$/,
+    creditMarkers: ['c'],
+  },
+  {
+    id: 'amex-card',
+    name: 'American Express',
+    currency: 'USD',
+    identifiers: [/american express/i],
+    dateOrder: 'MDY',
+    // An asterisk after the date marks a posting date
+    row: /^(\d{2}\/\d{2}\/\d{2,4})\*? (.+?) (-?\$[\d,]+\.\d{2})$/,
+  },
+  {
+    id: 'chase-card',
+    name: 'Chase Credit Card',
+    currency: 'USD',
+    identifiers: [/chase\.com|jpmorgan chase/i, /account activity/i],
+    dateOrder: 'MDY',
+    row: /^(\d{2}\/\d{2}) (.+?) (-?[\d,]+\.\d{2})$/,
+    yearlessDates: true,
+  },
+  {
+    id: 'citi-card',
+    name: 'Citi Credit Card',
+    currency: 'USD',
+    identifiers: [/citibank|citicards|citi\.com/i],
+    dateOrder: 'MDY',
+    // Sale date, then an optional posting date
+    row: /^(\d{2}\/\d{2}) (?:\d{2}\/\d{2} )?(.+?) (-?\$?[\d,]+\.\d{2})$/,
+    yearlessDates: true,
+  },
+];
+
+// Original-currency details printed under a foreign transaction
+const FOREIGN_CURRENCY_LINE =
+  /^(?:(?:USD|EUR|EURO|GBP|AED|SGD|AUD|CAD|JPY|CHF|HKD|THB|MYR|NZD|SAR)\b.*\d|[\d,]+\.\d{2} (?:USD|EUR|GBP|AED|SGD|AUD|CAD|JPY|CHF|HKD|THB|MYR|NZD|SAR)\b|.*exchange rate)/i;
+
+// Summary rows laid out like transactions that must not be counted as one
+const BALANCE_ROW =
+  /previous (?:statement )?balance|opening balance|closing balance|new balance|balance (?:b\/f|brought forward|forward)|carried forward|^total\b|minimum (?:amount|payment) due/i;
+
+// Most wrapped lines joined to one description - more usually means a page break
+const MAX_CONTINUATION_LINES = 2;
+
+// Fewest transactions for a template match to be trusted
+const MIN_TEMPLATE_ROWS = 2;
+
+// Date a transaction line of an unknown layout starts with (01/03/2024, 2024-03-01, 01 Mar 24)
+const LEADING_DATE =
+  /^(\d{1,2}[/.\-]\d{1,2}[/.\-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}[ \-][A-Za-z]{3}[ \-]\d{2,4}) /;
+
+// A transaction line of an unknown layout: date, description and amount, with an optional Cr/Dr marker
+const DATED_LINE =
+  /^(\d{1,2}[/.\-]\d{1,2}[/.\-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}[ \-][A-Za-z]{3}[ \-]\d{2,4}) (.+?) (-?[$€£₹]?[\d,]+\.\d{2})(?: ?(Cr|Dr))?$/i;
+
+// Amounts printed on a line, to spot layouts with more than one money column
+const MONEY_VALUE = /\d[\d,]*\.\d{2}\b/g;
+
+/**
+ * Find the issuer template whose identifiers all appear in the statement text
+ */
+export function detectPDFTemplate(text: string): PDFTemplate | null {
+  return (
+    TEMPLATES.find((template) =>
+      template.identifiers.every((pattern) => pattern.test(text))
+    ) ?? null
+  );
+}
+
+/**
+ * Latest full date printed on the statement, used to give MM/DD rows a year
+ */
+function findStatementEnd(
+  text: string,
+  order: DateOrder
+): { year: number; month: number } | null {
+  const dates = (text.match(/\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g) || [])
+    .map((value) => normalizeDate(value, order))
+    .filter((date): date is string => date !== null)
+    .sort();
+  const latest = dates[dates.length - 1];
+  if (!latest) return null;
+
+  return { year: Number(latest.slice(0, 4)), month: Number(latest.slice(5, 7)) };
+}
+
+/**
+ * Convert a row's date to ISO, adding the year for MM/DD dates
+ * Months after the statement's end belong to the previous year (December rows on a January statement)
+ */
+function toRowDate(
+  value: string,
+  template: PDFTemplate,
+  statementEnd: { year: number; month: number } | null
+): string | null {
+  if (!template.yearlessDates) {
+    return normalizeDate(value, template.dateOrder);
+  }
+  if (!statementEnd) return null;
+
+  const month = Number(value.split('/')[0]);
+  const year = month > statementEnd.month ? statementEnd.year - 1 : statementEnd.year;
+  return normalizeDate(`${value}/${year}`, template.dateOrder);
+}
+
+/**
+ * Read a statement's transactions with an issuer template
+ * Returns canonical CSV, or null when too few lines match the template's layout
+ */
+export function applyPDFTemplate(
+  template: PDFTemplate,
+  lines: string[],
+  text: string
+): string | null {
+  const statementEnd = template.yearlessDates
+    ? findStatementEnd(text, template.dateOrder)
+    : null;
+  const transactions: CanonicalTransaction[] = [];
+  // The row wrapped lines would belong to, and the lines seen since it
+  let last: CanonicalTransaction | null = null;
+  let pending: string[] = [];
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+    if (!line) continue;
+
+    // Original-currency details belong to the transaction above them
+    if (FOREIGN_CURRENCY_LINE.test(line)) {
+      const details = parseForeignAmountLine(line);
+      if (last && details) {
+        last = withForeignExchange(last, {
+          originalAmount: last.originalAmount,
+          originalCurrency: last.originalCurrency,
+          fxRate: last.fxRate,
+          ...details,
+        });
+        transactions[transactions.length - 1] = last;
+      }
+      continue;
+    }
+
+    const match = line.match(template.row);
+    const date = match ? toRowDate(match[1], template, statementEnd) : null;
+    const amount = match ? parseAmount(match[3]) : null;
+
+    if (!match || !date || !amount) {
+      // A dated line that isn't a transaction (e.g. a summary) ends the previous description
+      const isDated =
+        normalizeDate(line, template.dateOrder) !== null ||
+        (template.yearlessDates && /^\d{2}\/\d{2} /.test(line));
+      if (isDated) {
+        last = null;
+      } else {
+        pending.push(line);
+      }
+      continue;
+    }
+
+    // Wrapped descriptions are only joined once the next row confirms they sit between rows
+    if (last && pending.length <= MAX_CONTINUATION_LINES) {
+      last.description = [last.description, ...pending].join(' ');
+    }
+    last = null;
+    pending = [];
+
+    const description = match[2].trim();
+    if (BALANCE_ROW.test(description)) continue;
+
+    const marker = match[4]?.toLowerCase();
+    const isCredit = marker
+      ? (template.creditMarkers ?? []).includes(marker)
+      : amount.negative;
+
+    last = {
+      date,
+      description,
+      amount: amount.value,
+      type: isCredit ? 'credit' : 'debit',
+      currency: template.currency,
+    };
+    transactions.push(last);
+  }
+
+  if (transactions.length < MIN_TEMPLATE_ROWS) {
+    return null;
+  }
+
+  return toCanonicalCSV(linkFXFees(transactions));
+}
+
+/**
+ * Read a statement of unknown layout from its lines that start with a date and end with the amount
+ * Used only when AI extraction is unavailable, so it gives up rather than guess: every dated line
+ * with an amount must fit, and none may print a second amount (a running balance, or separate
+ * debit and credit columns)
+ * Returns canonical CSV, or null when the layout isn't that simple
+ */
+export function readDatedLines(lines: string[], text: string): string | null {
+  const dated = lines
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => LEADING_DATE.test(line));
+  const withAmounts = dated.filter(
+    (line) => (line.replace(LEADING_DATE, '').match(MONEY_VALUE) ?? []).length > 0
+  );
+
+  const isSimpleLayout = withAmounts.every(
+    (line) =>
+      (line.replace(LEADING_DATE, '').match(MONEY_VALUE) ?? []).length === 1 &&
+      DATED_LINE.test(line)
+  );
+  if (withAmounts.length < MIN_TEMPLATE_ROWS || !isSimpleLayout) {
+    return null;
+  }
+
+  const { order } = inferDateOrder(withAmounts.map((line) => line.match(LEADING_DATE)![1]));
+  return applyPDFTemplate(
+    {
+      id: 'dated-lines',
+      name: 'Dated lines',
+      currency: '',
+      identifiers: [],
+      dateOrder: order,
+      row: DATED_LINE,
+      creditMarkers: ['cr'],
+    },
+    lines,
+    text
+  );
+}
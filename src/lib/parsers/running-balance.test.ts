@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { toCanonicalCSV, type CanonicalTransaction } from './canonical';
+import { checkRunningBalance } from './running-balance';
+
+/** Canonical statement from [date, description, signed amount, balance] rows */
+function statement(rows: Array<[string, string, number, number | undefined]>): string {
+  return toCanonicalCSV(
+    rows.map(([date, description, amount, balance]): CanonicalTransaction => ({
+      date,
+      description,
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'debit' : 'credit',
+      currency: 'USD',
+      balance,
+    }))
+  );
+}
+
+describe('checkRunningBalance', () => {
+  it('accepts rows that follow the balance', () => {
+    const content = statement([
+      ['2024-03-01', 'SALARY', 2500, 3000],
+      ['2024-03-02', 'RENT', -1200, 1800],
+      ['2024-03-02', 'GROCERIES', -45.5, undefined], // End-of-day balance on the next row
+      ['2024-03-02', 'COFFEE', -4.5, 1750],
+    ]);
+
+    expect(checkRunningBalance(content)).toEqual({
+      check: { rowsChecked: 2, issueCount: 0, issues: [] },
+      warnings: [],
+    });
+  });
+
+  it('reports a row the balance does not explain', () => {
+    const content = statement([
+      ['2024-03-01', 'SALARY', 2500, 3000],
+      ['2024-03-02', 'RENT', -1200, 1800],
+      ['2024-03-05', 'GROCERIES', -45.5, 1654.5], // A 100.00 debit is missing before this row
+      ['2024-03-06', 'COFFEE', -4.5, 1650],
+    ]);
+
+    const { check, warnings } = checkRunningBalance(content);
+
+    expect(check?.issues).toEqual([
+      expect.objectContaining({ row: 3, expectedBalance: 1754.5, balance: 1654.5, kind: 'gap' }),
+    ]);
+    expect(warnings).toEqual([
+      "1 row doesn't follow the running balance - transactions may be missing or out of order.",
+    ]);
+  });
+
+  it('recognizes a row printed twice', () => {
+    const content = statement([
+      ['2024-03-01', 'SALARY', 2500, 3000],
+      ['2024-03-02', 'RENT', -1200, 1800],
+      ['2024-03-02', 'RENT', -1200, 1800],
+      ['2024-03-03', 'COFFEE', -4.5, 1795.5],
+    ]);
+
+    const { check, warnings } = checkRunningBalance(content);
+
+    expect(check?.issues.map((issue) => [issue.row, issue.kind])).toEqual([[3, 'duplicate']]);
+    expect(warnings).toEqual(['1 row appears twice according to the running balance.']);
+  });
+
+  it('follows a newest-first card statement whose balance grows with debits', () => {
+    const content = statement([
+      ['2024-03-04', 'PAYMENT THANK YOU', 300, 120],
+      ['2024-03-03', 'AIRLINE', -350, 420],
+      ['2024-03-02', 'CAFE', -20, 70],
+      ['2024-03-01', 'BOOKSHOP', -50, 50],
+    ]);
+
+    expect(checkRunningBalance(content).check?.issueCount).toBe(0);
+  });
+
+  it('skips statements without a usable balance column', () => {
+    const tooFew = statement([
+      ['2024-03-01', 'SALARY', 2500, 3000],
+      ['2024-03-02', 'RENT', -1200, 1800],
+    ]);
+    const notABalance = statement([
+      ['2024-03-01', 'SALARY', 2500, 17],
+      ['2024-03-02', 'RENT', -1200, 942],
+      ['2024-03-03', 'CAFE', -20, 5],
+      ['2024-03-04', 'BOOKSHOP', -50, 311],
+    ]);
+
+    expect(checkRunningBalance(tooFew)).toEqual({ check: null, warnings: [] });
+    expect(checkRunningBalance(notABalance)).toEqual({ check: null, warnings: [] });
+  });
+});
@@ -0,0 +1,122 @@
+// Row-by-row checks against a statement's running balance column
+
+import type { BalanceIssue, RunningBalanceCheck } from '../types';
+import { roundMoney } from '../utils/money';
+import { parseCanonicalCSV, type CanonicalTransaction } from './canonical';
+
+// Balances closer than this are equal (rounding in the export)
+const BALANCE_TOLERANCE = 0.01;
+
+// Fewest rows with a balance worth checking
+const MIN_BALANCE_ROWS = 3;
+
+// Problem rows kept in the result - the count covers the rest
+const MAX_REPORTED_ISSUES = 20;
+
+interface BalanceRow {
+  row: number;
+  transaction: CanonicalTransaction;
+}
+
+/**
+ * Follow the balance through rows in chronological order
+ * Rows without a printed balance (end-of-day balances) are carried into the next one that has it
+ */
+function walkBalances(rows: BalanceRow[], creditSign: 1 | -1): BalanceIssue[] {
+  const issues: BalanceIssue[] = [];
+  let previous: BalanceRow | null = null;
+  let movement = 0;
+
+  for (const current of rows) {
+    const { transaction } = current;
+    movement += (transaction.type === 'credit' ? creditSign : -creditSign) * transaction.amount;
+    if (transaction.balance === undefined) continue;
+
+    const last: CanonicalTransaction | undefined = previous?.transaction;
+    if (last?.balance !== undefined) {
+      const expectedBalance = roundMoney(last.balance + movement, transaction.currency);
+      if (Math.abs(expectedBalance - transaction.balance) > BALANCE_TOLERANCE) {
+        // The same row printed twice leaves the balance where it was
+        const isDuplicate =
+          Math.abs(transaction.balance - last.balance) <= BALANCE_TOLERANCE &&
+          transaction.date === last.date &&
+          transaction.amount === last.amount &&
+          transaction.type === last.type;
+
+        issues.push({
+          row: current.row,
+          date: transaction.date,
+          description: transaction.description,
+          amount: transaction.amount,
+          type: transaction.type,
+          balance: transaction.balance,
+          expectedBalance,
+          kind: isDuplicate ? 'duplicate' : 'gap',
+        });
+      }
+    }
+
+    previous = current;
+    movement = 0;
+  }
+
+  return issues;
+}
+
+/**
+ * Check each row's printed balance against the previous balance and the row's amount
+ * Statements may list newest first, and card balances grow with debits while bank
+ * balances grow with credits - the reading that explains the most rows is used
+ * Returns a null check when the statement has no usable running balance
+ */
+export function checkRunningBalance(content: string): {
+  check: RunningBalanceCheck | null;
+  warnings: string[];
+} {
+  const rows: BalanceRow[] = parseCanonicalCSV(content)
+    .map((transaction, index) => ({ row: index + 1, transaction }))
+    // Failed and pending transactions never reach the balance
+    .filter(({ transaction }) => transaction.status !== 'failed' && transaction.status !== 'pending');
+
+  const balanced = rows.filter(({ transaction }) => transaction.balance !== undefined).length;
+  if (balanced < MIN_BALANCE_ROWS) {
+    return { check: null, warnings: [] };
+  }
+  // The first balance has nothing to follow from
+  const rowsChecked = balanced - 1;
+
+  const chronological = [rows, [...rows].reverse()];
+  const issues = chronological
+    .flatMap((ordered) => [walkBalances(ordered, 1), walkBalances(ordered, -1)])
+    .reduce((best, candidate) => (candidate.length < best.length ? candidate : best));
+
+  // Most rows disagree in every reading - the column isn't a running balance
+  if (issues.length > rowsChecked / 2) {
+    return { check: null, warnings: [] };
+  }
+
+  issues.sort((a, b) => a.row - b.row);
+  const duplicates = issues.filter((issue) => issue.kind === 'duplicate').length;
+  const warnings: string[] = [];
+
+  if (issues.length > duplicates) {
+    const count = issues.length - duplicates;
+    warnings.push(
+      `${count} ${count === 1 ? "row doesn't" : "rows don't"} follow the running balance - transactions may be missing or out of order.`
+    );
+  }
+  if (duplicates > 0) {
+    warnings.push(
+      `${duplicates} row${duplicates === 1 ? ' appears' : 's appear'} twice according to the running balance.`
+    );
+  }
+
+  return {
+    check: {
+      rowsChecked,
+      issueCount: issues.length,
+      issues: issues.slice(0, MAX_REPORTED_ISSUES),
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { splitForAnalysis } from '../ai/result-merger';
+import { sanitizeCSVContent } from '../utils/sanitizer';
+import { prepareAnalysisInput } from './statement-merger';
+
+/** Canonical CSV with one purchase per row, each with its own amount */
+function canonicalStatement(rows: number): string {
+  const lines = Array.from({ length: rows }, (_, index) => {
+    const day = String((index % 28) + 1).padStart(2, '0');
+    return `2024-01-${day},PURCHASE ${index},${index + 1}.00,debit,completed,INR`;
+  });
+  return ['Date,Description,Amount,Type,Status,Currency', ...lines].join('\n');
+}
+
+describe('prepareAnalysisInput', () => {
+  it('keeps every row of a large statement for chunked analysis', () => {
+    const content = sanitizeCSVContent(canonicalStatement(25000));
+    const input = prepareAnalysisInput([{ fileName: 'large.csv', fileType: 'csv', content }]);
+
+    const chunks = splitForAnalysis(input.content);
+    const analyzedRows = chunks.reduce((total, chunk) => total + chunk.split('\n').length - 1, 0);
+    expect(analyzedRows).toBe(25000);
+    expect(chunks[chunks.length - 1]).toContain('PURCHASE 24999,');
+  });
+});
@@ -0,0 +1,137 @@
+// Merging several uploaded statements into one de-duplicated transaction list
+
+import { AppError, isAppError } from '../errors';
+import type { DetectedProfile, SourceFile, StatementFileType } from '../types';
+import { formatMoneyValue } from '../utils/money';
+import { validateCSVStructure } from '../validators/content-validator';
+import {
+  parseCanonicalCSV,
+  toCanonicalCSV,
+  type CanonicalTransaction,
+} from './canonical';
+
+// Most statements accepted in one analysis (files inside a ZIP count individually)
+export const MAX_STATEMENT_FILES = 12;
+
+export interface StatementInput {
+  fileName: string;
+  fileType: StatementFileType;
+  content: string; // Canonical CSV for this file
+  csvProfile?: DetectedProfile;
+}
+
+/**
+ * Key identifying the same transaction across statements
+ * Descriptions are compared loosely since exports differ in spacing and punctuation
+ */
+function transactionKey(transaction: CanonicalTransaction): string {
+  return [
+    transaction.date,
+    formatMoneyValue(transaction.amount, transaction.currency),
+    transaction.type,
+    transaction.description.toLowerCase().replace(/[^a-z0-9]+/g, ''),
+  ].join('|');
+}
+
+/**
+ * Earliest and latest date in a set of transactions
+ */
+function getDateRange(transactions: CanonicalTransaction[]): {
+  from: string;
+  to: string;
+} {
+  const dates = transactions
+    .map((transaction) => transaction.date)
+    .filter(Boolean)
+    .sort();
+  return { from: dates[0] || '', to: dates[dates.length - 1] || '' };
+}
+
+/**
+ * Merge canonical statements, tagging each row with its source file
+ * A row is dropped as a duplicate only when an earlier file already holds an unmatched copy,
+ * so repeated purchases within one statement are kept
+ */
+export function mergeStatements(inputs: StatementInput[]): {
+  content: string;
+  sourceFiles: SourceFile[];
+} {
+  const tagSources = inputs.length > 1;
+  const merged: CanonicalTransaction[] = [];
+  const sourceFiles: SourceFile[] = [];
+  // Copies of each transaction seen in earlier files, not yet matched by a later file
+  const earlierCopies = new Map<string, number>();
+
+  for (const input of inputs) {
+    const transactions = parseCanonicalCSV(input.content);
+    const kept: CanonicalTransaction[] = [];
+    const fileCopies = new Map<string, number>();
+    let duplicatesRemoved = 0;
+
+    for (const transaction of transactions) {
+      const key = transactionKey(transaction);
+      const available = earlierCopies.get(key) || 0;
+
+      if (available > 0) {
+        earlierCopies.set(key, available - 1);
+        duplicatesRemoved++;
+        continue;
+      }
+
+      fileCopies.set(key, (fileCopies.get(key) || 0) + 1);
+      // Running balances are checked per statement and mean nothing once merged
+      const row = { ...transaction, balance: undefined };
+      kept.push(tagSources ? { ...row, source: input.fileName } : row);
+    }
+
+    // Only later files are checked against this one
+    fileCopies.forEach((count, key) => {
+      earlierCopies.set(key, (earlierCopies.get(key) || 0) + count);
+    });
+
+    merged.push(...kept);
+    sourceFiles.push({
+      fileName: input.fileName,
+      fileType: input.fileType,
+      transactionCount: kept.length,
+      duplicatesRemoved,
+      dateRange: getDateRange(transactions),
+      ...(input.csvProfile && { csvProfile: input.csvProfile }),
+    });
+  }
+
+  // One chronological history across all statements
+  if (tagSources) {
+    merged.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return { content: toCanonicalCSV(merged), sourceFiles };
+}
+
+/**
+ * Merge prepared statements into the content sent for analysis
+ * Checks the merged table can be analyzed - every row is kept, and large tables are analyzed in chunks
+ */
+export function prepareAnalysisInput(inputs: StatementInput[]): {
+  content: string;
+  sourceFiles: SourceFile[];
+  csvProfile?: DetectedProfile;
+} {
+  // Merge statements, dropping rows repeated where statement periods overlap
+  const merged = mergeStatements(inputs);
+
+  try {
+    validateCSVStructure(merged.content);
+  } catch (error) {
+    if (isAppError(error)) {
+      throw error;
+    }
+    throw new AppError('PARSE_ERROR', 'Failed to validate content structure');
+  }
+
+  return {
+    content: merged.content,
+    sourceFiles: merged.sourceFiles,
+    csvProfile: inputs.length === 1 ? inputs[0].csvProfile : undefined,
+  };
+}
@@ -0,0 +1,199 @@
+// Account details printed on statements and reconciliation of their balances
+
+import type { AccountType, BalanceReconciliation, StatementMetadata } from '../types';
+import { roundMoney, sumMoney } from '../utils/money';
+import { parseAmount, type ParsedAmount } from './amount-normalizer';
+import { parseCanonicalCSV } from './canonical';
+import { inferDateOrder, normalizeDate, type DateOrder } from './date-normalizer';
+
+// Largest balance difference put down to rounding
+const BALANCE_TOLERANCE = 1;
+
+// Only separators and a currency may sit between a label and its amount - all on one line
+// A date after the label (a table header followed by its first row) is not an amount
+const LABELED_AMOUNT =
+  '[ \\t:=]*(?:Rs\\.?|INR|USD|EUR|GBP|[₹$€£])?[ \\t]*(\\(?-?\\d[\\d,.]*\\d\\)?(?:[ \\t]*(?:Dr|Cr)\\b)?)' +
+  '(?![/.-]?\\d|[ \\t-]+(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?[ \\t,-]+\\d)';
+
+// Printed dates: ISO, numeric, "15 Jan 2024" and "Jan 15, 2024"
+const DATE_TEXT =
+  '(\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{1,2}(?:st|nd|rd|th)?[ \\t-]+[A-Za-z]{3,9}\\.?,?[ \\t-]+\\d{2,4}|[A-Za-z]{3,9}\\.?[ \\t]+\\d{1,2},?[ \\t]+\\d{4})';
+
+const CARD_NUMBER =
+  /(?:card|account)\s*(?:number|no\.?|ending(?:\s+in)?)\s*[:#.]?\s*(?:[\dXx*•]+[ \t-]+){0,3}[\dXx*•]*?(\d{4})\b/i;
+
+const BILLING_PERIOD = new RegExp(
+  `(?:(?:statement|billing)\\s+(?:period|cycle)|statement\\s+from|period\\s+from|opening\\s*/\\s*closing\\s+date)[ \\t:]*(?:from[ \\t]+)?${DATE_TEXT}[ \\t]*(?:-|–|to)[ \\t]*${DATE_TEXT}`,
+  'i'
+);
+
+const DUE_DATE = new RegExp(`(?:payment\\s+)?due\\s+date[ \\t:]*${DATE_TEXT}`, 'i');
+
+const BALANCE_LABELS = {
+  openingBalance:
+    'previous\\s+(?:statement\\s+)?balance|opening\\s+balance|balance\\s+(?:b/f|brought\\s+forward)',
+  closingBalance:
+    'closing\\s+balance|new\\s+balance|statement\\s+balance|balance\\s+(?:c/f|carried\\s+forward)',
+  totalDue: 'total\\s+(?:amount\\s+|payment\\s+)?dues?',
+  minimumDue: 'min(?:imum)?\\.?\\s+(?:amount\\s+|payment\\s+)?due',
+};
+
+// Wording only found on one kind of statement - phrases that also turn up in
+// transaction descriptions (e.g. "CREDIT CARD PAYMENT" on a bank statement) are left out
+const ACCOUNT_TYPE_MARKERS: Record<AccountType, RegExp[]> = {
+  credit_card: [
+    /credit\s+card\s+(?:statement|no\b|number)/i,
+    /credit\s+limit/i,
+    /payment\s+due\s+date/i,
+    /min(?:imum)?\.?\s+(?:amount\s+|payment\s+)?due/i,
+    /card\s*member/i,
+  ],
+  bank_account: [
+    /(?:savings|current|checking|cheque)\s+account/i,
+    /statement\s+of\s+account/i,
+    /\bIFSC\b|\bIBAN\b|\bsort\s+code\b|\brouting\s+number\b/i,
+    /available\s+balance/i,
+  ],
+};
+
+/**
+ * Tell a credit card statement from a bank account statement by its wording
+ * Returns undefined when the wording is missing or points both ways equally
+ */
+function detectAccountType(text: string): AccountType | undefined {
+  const [card, bank] = (['credit_card', 'bank_account'] as const).map(
+    (type) => ACCOUNT_TYPE_MARKERS[type].filter((pattern) => pattern.test(text)).length
+  );
+  if (card === bank) return undefined;
+  return card > bank ? 'credit_card' : 'bank_account';
+}
+
+/**
+ * Find the amount printed after a label on the same line
+ */
+export function findLabeledAmount(text: string, label: string): ParsedAmount | null {
+  const match = text.match(new RegExp(`(?:${label})${LABELED_AMOUNT}`, 'i'));
+  return match ? parseAmount(match[1]) : null;
+}
+
+/**
+ * Read a printed balance - credit balances (Cr or negative) are negative
+ */
+function findBalance(text: string, label: string): number | undefined {
+  const parsed = findLabeledAmount(text, label);
+  if (!parsed) return undefined;
+  return parsed.negative || parsed.indicator === 'credit' ? -parsed.value : parsed.value;
+}
+
+/**
+ * Read the card or account number's last four digits, the statement period,
+ * balances and due date printed on a statement
+ * Works on PDF text and on the banner rows of CSV exports joined into lines
+ */
+export function extractStatementMetadata(
+  text: string,
+  options: { issuer?: string; dateOrder?: DateOrder } = {}
+): StatementMetadata {
+  const numericDates = text.match(/\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/g) || [];
+  const order = options.dateOrder ?? inferDateOrder(numericDates).order;
+  const metadata: StatementMetadata = {};
+
+  if (options.issuer) metadata.issuer = options.issuer;
+
+  const accountType = detectAccountType(text);
+  if (accountType) metadata.accountType = accountType;
+
+  const card = text.match(CARD_NUMBER);
+  if (card) metadata.cardLastFour = card[1];
+
+  const period = text.match(BILLING_PERIOD);
+  const from = period ? normalizeDate(period[1], order) : null;
+  const to = period ? normalizeDate(period[2], order) : null;
+  if (from && to) metadata.billingPeriod = { from, to };
+
+  for (const [field, label] of Object.entries(BALANCE_LABELS) as Array<
+    [keyof typeof BALANCE_LABELS, string]
+  >) {
+    const value = findBalance(text, label);
+    if (value !== undefined) metadata[field] = value;
+  }
+
+  const due = text.match(DUE_DATE);
+  const dueDate = due ? normalizeDate(due[1], order) : null;
+  if (dueDate) metadata.dueDate = dueDate;
+
+  return metadata;
+}
+
+/**
+ * Check whether a statement printed anything beyond its issuer and kind of account
+ */
+export function hasStatementDetails(metadata: StatementMetadata): boolean {
+  return Object.keys(metadata).some(
+    (key) => key !== 'issuer' && key !== 'fileName' && key !== 'accountType'
+  );
+}
+
+/**
+ * Format an amount for a warning message
+ */
+function formatBalance(value: number): string {
+  return value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+/**
+ * Check the statement's transactions against its printed opening and closing balance
+ * Card balances grow with debits and bank balances with credits - whichever the
+ * statement follows is the one that matches
+ */
+export function reconcileStatement(
+  metadata: StatementMetadata,
+  content: string
+): { metadata: StatementMetadata; warnings: string[] } {
+  const openingBalance = metadata.openingBalance;
+  const closingBalance = metadata.closingBalance ?? metadata.totalDue;
+  if (openingBalance === undefined || closingBalance === undefined) {
+    return { metadata, warnings: [] };
+  }
+
+  // Failed and pending transactions never reach the balance
+  const posted = parseCanonicalCSV(content).filter(
+    (transaction) => transaction.status !== 'failed' && transaction.status !== 'pending'
+  );
+  const currency = posted[0]?.currency;
+  const totalOf = (type: 'debit' | 'credit') =>
+    sumMoney(
+      posted
+        .filter((transaction) => transaction.type === type)
+        .map((transaction) => transaction.amount),
+      currency
+    );
+  const debits = totalOf('debit');
+  const credits = totalOf('credit');
+
+  const expected = [
+    roundMoney(openingBalance + debits - credits, currency),
+    roundMoney(openingBalance - debits + credits, currency),
+  ].sort((a, b) => Math.abs(closingBalance - a) - Math.abs(closingBalance - b))[0];
+
+  const difference = roundMoney(closingBalance - expected, currency);
+  const reconciliation: BalanceReconciliation = {
+    openingBalance,
+    closingBalance,
+    debits,
+    credits,
+    difference,
+    matches: Math.abs(difference) <= BALANCE_TOLERANCE,
+  };
+
+  const warnings = reconciliation.matches
+    ? []
+    : [
+        `The transactions take the balance from ${formatBalance(openingBalance)} to ${formatBalance(expected)}, but the statement's closing balance is ${formatBalance(closingBalance)} - some transactions may be missing.`,
+      ];
+
+  return { metadata: { ...metadata, reconciliation }, warnings };
+}
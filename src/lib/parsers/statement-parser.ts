@@ -0,0 +1,42 @@
+// Dispatch for text-based statement formats that carry typed fields
+
+import type { StatementFileType } from '../types';
+import { parseOFX } from './ofx-parser';
+import { parseCamt053 } from './camt053-parser';
+import { parseMT940 } from './mt940-parser';
+
+// Canonical CSV of a structured statement, with warnings about anything left out
+export interface StructuredStatement {
+  content: string;
+  warnings: string[];
+}
+
+// Formats converted locally to canonical CSV (no column guessing needed)
+const STRUCTURED_PARSERS: Partial<
+  Record<StatementFileType, (content: string) => StructuredStatement>
+> = {
+  ofx: parseOFX,
+  camt053: (content) => ({ content: parseCamt053(content), warnings: [] }),
+  mt940: (content) => ({ content: parseMT940(content), warnings: [] }),
+};
+
+/**
+ * Check whether a file type is handled by a structured parser
+ */
+export function isStructuredStatementType(fileType: StatementFileType): boolean {
+  return fileType in STRUCTURED_PARSERS;
+}
+
+/**
+ * Convert a structured statement (OFX, camt.053, MT940) to canonical CSV
+ */
+export function parseStructuredStatement(
+  content: string,
+  fileType: StatementFileType
+): StructuredStatement {
+  const parser = STRUCTURED_PARSERS[fileType];
+  if (!parser) {
+    throw new Error(`No structured parser for file type: ${fileType}`);
+  }
+  return parser(content);
+}
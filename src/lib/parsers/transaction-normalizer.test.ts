@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { detectColumnsInCSV, normalizeTransactions } from './transaction-normalizer';
+
+// HDFC Bank account export: debit and credit columns next to a column of short reference numbers
+const HDFC_EXPORT = [
+  'Date,Narration,Chq./Ref.No.,Value Dt,Withdrawal Amt.,Deposit Amt.,Closing Balance',
+  '01/03/24,UPI-SWIGGY-SWIGGY@ICICI,406112,01/03/24,450.00,,52550.00',
+  '02/03/24,NEFT CR-ACME PAYROLL,406298,02/03/24,,85000.00,137550.00',
+  '05/03/24,POS 4321XXXXXX NETFLIX,406512,05/03/24,649.00,,136901.00',
+  '07/03/24,ATW-4321XXXXXX-ATM WDL,406755,07/03/24,2000.00,,134901.00',
+  '09/03/24,UPI-ZOMATO-ZOMATO@HDFC,406967,09/03/24,320.00,,134581.00',
+].join('\n');
+
+describe('detectColumnsInCSV', () => {
+  it('does not take an unlabeled numeric column as the amount next to debit and credit columns', () => {
+    const { columns } = detectColumnsInCSV(HDFC_EXPORT);
+
+    expect(columns.amount).toBeUndefined();
+    expect(columns.debit).toBe(4);
+    expect(columns.credit).toBe(5);
+    expect(columns.balance).toBe(6);
+  });
+
+  it('reads amounts from the debit and credit columns', () => {
+    const rows = normalizeTransactions(HDFC_EXPORT).content.split('\n').slice(1);
+
+    expect(rows[0]).toMatch(/^2024-03-01,UPI-SWIGGY-SWIGGY@ICICI,450\.00,debit,/);
+    expect(rows[1]).toMatch(/^2024-03-02,NEFT CR-ACME PAYROLL,85000\.00,credit,/);
+  });
+});
+
+// Card export with account details printed above the transaction table
+const BANNER_EXPORT = [
+  'Card ending 1234',
+  'Statement period 01/01/2024 - 31/01/2024',
+  '',
+  'Date,Description,Amount',
+  '15/01/2024,NETFLIX,15.99',
+  '18/01/2024,TESCO STORES,42.10',
+  '21/01/2024,SPOTIFY,9.99',
+].join('\n');
+
+describe('normalizeTransactions', () => {
+  it('finds the header below banner rows', () => {
+    const { mapping, content } = normalizeTransactions(BANNER_EXPORT);
+    const rows = content.split('\n').slice(1);
+
+    expect(mapping.header).toEqual(['Date', 'Description', 'Amount']);
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatch(/^2024-01-15,NETFLIX,15\.99,/);
+  });
+});
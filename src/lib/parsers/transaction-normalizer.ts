@@ -0,0 +1,477 @@
+// Deterministic column detection and canonical transaction normalization
+
+import { AppError } from '../errors';
+import { tokenizeCSV } from '../utils/csv';
+import {
+  toCanonicalCSV,
+  parseStatusValue,
+  type CanonicalTransaction,
+} from './canonical';
+import {
+  parseAmount,
+  parseAmountValue,
+  normalizeAmount,
+  inferDebitSign,
+  inferDecimalSeparator,
+  DEBIT_INDICATORS,
+  CREDIT_INDICATORS,
+} from './amount-normalizer';
+import { normalizeDateColumn, type DateOrder } from './date-normalizer';
+import { linkFXFees, withForeignExchange } from './foreign-exchange';
+import { splitHeaderRow } from './header-row';
+
+export type ColumnRole =
+  | 'date'
+  | 'description'
+  | 'amount'
+  | 'debit'
+  | 'credit'
+  | 'type'
+  | 'currency'
+  | 'status'
+  | 'category'
+  | 'balance'
+  | 'originalAmount'
+  | 'originalCurrency'
+  | 'fxRate'
+  | 'fxFee';
+
+export interface ColumnMapping {
+  header: string[];
+  columns: Partial<Record<ColumnRole, number>>;
+}
+
+// Rows sampled when scoring value patterns
+const SAMPLE_ROWS = 50;
+
+// Minimum combined score for a column to be assigned a role
+const MIN_ROLE_SCORE = 2;
+
+// Header keywords per role, with their weight
+// Exact matches count double, so "Date" beats "Value Date"
+const HEADER_KEYWORDS: Record<ColumnRole, Array<[string, number]>> = {
+  date: [
+    ['transaction date', 4],
+    ['txn date', 4],
+    ['date', 3],
+    ['posted', 2],
+    ['posting', 2],
+    ['time', 1],
+    ['dt', 1],
+    ['datum', 3],
+    ['buchungstag', 4],
+    ['buchungsdatum', 4],
+    ['date operation', 4],
+    ['fecha', 3],
+  ],
+  description: [
+    ['description', 4],
+    ['narration', 4],
+    ['particulars', 4],
+    ['transaction details', 4],
+    ['details', 3],
+    ['merchant', 3],
+    ['payee', 3],
+    ['remarks', 3],
+    ['memo', 2],
+    ['name', 2],
+    ['beneficiary', 2],
+    ['counterparty', 2],
+    ['verwendungszweck', 4],
+    ['buchungstext', 4],
+    ['auftraggeber', 3],
+    ['empfanger', 3],
+    ['libelle', 4],
+    ['concepto', 4],
+  ],
+  amount: [
+    ['amount', 4],
+    ['amt', 3],
+    ['value', 1],
+    ['sum', 1],
+    ['betrag', 4],
+    ['umsatz', 3],
+    ['montant', 4],
+    ['importe', 4],
+  ],
+  debit: [
+    ['debit', 4],
+    ['withdrawal', 4],
+    ['paid out', 4],
+    ['money out', 4],
+    ['outflow', 3],
+    ['dr', 2],
+    ['charge', 2],
+    ['soll', 4],
+    ['cargo', 3],
+  ],
+  credit: [
+    ['credit', 4],
+    ['deposit', 4],
+    ['paid in', 4],
+    ['money in', 4],
+    ['inflow', 3],
+    ['cr', 2],
+    ['haben', 4],
+    ['abono', 3],
+  ],
+  type: [
+    ['dr cr', 4],
+    ['cr dr', 4],
+    ['debit credit', 4],
+    ['indicator', 3],
+    ['type', 2],
+    ['sign', 2],
+  ],
+  currency: [
+    ['currency', 4],
+    ['ccy', 4],
+    ['curr', 3],
+    ['cur', 2],
+    ['wahrung', 4],
+    ['devise', 4],
+    ['moneda', 4],
+  ],
+  status: [
+    ['status', 4],
+    ['state', 3],
+  ],
+  category: [['category', 4]],
+  balance: [
+    ['balance', 4],
+    ['saldo', 4],
+  ],
+  originalAmount: [
+    ['original amount', 4],
+    ['orig amount', 4],
+    ['foreign amount', 4],
+    ['foreign currency amount', 4],
+    ['amount in foreign currency', 4],
+    ['amount foreign currency', 4],
+    ['fx amount', 4],
+  ],
+  originalCurrency: [
+    ['original currency', 4],
+    ['orig currency', 4],
+    ['foreign currency', 4],
+    ['fx currency', 4],
+  ],
+  fxRate: [
+    ['exchange rate', 4],
+    ['conversion rate', 4],
+    ['fx rate', 4],
+    ['forex rate', 4],
+  ],
+  fxFee: [
+    ['fx fee', 4],
+    ['forex fee', 4],
+    ['foreign transaction fee', 4],
+    ['foreign exchange fee', 4],
+    ['conversion fee', 4],
+    ['markup', 3],
+    ['markup fee', 4],
+  ],
+};
+
+const STATUS_WORDS =
+  /^(completed?|posted|settled|cleared|success(ful)?|sent|failed|declined|rejected|reverted|cancell?ed|pending|processing|on hold)$/i;
+
+const DATE_PATTERN =
+  /^(\d{1,4}[/.\-]\d{1,2}[/.\-]\d{1,4}|\d{1,2}[\s\-/][A-Za-z]{3,9}[\s\-/,]+\d{2,4}|[A-Za-z]{3,9}\s+\d{1,2},?\s+\d{4}|\d{8})/;
+
+const AMOUNT_PATTERN = /^(cr|dr)?\.?\s*[(+\-]?\s*[^\d\s]{0,4}\s*-?[\d.,' ]*\d\s*\)?\s*-?\s*(cr|dr|db)?\.?$/i;
+
+// Roles assigned in this order so specific columns are claimed before generic ones
+const ROLE_ORDER: ColumnRole[] = [
+  'balance',
+  'originalAmount',
+  'originalCurrency',
+  'fxRate',
+  'fxFee',
+  'date',
+  'debit',
+  'credit',
+  'amount',
+  'currency',
+  'status',
+  'type',
+  'category',
+  'description',
+];
+
+/**
+ * Normalize a header cell for keyword matching
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // "Libellé" -> "Libelle", "Währung" -> "Wahrung"
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Score a header against a role's keywords (whole-word matches only)
+ */
+function scoreHeader(header: string, role: ColumnRole): number {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return 0;
+
+  let best = 0;
+  for (const [keyword, weight] of HEADER_KEYWORDS[role]) {
+    if (normalized === keyword) {
+      best = Math.max(best, weight * 2);
+    } else if (` ${normalized} `.includes(` ${keyword} `)) {
+      best = Math.max(best, weight);
+    }
+  }
+  return best;
+}
+
+/**
+ * Fraction of non-empty values matching a predicate
+ */
+function matchRatio(values: string[], predicate: (value: string) => boolean): number {
+  const filled = values.filter((value) => value.trim().length > 0);
+  if (filled.length === 0) return 0;
+  return filled.filter((value) => predicate(value.trim())).length / filled.length;
+}
+
+/**
+ * Score a column's values for a role (0-4)
+ */
+function scoreValues(values: string[], role: ColumnRole): number {
+  switch (role) {
+    case 'date':
+      return matchRatio(values, (v) => DATE_PATTERN.test(v)) * 4;
+    case 'amount':
+    case 'debit':
+    case 'credit':
+    case 'balance':
+    case 'originalAmount':
+    case 'fxRate':
+    case 'fxFee':
+      return (
+        matchRatio(
+          values,
+          (v) => AMOUNT_PATTERN.test(v) && parseAmount(v) !== null && !DATE_PATTERN.test(v)
+        ) * 3
+      );
+    case 'description':
+      return (
+        matchRatio(values, (v) => /[A-Za-z]{2,}/.test(v) && v.length > 3) * 2 +
+        Math.min(new Set(values).size / Math.max(values.length, 1), 1)
+      );
+    case 'type':
+      return (
+        matchRatio(values, (v) =>
+          [...DEBIT_INDICATORS, ...CREDIT_INDICATORS].includes(v.toLowerCase())
+        ) * 4
+      );
+    case 'currency':
+    case 'originalCurrency':
+      return matchRatio(values, (v) => /^[A-Z]{3}$/.test(v)) * 4;
+    case 'status':
+      return matchRatio(values, (v) => STATUS_WORDS.test(v)) * 4;
+    case 'category':
+      return 0; // Free text - rely on the header
+  }
+}
+
+/**
+ * Find the date, amount, description, type, currency and status columns
+ * by combining header keywords with the patterns of the values below them
+ */
+export function detectColumns(header: string[], rows: string[][]): ColumnMapping {
+  const sample = rows.slice(0, SAMPLE_ROWS);
+  const columnValues = header.map((_, index) => sample.map((row) => row[index] || ''));
+  const used = new Set<number>();
+  const columns: Partial<Record<ColumnRole, number>> = {};
+
+  for (const role of ROLE_ORDER) {
+    let bestIndex = -1;
+    let bestScore = 0;
+
+    header.forEach((name, index) => {
+      if (used.has(index)) return;
+
+      const headerScore = scoreHeader(name, role);
+      const valueScore = scoreValues(columnValues[index], role);
+
+      // Money and foreign currency columns need a matching header; everything else needs matching values too
+      const needsHeader = [
+        'debit',
+        'credit',
+        'balance',
+        'originalAmount',
+        'originalCurrency',
+        'fxRate',
+        'fxFee',
+      ].includes(role);
+      if (needsHeader && headerScore === 0) return;
+      if (role === 'category' && headerScore === 0) return;
+      // Next to debit and credit columns, an unlabeled numeric column is a reference or
+      // cheque number - only a column headed as an amount is one
+      const hasDebitCredit = columns.debit !== undefined || columns.credit !== undefined;
+      if (role === 'amount' && hasDebitCredit && headerScore === 0) return;
+      if (role !== 'description' && role !== 'category' && valueScore < 1) return;
+
+      const score = headerScore + valueScore;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex >= 0 && bestScore >= MIN_ROLE_SCORE) {
+      columns[role] = bestIndex;
+      used.add(bestIndex);
+    }
+  }
+
+  // A lone debit column (e.g. "Debit/Credit") is really a signed amount
+  if (columns.amount === undefined && columns.debit !== undefined && columns.credit === undefined) {
+    columns.amount = columns.debit;
+    delete columns.debit;
+  }
+
+  return { header, columns };
+}
+
+/**
+ * Check that detection found the columns analysis cannot do without
+ */
+export function assertRequiredColumns(mapping: ColumnMapping): void {
+  const { columns, header } = mapping;
+
+  if (columns.date === undefined) {
+    throw new AppError('NO_DATE_COLUMN', `Headers: ${header.join(', ')}`);
+  }
+
+  if (
+    columns.amount === undefined &&
+    columns.debit === undefined &&
+    columns.credit === undefined
+  ) {
+    throw new AppError('NO_AMOUNT_COLUMN', `Headers: ${header.join(', ')}`);
+  }
+}
+
+/**
+ * Parse CSV content into a header row and data rows, skipping banner rows above the header
+ */
+function parseRows(content: string): { header: string[]; rows: string[][] } {
+  const { header, rows } = splitHeaderRow(tokenizeCSV(content));
+  return { header: header.map((cell) => cell.trim()), rows };
+}
+
+/**
+ * Detect columns directly from CSV content
+ */
+export function detectColumnsInCSV(content: string): ColumnMapping {
+  const { header, rows } = parseRows(content);
+  return detectColumns(header, rows);
+}
+
+/**
+ * Pick the day/month order to assume when the dates themselves can't tell
+ * US dollar statements are month-first, nearly everything else is day-first
+ */
+function fallbackDateOrder(currencies: string[]): DateOrder {
+  const usd = currencies.filter((code) => code.toUpperCase() === 'USD').length;
+  return usd > 0 && usd >= currencies.length / 2 ? 'MDY' : 'DMY';
+}
+
+/**
+ * Rewrite any statement CSV to the canonical
+ * Date,Description,Amount,Type,Status,Currency table with ISO dates
+ */
+export function normalizeTransactions(content: string): {
+  content: string;
+  mapping: ColumnMapping;
+  warnings: string[];
+} {
+  const { header, rows } = parseRows(content);
+  const mapping = detectColumns(header, rows);
+  assertRequiredColumns(mapping);
+
+  const { columns } = mapping;
+  const cell = (row: string[], role: ColumnRole) =>
+    columns[role] !== undefined ? (row[columns[role]!] || '').trim() : '';
+
+  const optionalCell = (row: string[], role: ColumnRole) =>
+    columns[role] !== undefined ? cell(row, role) : undefined;
+  const debitSign =
+    columns.amount !== undefined
+      ? inferDebitSign(rows.map((row) => cell(row, 'amount')))
+      : undefined;
+  const decimalSeparator = inferDecimalSeparator(
+    rows.flatMap((row) => [
+      cell(row, 'amount'),
+      cell(row, 'debit'),
+      cell(row, 'credit'),
+      cell(row, 'balance'),
+      cell(row, 'originalAmount'),
+      cell(row, 'fxFee'),
+    ])
+  );
+
+  const currencies = rows.map((row) => cell(row, 'currency')).filter(Boolean);
+  const dateColumn = normalizeDateColumn(
+    rows.map((row) => cell(row, 'date')),
+    fallbackDateOrder(currencies)
+  );
+
+  const transactions: CanonicalTransaction[] = [];
+
+  rows.forEach((row, index) => {
+    const date = dateColumn.dates[index];
+    if (!date) return; // Totals, footers and notes
+
+    const normalized = normalizeAmount(
+      {
+        amount: optionalCell(row, 'amount'),
+        debit: optionalCell(row, 'debit'),
+        credit: optionalCell(row, 'credit'),
+        indicator: optionalCell(row, 'type'),
+      },
+      { debitSign, decimalSeparator }
+    );
+    if (!normalized) return;
+
+    const transaction: CanonicalTransaction = {
+      date,
+      description: cell(row, 'description') || 'Unknown',
+      amount: Math.abs(normalized.amount),
+      type: normalized.type,
+      status:
+        columns.status !== undefined ? parseStatusValue(cell(row, 'status')) : undefined,
+      currency: cell(row, 'currency') || undefined,
+      category: cell(row, 'category') || undefined,
+      balance: parseAmountValue(cell(row, 'balance'), decimalSeparator) ?? undefined,
+    };
+
+    transactions.push(
+      withForeignExchange(transaction, {
+        originalAmount: parseAmount(cell(row, 'originalAmount'), decimalSeparator)?.value,
+        originalCurrency: cell(row, 'originalCurrency') || undefined,
+        fxRate: parseAmount(cell(row, 'fxRate'), decimalSeparator)?.value,
+        fxFee: parseAmount(cell(row, 'fxFee'), decimalSeparator)?.value,
+      })
+    );
+  });
+
+  if (transactions.length === 0) {
+    throw new AppError(
+      'NO_TRANSACTIONS',
+      'No rows with both a date and an amount were found'
+    );
+  }
+
+  return {
+    content: toCanonicalCSV(linkFXFees(transactions)),
+    mapping,
+    warnings: dateColumn.warning ? [dateColumn.warning] : [],
+  };
+}
@@ -0,0 +1,78 @@
+import { zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { isAppError } from '../errors';
+import { expandStatementFiles, expandZipFile, isZipFile } from './zip-parser';
+
+/** ZIP archive file holding the given text entries */
+function zipFile(name: string, entries: Record<string, string>): File {
+  const encoder = new TextEncoder();
+  const data = zipSync(
+    Object.fromEntries(
+      Object.entries(entries).map(([path, text]) => [path, encoder.encode(text)])
+    )
+  );
+  return new File([data as BlobPart], name);
+}
+
+/** Code of the AppError an async call rejects with */
+async function errorCode(run: () => Promise<unknown>): Promise<string | undefined> {
+  try {
+    await run();
+  } catch (error) {
+    return isAppError(error) ? error.userError.code : undefined;
+  }
+  return undefined;
+}
+
+describe('expandZipFile', () => {
+  it('extracts statements in name order and skips everything else', async () => {
+    const archive = zipFile('statements.zip', {
+      'march/2024-03.csv': 'Date,Description,Amount',
+      '2024-01.pdf': '%PDF-1.7',
+      'README.txt': 'Exported by Online Banking',
+      '.DS_Store': '',
+      '__MACOSX/._2024-01.pdf': '',
+    });
+
+    const files = await expandZipFile(archive);
+
+    expect(files.map((file) => file.name)).toEqual(['2024-01.pdf', '2024-03.csv']);
+    expect(await files[1].text()).toBe('Date,Description,Amount');
+  });
+
+  it('fails when the archive holds no statements', async () => {
+    const archive = zipFile('photos.zip', { 'notes.txt': 'nothing here' });
+
+    expect(await errorCode(() => expandZipFile(archive))).toBe('ZIP_UNREADABLE');
+  });
+
+  it('fails on data that is not a ZIP archive', async () => {
+    const archive = new File(['Date,Description,Amount'], 'statement.zip');
+
+    expect(await errorCode(() => expandZipFile(archive))).toBe('ZIP_UNREADABLE');
+  });
+
+  it('limits how many statements an archive may hold', async () => {
+    const entries = Object.fromEntries(
+      Array.from({ length: 13 }, (_, index) => [`${index + 1}.csv`, 'Date,Amount'])
+    );
+
+    expect(await errorCode(() => expandZipFile(zipFile('year.zip', entries)))).toBe(
+      'TOO_MANY_FILES'
+    );
+  });
+});
+
+describe('expandStatementFiles', () => {
+  it('replaces archives with their statements and keeps other files', async () => {
+    const csv = new File(['Date,Amount'], 'april.csv');
+    const archive = zipFile('q1.ZIP', { 'jan.csv': 'Date,Amount', 'feb.csv': 'Date,Amount' });
+
+    expect(isZipFile(archive)).toBe(true);
+    expect(isZipFile(csv)).toBe(false);
+
+    const files = await expandStatementFiles([csv, archive]);
+
+    expect(files.map((file) => file.name)).toEqual(['april.csv', 'feb.csv', 'jan.csv']);
+  });
+});
@@ -0,0 +1,124 @@
+// ZIP archive expansion for multi-statement uploads
+
+import { AppError } from '../errors';
+import { MAX_STATEMENT_FILES } from './statement-merger';
+
+// Guard against archives that expand far beyond their download size
+const MAX_UNCOMPRESSED_SIZE = 50 * 1024 * 1024; // 50MB
+
+// Extensions extracted from an archive - everything else is skipped
+const STATEMENT_EXTENSIONS = [
+  '.csv',
+  '.pdf',
+  '.xlsx',
+  '.xls',
+  '.ofx',
+  '.qfx',
+  '.xml',
+  '.sta',
+  '.mt940',
+  '.940',
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.heic',
+  '.heif',
+];
+
+/**
+ * Check whether a file is a ZIP archive by extension
+ */
+export function isZipFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip');
+}
+
+/**
+ * Check whether an archive entry is a statement worth extracting
+ * Skips folders, macOS resource forks and hidden files
+ */
+function isStatementEntry(path: string): boolean {
+  const name = path.split('/').pop() || '';
+  if (!name || name.startsWith('.') || path.startsWith('__MACOSX/')) {
+    return false;
+  }
+  return STATEMENT_EXTENSIONS.some((extension) =>
+    name.toLowerCase().endsWith(extension)
+  );
+}
+
+/**
+ * Extract the statements inside a ZIP archive as individual files
+ */
+export async function expandZipFile(file: File): Promise<File[]> {
+  // Loaded on demand - only needed when an archive is uploaded
+  const { unzipSync } = await import('fflate');
+  const data = new Uint8Array(await file.arrayBuffer());
+
+  let totalSize = 0;
+  let entries: Record<string, Uint8Array>;
+  try {
+    // Sizes come from the archive's own directory, checked before anything is inflated
+    unzipSync(data, {
+      filter: (entry) => {
+        if (isStatementEntry(entry.name)) totalSize += entry.originalSize;
+        return false;
+      },
+    });
+    if (totalSize > MAX_UNCOMPRESSED_SIZE) {
+      throw new AppError(
+        'FILE_TOO_LARGE',
+        `${file.name} expands to ${(totalSize / 1024 / 1024).toFixed(1)}MB`
+      );
+    }
+
+    entries = unzipSync(data, {
+      filter: (entry) => isStatementEntry(entry.name),
+    });
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new AppError('ZIP_UNREADABLE', `${file.name}: ${message}`);
+  }
+
+  const names = Object.keys(entries).sort();
+
+  if (names.length === 0) {
+    throw new AppError('ZIP_UNREADABLE', `${file.name}: no supported statements found`);
+  }
+
+  if (names.length > MAX_STATEMENT_FILES) {
+    throw new AppError(
+      'TOO_MANY_FILES',
+      `${file.name} contains ${names.length} statements, max ${MAX_STATEMENT_FILES}`
+    );
+  }
+
+  return names.map(
+    (name) =>
+      new File([entries[name] as BlobPart], name.split('/').pop() || name)
+  );
+}
+
+/**
+ * Replace any ZIP archives in a selection with the statements they contain
+ */
+export async function expandStatementFiles(files: File[]): Promise<File[]> {
+  const expanded: File[] = [];
+
+  for (const file of files) {
+    if (isZipFile(file)) {
+      expanded.push(...(await expandZipFile(file)));
+    } else {
+      expanded.push(file);
+    }
+  }
+
+  if (expanded.length > MAX_STATEMENT_FILES) {
+    throw new AppError(
+      'TOO_MANY_FILES',
+      `${expanded.length} statements selected, max ${MAX_STATEMENT_FILES}`
+    );
+  }
+
+  return expanded;
+}
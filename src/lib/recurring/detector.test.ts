@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { Transaction } from '../types';
+import { detectRecurringPayments } from './detector';
+
+/** Completed debit with the given details */
+function debit(
+  date: string,
+  description: string,
+  amount: number,
+  extra: Partial<Transaction> = {}
+): Transaction {
+  return {
+    id: `${date}-${description}`,
+    date,
+    description,
+    amount,
+    type: 'debit',
+    category: 'Entertainment',
+    isRecurring: false,
+    confidence: 0.9,
+    ...extra,
+  };
+}
+
+describe('detectRecurringPayments', () => {
+  it('finds a monthly plan charged on about the same day', () => {
+    const transactions = [
+      debit('2024-01-15', 'NETFLIX.COM 866-579-7172', 15.49),
+      debit('2024-02-14', 'NETFLIX.COM 866-579-7172', 15.49),
+      debit('2024-03-15', 'NETFLIX.COM 866-579-7172', 15.49),
+      debit('2024-04-16', 'NETFLIX.COM 866-579-7172', 15.49),
+    ];
+
+    const [pattern, ...rest] = detectRecurringPayments(transactions, 'USD');
+
+    expect(rest).toHaveLength(0);
+    expect(pattern).toMatchObject({
+      merchant: 'NETFLIX.COM 866-579-7172',
+      currency: 'USD',
+      frequency: 'monthly',
+      amount: 15.49,
+      amountVariation: 0,
+      occurrences: 4,
+      totalSpent: 61.96,
+      firstSeen: '2024-01-15',
+      lastSeen: '2024-04-16',
+    });
+    expect(pattern.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('groups charges whose descriptions differ only in reference numbers', () => {
+    const transactions = [
+      debit('2024-03-01', 'GYM CLUB REF 1001', 20),
+      debit('2024-03-15', 'GYM CLUB REF 1002', 20),
+      debit('2024-03-29', 'GYM CLUB REF 1003', 20),
+    ];
+
+    const [pattern] = detectRecurringPayments(transactions, 'USD');
+
+    expect(pattern).toMatchObject({ frequency: 'biweekly', occurrences: 3 });
+  });
+
+  it('reports gaps that fit no fixed frequency as a custom cycle', () => {
+    const transactions = ['2024-03-01', '2024-03-11', '2024-03-21', '2024-03-31'].map((date) =>
+      debit(date, 'WATER DELIVERY', 12)
+    );
+
+    const [pattern] = detectRecurringPayments(transactions, 'USD');
+
+    expect(pattern).toMatchObject({ frequency: 'custom', intervalDays: 10 });
+  });
+
+  it('keeps the same merchant in different currencies apart', () => {
+    const transactions = [
+      debit('2024-01-10', 'SPOTIFY', 10.99),
+      debit('2024-01-12', 'SPOTIFY', 9.99, { currency: 'EUR' }),
+      debit('2024-02-10', 'SPOTIFY', 10.99),
+      debit('2024-02-12', 'SPOTIFY', 9.99, { currency: 'EUR' }),
+      debit('2024-03-10', 'SPOTIFY', 10.99),
+      debit('2024-03-12', 'SPOTIFY', 9.99, { currency: 'EUR' }),
+    ];
+
+    const currencies = detectRecurringPayments(transactions, 'USD').map((p) => p.currency);
+
+    expect(currencies.sort()).toEqual(['EUR', 'USD']);
+  });
+
+  it('ignores shopping, credits, failed charges and irregular amounts', () => {
+    const monthly = ['2024-01-05', '2024-02-05', '2024-03-05'];
+    const transactions = [
+      ...monthly.map((date) => debit(date, 'CITY GROCER', 80, { category: 'Groceries' })),
+      ...monthly.map((date) => debit(date, 'INTEREST PAID', 3, { type: 'credit' })),
+      ...monthly.map((date) => debit(date, 'STREAMBOX', 8, { status: 'failed' })),
+      debit('2024-01-20', 'BOOKSHOP', 12),
+      debit('2024-02-20', 'BOOKSHOP', 95),
+      debit('2024-03-20', 'BOOKSHOP', 40),
+    ];
+
+    expect(detectRecurringPayments(transactions, 'USD')).toEqual([]);
+  });
+});
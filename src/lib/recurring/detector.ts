@@ -0,0 +1,173 @@
+// Rule-based detection of payments that repeat on a schedule
+
+import type {
+  RecurringPattern,
+  SubscriptionFrequency,
+  Transaction,
+  TransactionCategory,
+} from '../types';
+import { getDateSortKey } from '../utils/date';
+import { sumMoney } from '../utils/money';
+import { getBillingPeriodDays, type BillingCycle } from '../utils/subscription-cost';
+
+// Fixed frequencies tried in order, shortest period first
+const FIXED_FREQUENCIES: Exclude<SubscriptionFrequency, 'custom'>[] = [
+  'daily',
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'semiannual',
+  'yearly',
+];
+
+// Share of a billing period a charge may come early or late (months run 28-31 days)
+const INTERVAL_TOLERANCE = 0.12;
+
+// Charges to the same merchant that are a payment, an obligation or everyday shopping, not a plan
+const SKIPPED_CATEGORIES: TransactionCategory[] = [
+  'Payment',
+  'Rent',
+  'EMI & Loan',
+  'Groceries',
+  'Fuel',
+];
+
+// Weakest pattern worth reporting
+export const MIN_PATTERN_CONFIDENCE = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Key grouping charges to one merchant
+ * Digits are dropped so reference and order numbers don't split a merchant
+ */
+export function recurringMerchantKey(name: string | undefined): string {
+  return (name || '').toLowerCase().replace(/[^a-z]+/g, '');
+}
+
+/**
+ * Days a charge may be off its billing period and still count as on time
+ */
+function intervalTolerance(periodDays: number): number {
+  return Math.max(1, periodDays * INTERVAL_TOLERANCE);
+}
+
+/**
+ * Middle value, or the mean of the two middle values
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Limit a score to 0-1
+ */
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Billing cycle a typical gap between charges fits
+ * Gaps that fit no fixed frequency are a custom cycle; same-day gaps are none at all
+ */
+function matchBillingCycle(typicalInterval: number): BillingCycle | null {
+  for (const frequency of FIXED_FREQUENCIES) {
+    const periodDays = getBillingPeriodDays({ frequency });
+    if (Math.abs(typicalInterval - periodDays) <= intervalTolerance(periodDays)) {
+      return { frequency };
+    }
+  }
+  return typicalInterval >= 2
+    ? { frequency: 'custom', intervalDays: Math.round(typicalInterval) }
+    : null;
+}
+
+/**
+ * Work out the schedule of one merchant's charges, oldest first
+ * Returns null when the charges don't repeat on a schedule
+ */
+function analyzeCharges(charges: Transaction[], currency: string): RecurringPattern | null {
+  const intervals = charges
+    .slice(1)
+    .map(
+      (charge, index) =>
+        (getDateSortKey(charge.date) - getDateSortKey(charges[index].date)) / DAY_MS
+    );
+  const cycle = matchBillingCycle(median(intervals));
+  if (!cycle) return null;
+
+  // Share of gaps that land on the billing period
+  const periodDays = getBillingPeriodDays(cycle);
+  const regularity =
+    intervals.filter(
+      (interval) => Math.abs(interval - periodDays) <= intervalTolerance(periodDays)
+    ).length / intervals.length;
+
+  // Price changes and taxes move a plan's amount a little; shopping moves it a lot
+  const amounts = charges.map((charge) => charge.amount);
+  const typicalAmount = median(amounts);
+  const amountVariation =
+    typicalAmount > 0
+      ? Math.max(...amounts.map((amount) => Math.abs(amount - typicalAmount))) / typicalAmount
+      : 1;
+  const amountScore = clamp(1 - (amountVariation - 0.02) / 0.48);
+  const countScore = clamp(0.25 + 0.15 * charges.length);
+
+  const latest = charges[charges.length - 1];
+  return {
+    merchant: latest.merchantName || latest.description,
+    currency,
+    ...cycle,
+    amount: latest.amount,
+    amountVariation: Math.round(amountVariation * 100) / 100,
+    occurrences: charges.length,
+    totalSpent: sumMoney(amounts, currency),
+    firstSeen: charges[0].date,
+    lastSeen: latest.date,
+    confidence: Math.round(regularity * (0.5 * countScore + 0.5 * amountScore) * 100) / 100,
+  };
+}
+
+/**
+ * Find merchants charged on a schedule from completed, dated debits
+ * Charges are grouped by merchant and currency, and each group's gaps and amounts
+ * give its frequency and a confidence; patterns below MIN_PATTERN_CONFIDENCE are dropped
+ * @param defaultCurrency - Currency of transactions that don't name one
+ */
+export function detectRecurringPayments(
+  transactions: Transaction[],
+  defaultCurrency: string
+): RecurringPattern[] {
+  const groups = new Map<string, Transaction[]>();
+  for (const transaction of transactions) {
+    if (
+      transaction.type !== 'debit' ||
+      transaction.status === 'failed' ||
+      transaction.status === 'pending' ||
+      SKIPPED_CATEGORIES.includes(transaction.category) ||
+      getDateSortKey(transaction.date) === 0
+    ) {
+      continue;
+    }
+    const merchant = recurringMerchantKey(transaction.merchantName || transaction.description);
+    if (!merchant) continue;
+
+    const key = `${merchant}|${transaction.currency || defaultCurrency}`;
+    groups.set(key, [...(groups.get(key) ?? []), transaction]);
+  }
+
+  const patterns: RecurringPattern[] = [];
+  groups.forEach((charges, key) => {
+    if (charges.length < 2) return;
+    const ordered = [...charges].sort(
+      (a, b) => getDateSortKey(a.date) - getDateSortKey(b.date)
+    );
+    const pattern = analyzeCharges(ordered, key.split('|')[1]);
+    if (pattern && pattern.confidence >= MIN_PATTERN_CONFIDENCE) patterns.push(pattern);
+  });
+
+  return patterns.sort((a, b) => b.confidence - a.confidence);
+}
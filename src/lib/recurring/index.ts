@@ -0,0 +1,8 @@
+// Recurring payment module exports
+
+export {
+  detectRecurringPayments,
+  recurringMerchantKey,
+  MIN_PATTERN_CONFIDENCE,
+} from './detector';
+export { checkSubscriptions, verifySubscriptions } from './verifier';
@@ -0,0 +1,170 @@
+// Checking the AI's subscriptions against the schedule of their charges
+
+import { sanitizeFullAnalysisResult } from '../ai/response-sanitizer';
+import type {
+  FullAnalysisResult,
+  RecurringPattern,
+  Subscription,
+  SubscriptionCategory,
+  SubscriptionDisagreement,
+  TransactionCategory,
+} from '../types';
+import { getBillingPeriodDays } from '../utils/subscription-cost';
+import { detectRecurringPayments, recurringMerchantKey } from './detector';
+
+// Patterns strong enough to change the AI's frequency or add a subscription it missed
+const APPLY_CONFIDENCE = 0.8;
+
+// Fewest charges before a subscription the AI didn't report is added
+const MIN_ADDED_OCCURRENCES = 3;
+
+// Subscription category of a charge's transaction category, where one fits
+const SUBSCRIPTION_CATEGORIES: Partial<Record<TransactionCategory, SubscriptionCategory>> = {
+  'Food & Dining': 'Food & Delivery',
+  Shopping: 'Shopping',
+  Transportation: 'Transportation',
+};
+
+/**
+ * Whether a pattern bills at the subscription's frequency
+ * Custom intervals agree when they are close enough to count as the same period
+ */
+function sameBillingCycle(subscription: Subscription, pattern: RecurringPattern): boolean {
+  if (subscription.frequency !== pattern.frequency) return false;
+  if (pattern.frequency !== 'custom') return true;
+
+  const expected = getBillingPeriodDays(pattern);
+  return Math.abs(getBillingPeriodDays(subscription) - expected) <= Math.max(1, expected * 0.12);
+}
+
+/**
+ * Confirm, correct or add to a result's subscriptions with the rule-based recurring-payment check
+ * Confident patterns override the reported frequency and add subscriptions that were missed
+ * Returns the checked subscriptions and every disagreement with the reported ones
+ */
+export function checkSubscriptions(result: FullAnalysisResult): {
+  subscriptions: Subscription[];
+  review: SubscriptionDisagreement[];
+} {
+  const currency = result.summary.currency || 'INR';
+  const patterns = new Map(
+    detectRecurringPayments(result.transactions, currency).map((pattern) => [
+      `${recurringMerchantKey(pattern.merchant)}|${pattern.currency}`,
+      pattern,
+    ])
+  );
+  const matched = new Set<RecurringPattern>();
+  const review: SubscriptionDisagreement[] = [];
+
+  // Completed charges per merchant, to tell a single charge from an irregular series
+  const chargeCounts = new Map<string, number>();
+  result.transactions
+    .filter((t) => t.type === 'debit' && t.status !== 'failed' && t.status !== 'pending')
+    .forEach((t) => {
+      const key = `${recurringMerchantKey(t.merchantName || t.description)}|${t.currency || currency}`;
+      chargeCounts.set(key, (chargeCounts.get(key) ?? 0) + 1);
+    });
+
+  const subscriptions = result.subscriptions.map((subscription): Subscription => {
+    const keys = [subscription.name, subscription.merchantPattern]
+      .filter(Boolean)
+      .map((name) => `${recurringMerchantKey(name)}|${subscription.currency || currency}`);
+    const pattern = keys.map((key) => patterns.get(key)).find(Boolean);
+
+    if (!pattern) {
+      const charges = Math.max(...keys.map((key) => chargeCounts.get(key) ?? 0));
+      if (charges >= 2) {
+        review.push({
+          subscription: subscription.name,
+          kind: 'irregular',
+          aiFrequency: subscription.frequency,
+          resolution: 'ai_kept',
+        });
+      }
+      return { ...subscription, verification: 'unverified' };
+    }
+
+    matched.add(pattern);
+    const { confidence } = pattern;
+    if (sameBillingCycle(subscription, pattern)) {
+      return { ...subscription, verification: 'confirmed', confidence };
+    }
+
+    const applied = confidence >= APPLY_CONFIDENCE;
+    review.push({
+      subscription: subscription.name,
+      kind: 'frequency',
+      aiFrequency: subscription.frequency,
+      detectedFrequency: pattern.frequency,
+      confidence,
+      resolution: applied ? 'detector_applied' : 'ai_kept',
+    });
+    return applied
+      ? {
+          ...subscription,
+          frequency: pattern.frequency,
+          intervalDays: pattern.intervalDays,
+          verification: 'corrected',
+          confidence,
+        }
+      : { ...subscription, verification: 'unverified', confidence };
+  });
+
+  patterns.forEach((pattern, key) => {
+    if (matched.has(pattern)) return;
+
+    const applied =
+      pattern.confidence >= APPLY_CONFIDENCE && pattern.occurrences >= MIN_ADDED_OCCURRENCES;
+    review.push({
+      subscription: pattern.merchant,
+      kind: 'missed',
+      detectedFrequency: pattern.frequency,
+      confidence: pattern.confidence,
+      resolution: applied ? 'detector_applied' : 'ai_kept',
+    });
+    if (!applied) return;
+
+    const latestCharge = result.transactions.find(
+      (t) =>
+        t.date === pattern.lastSeen &&
+        `${recurringMerchantKey(t.merchantName || t.description)}|${t.currency || currency}` === key
+    );
+    subscriptions.push({
+      id: `sub-${subscriptions.length}`,
+      name: pattern.merchant,
+      amount: pattern.amount,
+      currency: pattern.currency,
+      frequency: pattern.frequency,
+      intervalDays: pattern.intervalDays,
+      category: (latestCharge && SUBSCRIPTION_CATEGORIES[latestCharge.category]) || 'Other',
+      firstSeen: pattern.firstSeen,
+      lastSeen: pattern.lastSeen,
+      occurrences: pattern.occurrences,
+      totalSpent: pattern.totalSpent,
+      cancelInstructions: ['Contact the merchant or check your account settings to cancel'],
+      ...(latestCharge?.originalCurrency && {
+        originalAmount: latestCharge.originalAmount,
+        originalCurrency: latestCharge.originalCurrency,
+        fxRate: latestCharge.fxRate,
+        fxFee: latestCharge.fxFee,
+      }),
+      verification: 'added',
+      confidence: pattern.confidence,
+    });
+  });
+
+  return { subscriptions, review };
+}
+
+/**
+ * Check the AI's subscriptions against the schedule of their charges
+ * Disagreements are listed in subscriptionReview, and totals are rebuilt from the result
+ */
+export function verifySubscriptions(result: FullAnalysisResult): FullAnalysisResult {
+  const { subscriptions, review } = checkSubscriptions(result);
+  return {
+    ...result,
+    ...sanitizeFullAnalysisResult({ ...result, subscriptions }),
+    ...(review.length > 0 && { subscriptionReview: review }),
+  };
+}
@@ -11,4 +11,10 @@ export {
   deleteJob,
   cancelJob,
   isJobCancelled,
+  recordChunkComplete,
+  saveJobInput,
+  getJobInput,
+  saveStepResult,
+  getStepResult,
+  type AnalysisJobInput,
 } from './jobs';
@@ -2,8 +2,10 @@
 
 import { redis } from './client';
 import type { AnalysisJob } from '../types/jobs';
-import type { FullAnalysisResult } from '../types';
+import type { FullAnalysisResult, StatementFileType } from '../types';
 import type { UserError } from '../errors';
+import type { PendingPDF } from '../parsers/pdf-chunks';
+import type { StatementInput } from '../parsers/statement-merger';
 
 const JOB_PREFIX = 'job:';
 const JOB_TTL_SECONDS = 3600; // 1 hour TTL for job data
@@ -12,13 +14,36 @@ function getJobKey(jobId: string): string {
   return `${JOB_PREFIX}${jobId}`;
 }
 
+// Job stages that run in parallel chunks, each with its own completion counter
+export type ChunkStage = 'extraction' | 'analysis';
+
+function getChunkCountKey(jobId: string, stage: ChunkStage): string {
+  return `${JOB_PREFIX}${jobId}:${stage}-chunks`;
+}
+
+// Statement content a job analyzes - kept in Redis because it can outgrow an event payload
+export interface AnalysisJobInput {
+  csvContent: string; // Empty while pendingPDFs await extraction
+  pendingPDFs?: PendingPDF[]; // PDFs whose transactions the job extracts with AI
+  statements?: StatementInput[]; // Other statements, merged once the PDFs are extracted
+}
+
+function getInputKey(jobId: string): string {
+  return `${JOB_PREFIX}${jobId}:input`;
+}
+
+// Results of a job's steps, one hash field per step
+function getStepResultsKey(jobId: string): string {
+  return `${JOB_PREFIX}${jobId}:step-results`;
+}
+
 /**
  * Create a new job in Redis with pending status
  */
 export async function createJob(
   jobId: string,
   fileName: string,
-  fileType: 'csv' | 'pdf'
+  fileType: StatementFileType
 ): Promise<AnalysisJob> {
   const now = Date.now();
   const job: AnalysisJob = {
@@ -39,6 +64,71 @@ export async function createJob(
   return job;
 }
 
+/**
+ * Store the content a job analyzes and return the key its event carries
+ */
+export async function saveJobInput(
+  jobId: string,
+  input: AnalysisJobInput
+): Promise<string> {
+  const key = getInputKey(jobId);
+  await redis.set(key, JSON.stringify(input), { ex: JOB_TTL_SECONDS });
+  return key;
+}
+
+/**
+ * Get the content stored for a job, or null once it has expired
+ */
+export async function getJobInput(key: string): Promise<AnalysisJobInput | null> {
+  const data = await redis.get<string>(key);
+  if (!data) {
+    return null;
+  }
+
+  // Handle case where Redis returns already parsed object
+  if (typeof data === 'object') {
+    return data as unknown as AnalysisJobInput;
+  }
+
+  return JSON.parse(data) as AnalysisJobInput;
+}
+
+/**
+ * Store the result of a job step, so the step returns only its name
+ * Inngest keeps every step's return value in the run state, which is size-limited
+ * Results are objects, as Redis hands a stored JSON string back already parsed
+ */
+export async function saveStepResult(
+  jobId: string,
+  name: string,
+  result: object
+): Promise<string> {
+  const key = getStepResultsKey(jobId);
+  await redis.hset(key, { [name]: JSON.stringify(result) });
+  await redis.expire(key, JOB_TTL_SECONDS);
+  return name;
+}
+
+/**
+ * Get the stored result of a job step
+ */
+export async function getStepResult<T extends object>(
+  jobId: string,
+  name: string
+): Promise<T> {
+  const data = await redis.hget<string>(getStepResultsKey(jobId), name);
+  if (data === null || data === undefined) {
+    throw new Error(`Result ${name} of job ${jobId} not found`);
+  }
+
+  // Handle case where Redis returns already parsed object
+  if (typeof data === 'object') {
+    return data as unknown as T;
+  }
+
+  return JSON.parse(data) as T;
+}
+
 /**
  * Update job progress during analysis
  */
@@ -112,6 +202,20 @@ export async function failJob(jobId: string, error: UserError): Promise<void> {
   });
 }
 
+/**
+ * Record one finished chunk of a job stage and return how many are done
+ * Chunks finish in parallel, so the count is kept in its own counter
+ */
+export async function recordChunkComplete(
+  jobId: string,
+  stage: ChunkStage = 'analysis'
+): Promise<number> {
+  const key = getChunkCountKey(jobId, stage);
+  const done = await redis.incr(key);
+  await redis.expire(key, JOB_TTL_SECONDS);
+  return done;
+}
+
 /**
  * Get job by ID
  */
@@ -141,7 +245,13 @@ export async function jobExists(jobId: string): Promise<boolean> {
  * Delete a job (for cleanup or cancellation)
  */
 export async function deleteJob(jobId: string): Promise<void> {
-  await redis.del(getJobKey(jobId));
+  await redis.del(
+    getJobKey(jobId),
+    getInputKey(jobId),
+    getStepResultsKey(jobId),
+    getChunkCountKey(jobId, 'extraction'),
+    getChunkCountKey(jobId, 'analysis')
+  );
 }
 
 /**
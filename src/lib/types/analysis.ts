@@ -1,8 +1,14 @@
 // Analysis result types
 
 import type { TransactionCategory } from './transactions';
-import type { SubscriptionCategory, Subscription, CategorySummary } from './subscriptions';
-import type { Transaction } from './transactions';
+import type {
+  SubscriptionCategory,
+  Subscription,
+  CategorySummary,
+  SubscriptionDisagreement,
+} from './subscriptions';
+import type { Transaction, TransactionType } from './transactions';
+import type { AccountType, StatementFileType } from './app';
 
 export interface CategoryBreakdown {
   category: TransactionCategory | SubscriptionCategory;
@@ -37,15 +43,114 @@ export interface AnalysisResult {
   };
 }
 
+// Known bank export recognized from the CSV header row
+export interface DetectedProfile {
+  id: string;
+  name: string;
+  accountType?: AccountType;
+}
+
+// One uploaded statement and the period it covers
+export interface SourceFile {
+  fileName: string;
+  fileType: StatementFileType;
+  transactionCount: number; // Rows kept after de-duplication
+  duplicatesRemoved: number; // Rows already present in an earlier file
+  dateRange: { from: string; to: string };
+  csvProfile?: DetectedProfile;
+}
+
+// Pages below this OCR confidence are flagged for the user to check
+export const LOW_OCR_CONFIDENCE = 70;
+
+// OCR quality of one scanned page or photo
+export interface OCRPageConfidence {
+  fileName?: string; // Set when several statements were uploaded
+  page: number;
+  confidence: number; // Mean word confidence, 0-100
+}
+
+// Check that a statement's transactions account for its balance change
+export interface BalanceReconciliation {
+  openingBalance: number;
+  closingBalance: number;
+  debits: number;
+  credits: number;
+  difference: number; // Closing balance minus the balance the transactions add up to
+  matches: boolean;
+}
+
+// Account details printed on a statement
+export interface StatementMetadata {
+  fileName?: string; // Set when several statements were uploaded
+  issuer?: string;
+  accountType?: AccountType; // From the wording of the statement
+  cardLastFour?: string;
+  billingPeriod?: { from: string; to: string }; // YYYY-MM-DD
+  openingBalance?: number; // Amount owed at the start of the period; negative for a credit balance
+  closingBalance?: number;
+  totalDue?: number;
+  minimumDue?: number;
+  dueDate?: string; // YYYY-MM-DD
+  reconciliation?: BalanceReconciliation;
+}
+
+// A row whose printed running balance doesn't follow from the rows before it
+export interface BalanceIssue {
+  row: number; // 1-based position in the statement
+  date: string;
+  description: string;
+  amount: number;
+  type: TransactionType;
+  balance: number; // Printed after the row
+  expectedBalance: number; // Previous printed balance moved by the row's amount
+  kind: 'gap' | 'duplicate'; // Rows missing or out of order before it, or a repeated row
+}
+
+// Running balance column checked row by row
+export interface RunningBalanceCheck {
+  fileName?: string; // Set when several statements were uploaded
+  rowsChecked: number;
+  issueCount: number;
+  issues: BalanceIssue[]; // The first few problem rows
+}
+
+// Money in vs money out on a bank account statement
+export interface IncomeSummary {
+  totalIncome: number; // Credits in income categories
+  totalExpenses: number; // Same as totalSpending
+  netCashFlow: number; // All credits minus all debits
+  savingsRate?: number; // Percent of income left after expenses - unset without income
+  incomeByCategory: CategoryBreakdown[];
+}
+
 // Full analysis format (all transactions)
 export interface FullSummary {
   totalSpending: number;
   totalCredits: number;
-  subscriptionTotal: number;
+  subscriptionTotal: number; // Monthly equivalent of every subscription
+  subscriptionYearlyTotal?: number; // Yearly equivalent - unset on older results
   currency: string;
   transactionCount: number;
+  accountType?: AccountType; // Unset on results from before bank account mode - read as a credit card
+  income?: IncomeSummary; // Bank accounts only
+  convertedCurrencies?: string[]; // Currencies converted into `currency` for the totals
+  unconvertedCurrencies?: string[]; // Currencies without a rate, left out of the totals
+  unconvertedAmounts?: UnconvertedAmount[]; // Transactions left out of the totals for lack of a rate
+  ratesAsOf?: string; // Date of the latest bundled rates, when amounts dated after them were converted
 }
 
+// A transaction whose currency has no rate to the summary currency
+export interface UnconvertedAmount {
+  description: string;
+  date: string;
+  amount: number;
+  currency: string;
+}
+
+// How a result was produced - 'basic' when the AI was unavailable and rules were used
+export type AnalysisMode = 'ai' | 'basic';
+
 export interface FullAnalysisResult {
   // Overview
   summary: FullSummary;
@@ -65,4 +170,12 @@ export interface FullAnalysisResult {
   // Metadata
   dateRange: { from: string; to: string };
   analyzedRows: number;
+  csvProfile?: DetectedProfile; // Column mapping applied before analysis
+  warnings?: string[]; // Input issues the user should double-check (e.g. ambiguous dates)
+  sourceFiles?: SourceFile[]; // Statements merged into this analysis
+  ocrPages?: OCRPageConfidence[]; // Pages read by OCR, with recognition confidence
+  statementDetails?: StatementMetadata[]; // Printed account details, one per statement that has them
+  balanceChecks?: RunningBalanceCheck[]; // Statements with a running balance column
+  subscriptionReview?: SubscriptionDisagreement[]; // AI and recurring-payment check disagreements
+  analysisMode?: AnalysisMode; // Unset on AI results
 }
@@ -3,6 +3,24 @@
 import type { UserError } from '../errors';
 import type { FullAnalysisResult } from './analysis';
 
+// File formats accepted by the upload flow
+export const STATEMENT_FILE_TYPES = [
+  'csv',
+  'pdf',
+  'ofx',
+  'camt053',
+  'mt940',
+  'excel',
+  'image',
+] as const;
+
+export type StatementFileType = (typeof STATEMENT_FILE_TYPES)[number];
+
+// Kinds of account a statement can come from - decides how credits are read
+export const ACCOUNT_TYPES = ['credit_card', 'bank_account'] as const;
+
+export type AccountType = (typeof ACCOUNT_TYPES)[number];
+
 export type AppStatus = 'idle' | 'analyzing' | 'results' | 'error';
 
 export type ResultsTab = 'subscriptions' | 'spending';
@@ -10,7 +28,7 @@ export type ResultsTab = 'subscriptions' | 'spending';
 export interface AppState {
   status: AppStatus;
   fileName?: string;
-  fileType?: 'csv' | 'pdf';
+  fileType?: StatementFileType;
   jobId?: string;
   progress?: number;
   step?: string;
@@ -22,13 +40,14 @@ export interface AppState {
 export interface FileValidationResult {
   valid: boolean;
   error?: UserError;
-  fileType: 'csv' | 'pdf' | 'unknown';
+  fileType: StatementFileType | 'unknown';
 }
 
 export interface AnalyzeRequest {
   csvContent: string;
-  fileType: 'csv' | 'pdf';
+  fileType: StatementFileType;
   fileName?: string;
+  accountType?: AccountType; // Detected from the statement when not given
 }
 
 export interface AnalyzeResponse {
@@ -1,6 +1,7 @@
 // Job status types for background analysis processing
 
 import type { FullAnalysisResult } from './analysis';
+import type { StatementFileType } from './app';
 import type { UserError } from '../errors';
 
 export type JobStatus = 'pending' | 'processing' | 'complete' | 'failed' | 'cancelled';
@@ -9,7 +10,7 @@ export interface AnalysisJob {
   id: string;
   status: JobStatus;
   fileName: string;
-  fileType: 'csv' | 'pdf';
+  fileType: StatementFileType;
   progress?: number;
   step?: string;
   result?: FullAnalysisResult;
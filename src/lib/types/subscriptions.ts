@@ -1,5 +1,7 @@
 // Subscription types for recurring payments
 
+import type { ForeignExchangeDetails } from './transactions';
+
 export type SubscriptionCategory =
   | 'Streaming'
   | 'Music'
@@ -15,17 +17,30 @@ export type SubscriptionCategory =
   | 'Other';
 
 export type SubscriptionFrequency =
+  | 'daily'
   | 'weekly'
+  | 'biweekly'
   | 'monthly'
   | 'quarterly'
-  | 'yearly';
+  | 'semiannual'
+  | 'yearly'
+  | 'custom'; // Every `intervalDays` days
+
+// How the recurring-payment check treated a subscription
+export type SubscriptionVerification =
+  | 'confirmed' // The charges repeat at the AI's frequency
+  | 'corrected' // The charges repeat at another frequency, which replaced the AI's
+  | 'added' // Found by the check only
+  | 'unverified'; // Too few or too irregular charges to check
 
-export interface Subscription {
+// Foreign currency details describe the latest charge
+export interface Subscription extends ForeignExchangeDetails {
   id: string;
   name: string;
   amount: number;
   currency: string;
   frequency: SubscriptionFrequency;
+  intervalDays?: number; // Days between charges - custom frequency only
   category: SubscriptionCategory;
   firstSeen: string;
   lastSeen: string;
@@ -33,6 +48,37 @@ export interface Subscription {
   totalSpent: number;
   cancelInstructions: string[];
   merchantPattern?: string;
+  convertedFrom?: string; // Currency the amounts were converted from for display
+  verification?: SubscriptionVerification; // Unset on results from before the check
+  confidence?: number; // Recurring-payment check confidence 0-1
+}
+
+// Charges to one merchant that repeat on a schedule
+export interface RecurringPattern {
+  merchant: string; // Merchant name of the latest charge
+  currency: string;
+  frequency: SubscriptionFrequency;
+  intervalDays?: number; // Custom frequency only
+  amount: number; // Latest charge
+  amountVariation: number; // Largest difference from the typical charge, as a fraction of it
+  occurrences: number;
+  totalSpent: number;
+  firstSeen: string;
+  lastSeen: string;
+  confidence: number; // 0-1 - regular intervals, steady amounts and more charges score higher
+}
+
+// Where the AI and the recurring-payment check disagree, kept for review
+export interface SubscriptionDisagreement {
+  subscription: string; // Subscription or merchant name
+  kind:
+    | 'frequency' // Both see a subscription, billed at different frequencies
+    | 'missed' // Only the check sees a subscription
+    | 'irregular'; // The AI's subscription has charges that don't repeat on a schedule
+  aiFrequency?: SubscriptionFrequency;
+  detectedFrequency?: SubscriptionFrequency;
+  confidence?: number; // The check's confidence in its pattern
+  resolution: 'ai_kept' | 'detector_applied';
 }
 
 export interface CategorySummary {
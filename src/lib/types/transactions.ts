@@ -27,6 +27,11 @@ export type TransactionCategory =
   | 'Cashback'
   // Payments & Transfers
   | 'Payment'
+  // Income (credits on bank account statements)
+  | 'Salary'
+  | 'Interest'
+  | 'Transfer In'
+  | 'Dividends'
   // Catch-all
   | 'Other';
 
@@ -57,7 +62,23 @@ export const CREDIT_CATEGORIES: TransactionCategory[] = [
   'Payment',
 ];
 
-export interface Transaction {
+// Categories that represent income on bank account statements
+export const INCOME_CATEGORIES: TransactionCategory[] = [
+  'Salary',
+  'Interest',
+  'Transfer In',
+  'Dividends',
+];
+
+// Foreign currency a charge was made in, as printed on the statement
+export interface ForeignExchangeDetails {
+  originalAmount?: number; // Amount in the original currency
+  originalCurrency?: string; // ISO 4217 code
+  fxRate?: number; // Statement currency per unit of the original currency
+  fxFee?: number; // Markup charged on top, in the statement currency
+}
+
+export interface Transaction extends ForeignExchangeDetails {
   id: string;
   date: string;
   description: string;
@@ -68,4 +89,6 @@ export interface Transaction {
   merchantName?: string;
   confidence: number; // AI confidence 0-1
   status?: TransactionStatus; // Payment status: completed, failed, or pending
+  currency?: string; // ISO 4217 code of the amount - the summary currency when unset
+  convertedFrom?: string; // Currency the amount was converted from for display
 }
@@ -0,0 +1,129 @@
+// Shared CSV tokenizer with delimiter sniffing
+
+// Delimiters seen in bank exports, in order of preference on a tie
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+export type CSVDelimiter = (typeof CSV_DELIMITERS)[number];
+
+// Lines sampled when sniffing the delimiter
+const SNIFF_LINES = 20;
+
+export interface TokenizeOptions {
+  delimiter?: CSVDelimiter; // Sniffed from the content when omitted
+  skipEmptyLines?: boolean; // Default true
+}
+
+/**
+ * Split CSV text into rows of cells
+ * Handles quoted cells with delimiters, escaped quotes ("") and line breaks
+ */
+function splitRows(content: string, delimiter: string, limit = Infinity): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length && rows.length < limit; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++; // Skip escaped quote
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (rows.length < limit && (cell !== '' || row.length > 0)) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Check whether a tokenized row has no content
+ */
+function isEmptyRow(row: string[]): boolean {
+  return row.every((cell) => cell.trim() === '');
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the most consistent number of columns
+ */
+export function detectDelimiter(content: string): CSVDelimiter {
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const rows = splitRows(content, delimiter, SNIFF_LINES).filter(
+      (row) => !isEmptyRow(row)
+    );
+    if (rows.length === 0) continue;
+
+    // Most common column count, and how many rows share it
+    const counts = new Map<number, number>();
+    for (const row of rows) {
+      counts.set(row.length, (counts.get(row.length) || 0) + 1);
+    }
+    const [columns, rowsWithColumns] = Array.from(counts.entries()).sort(
+      (a, b) => b[1] - a[1] || b[0] - a[0]
+    )[0];
+    if (columns < 2) continue;
+
+    const score = (rowsWithColumns / rows.length) * columns;
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Tokenize CSV content into rows of cells
+ */
+export function tokenizeCSV(content: string, options: TokenizeOptions = {}): string[][] {
+  const delimiter = options.delimiter ?? detectDelimiter(content);
+  const rows = splitRows(content.replace(/^\uFEFF/, ''), delimiter);
+
+  return options.skipEmptyLines === false
+    ? rows
+    : rows.filter((row) => !isEmptyRow(row));
+}
+
+/**
+ * Escape a single CSV cell (quotes cells with commas, quotes or newlines)
+ */
+export function escapeCSVCell(value: string): string {
+  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Serialize rows as comma-delimited CSV
+ */
+export function serializeCSV(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCSVCell).join(',')).join('\n');
+}
@@ -1,6 +1,8 @@
 // File: ./src/lib/utils/currency.ts
 // Currency formatting utilities for displaying amounts in the correct currency
 
+import { getCurrencyPrecision, toMajor, toMoney } from './money';
+
 // Currency code to symbol mapping
 const CURRENCY_SYMBOLS: Record<string, string> = {
   // Major currencies
@@ -83,22 +85,58 @@ export function getCurrencyLocale(currencyCode: string): string {
  * Format a number as currency with the appropriate symbol and locale
  * @param amount - The amount to format
  * @param currencyCode - ISO 4217 currency code (e.g., 'USD', 'INR')
- * @returns Formatted currency string (e.g., '₹1,23,456' or '$123,456')
+ * @param options - `converted` marks an amount converted from another currency with '≈'
+ * @returns Formatted currency string (e.g., '₹1,23,456', '$123,456' or '≈₹1,680')
  */
-export function formatCurrency(amount: number, currencyCode: string = 'INR'): string {
+export function formatCurrency(
+  amount: number,
+  currencyCode: string = 'INR',
+  options: { converted?: boolean } = {}
+): string {
   const symbol = getCurrencySymbol(currencyCode);
-  const locale = getCurrencyLocale(currencyCode);
-  const formattedNumber = amount.toLocaleString(locale);
-  return `${symbol}${formattedNumber}`;
+  const formattedNumber = formatNumber(amount, currencyCode);
+  return `${options.converted ? '≈' : ''}${symbol}${formattedNumber}`;
 }
 
 /**
  * Format just the number portion without the symbol (for custom display)
+ * Amounts are rounded to the currency's minor unit; whole amounts drop the decimals,
+ * others show all of them ('12.50', not '12.5')
  * @param amount - The amount to format
  * @param currencyCode - ISO 4217 currency code
  * @returns Formatted number string without symbol
  */
 export function formatNumber(amount: number, currencyCode: string = 'INR'): string {
   const locale = getCurrencyLocale(currencyCode);
-  return amount.toLocaleString(locale);
+  const money = toMoney(amount, currencyCode);
+  const precision = getCurrencyPrecision(currencyCode);
+  const fractionDigits = money.minor % 10 ** precision === 0 ? 0 : precision;
+  return toMajor(money).toLocaleString(locale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
+
+/**
+ * Describe a foreign currency charge for display (e.g. 'USD 20 @ 84.03 • ₹59 fee')
+ * @param details - Original amount, currency, rate and fee of the charge
+ * @param currencyCode - Currency the statement is billed in
+ * @returns Description, or null when the charge was made in the statement currency
+ */
+export function formatForeignExchange(
+  details: {
+    originalAmount?: number;
+    originalCurrency?: string;
+    fxRate?: number;
+    fxFee?: number;
+  },
+  currencyCode: string = 'INR'
+): string | null {
+  const { originalAmount, originalCurrency, fxRate, fxFee } = details;
+  if (originalAmount === undefined || !originalCurrency) return null;
+
+  const parts = [`${originalCurrency} ${formatNumber(originalAmount, originalCurrency)}`];
+  if (fxRate) parts[0] += ` @ ${fxRate}`;
+  if (fxFee) parts.push(`${formatCurrency(fxFee, currencyCode)} fee`);
+  return parts.join(' • ');
 }
@@ -0,0 +1,23 @@
+// Date helpers for displaying and sorting transaction dates
+
+/**
+ * Parse a transaction date into a local Date
+ * YYYY-MM-DD is read as a calendar date so it doesn't shift a day in western time zones
+ */
+export function parseTransactionDate(dateString: string): Date | null {
+  if (!dateString) return null;
+
+  const iso = dateString.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const date = iso
+    ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+    : new Date(dateString);
+
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Sort key for a transaction date (0 when unparseable)
+ */
+export function getDateSortKey(dateString: string): number {
+  return parseTransactionDate(dateString)?.getTime() ?? 0;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { isAppError } from '../errors';
+import { decodeText, detectEncoding } from './encoding';
+
+const CSV = 'Date,Description,Amount\n2024-03-05,Café Müller,-4.50\n';
+
+/** UTF-16 bytes of a string, optionally with a byte order mark */
+function utf16(text: string, endian: 'le' | 'be', bom: boolean): Uint8Array {
+  const bytes: number[] = bom ? (endian === 'le' ? [0xff, 0xfe] : [0xfe, 0xff]) : [];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const pair = [code & 0xff, code >> 8];
+    bytes.push(...(endian === 'le' ? pair : pair.reverse()));
+  }
+  return new Uint8Array(bytes);
+}
+
+/** Single-byte encoded text, with high characters given as raw bytes */
+function bytesOf(...parts: Array<string | number[]>): Uint8Array {
+  return new Uint8Array(
+    parts.flatMap((part) =>
+      typeof part === 'string' ? Array.from(part, (char) => char.charCodeAt(0)) : part
+    )
+  );
+}
+
+/** Code of the AppError a call throws */
+function errorCode(run: () => unknown): string | undefined {
+  try {
+    run();
+  } catch (error) {
+    return isAppError(error) ? error.userError.code : undefined;
+  }
+  return undefined;
+}
+
+describe('decodeText', () => {
+  it('reads UTF-8 with and without a byte order mark', () => {
+    const utf8 = new TextEncoder().encode(CSV);
+    const withBOM = new Uint8Array([0xef, 0xbb, 0xbf, ...utf8]);
+
+    expect(decodeText(utf8)).toEqual({ text: CSV, encoding: 'utf-8' });
+    expect(decodeText(withBOM)).toEqual({ text: CSV, encoding: 'utf-8' });
+  });
+
+  it('reads UTF-16 from its byte order mark or its zero bytes', () => {
+    expect(decodeText(utf16(CSV, 'le', true))).toEqual({ text: CSV, encoding: 'utf-16le' });
+    expect(decodeText(utf16(CSV, 'be', true))).toEqual({ text: CSV, encoding: 'utf-16be' });
+    expect(decodeText(utf16(CSV, 'le', false))).toEqual({ text: CSV, encoding: 'utf-16le' });
+  });
+
+  it('reads Windows-1252 accents and the euro sign', () => {
+    // "Café" and "€" as Windows-1252 bytes, which are not valid UTF-8
+    const bytes = bytesOf('Date,Description,Amount\n2024-03-05,Caf', [0xe9], ',', [0x80], '4.50\n');
+
+    expect(decodeText(bytes)).toEqual({
+      text: 'Date,Description,Amount\n2024-03-05,Café,€4.50\n',
+      encoding: 'windows-1252',
+    });
+  });
+
+  it('reads Shift-JIS Japanese text', () => {
+    // "日付,摘要" in Shift-JIS
+    const bytes = bytesOf([0x93, 0xfa, 0x95, 0x74], ',', [0x93, 0x45, 0x97, 0x76], '\n');
+
+    expect(detectEncoding(bytes)).toBe('shift_jis');
+    expect(decodeText(bytes).text).toBe('日付,摘要\n');
+  });
+
+  it('accepts an ArrayBuffer', () => {
+    const { buffer } = new TextEncoder().encode(CSV);
+
+    expect(decodeText(buffer).text).toBe(CSV);
+  });
+
+  it('rejects binary data', () => {
+    const binary = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00, 0x00, 0x00, 0x08, 0x00]);
+
+    expect(errorCode(() => decodeText(binary))).toBe('ENCODING_ERROR');
+  });
+});
@@ -0,0 +1,166 @@
+// Text encoding detection and transcoding for uploaded statements
+
+import { AppError } from '../errors';
+
+export type TextEncodingName =
+  | 'utf-8'
+  | 'utf-16le'
+  | 'utf-16be'
+  | 'windows-1252'
+  | 'shift_jis';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+}
+
+// Byte order marks, checked longest first
+const BOMS: Array<{ bytes: number[]; encoding: TextEncodingName }> = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' },
+];
+
+// Bytes sampled for the UTF-16 zero-byte heuristic
+const UTF16_SAMPLE_BYTES = 1024;
+
+// Share of control characters above which decoded "text" is really binary
+const MAX_CONTROL_CHAR_RATIO = 0.01;
+
+// Windows-1252 characters for bytes 0x80-0x9F (0 where the code page leaves them undefined)
+// Some runtimes decode "windows-1252" as Latin-1 and return C1 controls for this range
+const WINDOWS_1252_C1 = [
+  0x20ac, 0, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021,
+  0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0, 0x017d, 0,
+  0, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014,
+  0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0, 0x017e, 0x0178,
+];
+
+/**
+ * Find a byte order mark at the start of the data
+ */
+function detectBOM(bytes: Uint8Array): TextEncodingName | null {
+  const bom = BOMS.find(({ bytes: mark }) =>
+    mark.every((byte, index) => bytes[index] === byte)
+  );
+  return bom ? bom.encoding : null;
+}
+
+/**
+ * Spot BOM-less UTF-16 - mostly-ASCII text leaves every other byte zero
+ */
+function detectUTF16(bytes: Uint8Array): TextEncodingName | null {
+  const sample = bytes.subarray(0, UTF16_SAMPLE_BYTES);
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs < 2) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Decode strictly, returning null when the bytes aren't valid in the encoding
+ */
+function tryDecode(bytes: Uint8Array, encoding: TextEncodingName): string | null {
+  let text: string;
+  try {
+    text = new TextDecoder(encoding, { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+
+  if (encoding !== 'windows-1252') return text;
+
+  return text.replace(/[\x80-\x9f]/g, (char) => {
+    const mapped = WINDOWS_1252_C1[char.charCodeAt(0) - 0x80];
+    return mapped ? String.fromCharCode(mapped) : char;
+  });
+}
+
+/**
+ * Check whether high bytes read as Shift-JIS double-byte runs
+ * Windows-1252 accents sit alone between ASCII letters; Japanese text has runs of characters
+ */
+function looksLikeShiftJIS(bytes: Uint8Array): boolean {
+  let characters = 0;
+  let inRuns = 0;
+  let previousEnd = -1;
+  let runLength = 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte < 0x80) continue;
+
+    const isLead = (byte >= 0x81 && byte <= 0x9f) || (byte >= 0xe0 && byte <= 0xfc);
+    const isHalfWidthKana = byte >= 0xa1 && byte <= 0xdf;
+    const trail = bytes[i + 1];
+    const hasTrail =
+      trail !== undefined && trail >= 0x40 && trail <= 0xfc && trail !== 0x7f;
+
+    if (!isHalfWidthKana && !(isLead && hasTrail)) return false;
+
+    characters++;
+    runLength = previousEnd === i - 1 ? runLength + 1 : 1;
+    if (runLength === 2) inRuns += 2;
+    else if (runLength > 2) inRuns++;
+
+    if (isLead && !isHalfWidthKana) i++; // Skip the trail byte
+    previousEnd = i;
+  }
+
+  return characters >= 2 && inRuns / characters >= 0.5;
+}
+
+/**
+ * Detect the encoding of uploaded text from its BOM or its bytes
+ */
+export function detectEncoding(bytes: Uint8Array): TextEncodingName {
+  const bom = detectBOM(bytes);
+  if (bom) return bom;
+
+  const utf16 = detectUTF16(bytes);
+  if (utf16) return utf16;
+
+  // Valid UTF-8 with high bytes is vanishingly unlikely to be anything else
+  if (tryDecode(bytes, 'utf-8') !== null) return 'utf-8';
+
+  return looksLikeShiftJIS(bytes) ? 'shift_jis' : 'windows-1252';
+}
+
+/**
+ * Check for control characters that real statement text never contains
+ */
+function looksBinary(text: string): boolean {
+  if (text.length === 0) return false;
+  const controls = text.match(/[\x00-\x08\x0b\x0c\x0e-\x1f\x7f-\x9f\ufffd]/g);
+  return (controls?.length || 0) / text.length > MAX_CONTROL_CHAR_RATIO;
+}
+
+/**
+ * Decode uploaded bytes to a UTF-8 string, detecting the source encoding
+ * Throws ENCODING_ERROR only when the bytes can't be decoded as text
+ */
+export function decodeText(data: ArrayBuffer | Uint8Array): DecodedText {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const encoding = detectEncoding(bytes);
+
+  // TextDecoder strips a matching BOM itself
+  const text = tryDecode(bytes, encoding);
+
+  if (text === null || looksBinary(text)) {
+    throw new AppError(
+      'ENCODING_ERROR',
+      `Could not decode file as ${encoding}`
+    );
+  }
+
+  return { text, encoding };
+}
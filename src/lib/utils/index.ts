@@ -19,4 +19,48 @@ export {
   getCurrencyLocale,
   formatCurrency,
   formatNumber,
+  formatForeignExchange,
 } from './currency';
+
+export {
+  getCurrencyPrecision,
+  toMoney,
+  toMajor,
+  addMoney,
+  multiplyMoney,
+  sumMoney,
+  roundMoney,
+  formatMoneyValue,
+  type Money,
+} from './money';
+
+export {
+  SUBSCRIPTION_FREQUENCIES,
+  MONTHLY,
+  YEARLY,
+  getBillingPeriodDays,
+  formatBillingPeriod,
+  getPeriodCost,
+  getMonthlyCost,
+  getYearlyCost,
+  sumPeriodCost,
+  type BillingCycle,
+} from './subscription-cost';
+
+export { parseTransactionDate, getDateSortKey } from './date';
+
+export {
+  decodeText,
+  detectEncoding,
+  type DecodedText,
+  type TextEncodingName,
+} from './encoding';
+
+export {
+  tokenizeCSV,
+  detectDelimiter,
+  serializeCSV,
+  escapeCSVCell,
+  CSV_DELIMITERS,
+  type CSVDelimiter,
+} from './csv';
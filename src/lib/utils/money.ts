@@ -0,0 +1,109 @@
+// Exact money arithmetic in integer minor units (cents, paise, fils)
+
+// Decimal places of currencies that don't use two (ISO 4217)
+const CURRENCY_PRECISION: Record<string, number> = {
+  // No minor unit
+  JPY: 0,
+  KRW: 0,
+  VND: 0,
+  CLP: 0,
+  ISK: 0,
+  UGX: 0,
+  XAF: 0,
+  XOF: 0,
+  // Three decimal places
+  KWD: 3,
+  BHD: 3,
+  OMR: 3,
+  JOD: 3,
+  TND: 3,
+  LYD: 3,
+  IQD: 3,
+};
+
+const DEFAULT_PRECISION = 2;
+
+// An amount as a whole number of the currency's smallest unit
+export interface Money {
+  minor: number; // Integer - 1999 is $19.99, ¥1999 or 1.999 KWD
+  currency: string; // ISO 4217 code
+}
+
+/**
+ * Number of decimal places a currency's amounts are kept to
+ * @param currencyCode - ISO 4217 currency code; unknown or missing codes use two
+ */
+export function getCurrencyPrecision(currencyCode?: string): number {
+  return CURRENCY_PRECISION[(currencyCode || '').toUpperCase()] ?? DEFAULT_PRECISION;
+}
+
+/**
+ * Round half away from zero, so -0.5 and 0.5 round alike
+ */
+function roundHalfAway(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+/**
+ * Convert a decimal amount to money in minor units
+ * Scaling is done at 15 significant digits so 1.005 becomes 101 cents, not 100
+ */
+export function toMoney(amount: number, currencyCode?: string): Money {
+  const scaled = amount * 10 ** getCurrencyPrecision(currencyCode);
+  return {
+    minor: roundHalfAway(Number(scaled.toPrecision(15))) || 0,
+    currency: (currencyCode || '').toUpperCase(),
+  };
+}
+
+/**
+ * Decimal amount of money in minor units
+ */
+export function toMajor(money: Money): number {
+  return money.minor / 10 ** getCurrencyPrecision(money.currency);
+}
+
+/**
+ * Add two amounts of the same currency
+ */
+export function addMoney(a: Money, b: Money): Money {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot add ${a.currency} to ${b.currency}`);
+  }
+  return { minor: a.minor + b.minor, currency: a.currency };
+}
+
+/**
+ * Multiply money by a factor (a monthly share, an exchange rate), rounding to the minor unit
+ */
+export function multiplyMoney(money: Money, factor: number): Money {
+  return {
+    minor: roundHalfAway(Number((money.minor * factor).toPrecision(15))) || 0,
+    currency: money.currency,
+  };
+}
+
+/**
+ * Add up decimal amounts exactly in one currency
+ */
+export function sumMoney(amounts: number[], currencyCode?: string): number {
+  const total = amounts.reduce(
+    (sum, amount) => addMoney(sum, toMoney(amount, currencyCode)),
+    toMoney(0, currencyCode)
+  );
+  return toMajor(total);
+}
+
+/**
+ * Round a decimal amount to its currency's minor unit
+ */
+export function roundMoney(amount: number, currencyCode?: string): number {
+  return toMajor(toMoney(amount, currencyCode));
+}
+
+/**
+ * Write an amount with exactly its currency's decimal places (e.g. '19.99', '1999', '1.999')
+ */
+export function formatMoneyValue(amount: number, currencyCode?: string): string {
+  return roundMoney(amount, currencyCode).toFixed(getCurrencyPrecision(currencyCode));
+}
@@ -1,7 +1,8 @@
 // Content sanitization to prevent XSS and handle malformed data
 
+import { tokenizeCSV, serializeCSV } from './csv';
+
 const MAX_CELL_LENGTH = 500;
-const MAX_ROWS_TO_PROCESS = 1000;
 
 /**
  * Remove null bytes from content
@@ -58,82 +59,21 @@ function normalizeLineEndings(content: string): string {
 }
 
 /**
- * Truncate oversized cells in CSV
- */
-function truncateCells(content: string): string {
-  const lines = content.split('\n');
-  const processedLines: string[] = [];
-
-  for (const line of lines) {
-    const cells = parseCSVLine(line);
-    const truncatedCells = cells.map((cell) => {
-      if (cell.length > MAX_CELL_LENGTH) {
-        return cell.substring(0, MAX_CELL_LENGTH) + '...';
-      }
-      return cell;
-    });
-
-    // Rebuild the line, properly escaping cells with commas or quotes
-    const rebuiltLine = truncatedCells
-      .map((cell) => {
-        if (cell.includes(',') || cell.includes('"') || cell.includes('\n')) {
-          return `"${cell.replace(/"/g, '""')}"`;
-        }
-        return cell;
-      })
-      .join(',');
-
-    processedLines.push(rebuiltLine);
-  }
-
-  return processedLines.join('\n');
-}
-
-/**
- * Parse a single CSV line handling quoted fields
+ * Truncate oversized cells and rewrite rows comma-delimited
+ * Line breaks inside cells are flattened so each row stays on one line
  */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
+function normalizeCells(content: string): string {
+  const rows = tokenizeCSV(content).map((cells) =>
+    cells.map((cell) => {
+      const flattened = cell.replace(/\n+/g, ' ');
+      if (flattened.length > MAX_CELL_LENGTH) {
+        return flattened.substring(0, MAX_CELL_LENGTH) + '...';
       }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-
-  result.push(current);
-  return result;
-}
-
-/**
- * Limit number of rows to prevent abuse
- */
-function limitRows(content: string): string {
-  const lines = content.split('\n');
-
-  if (lines.length <= MAX_ROWS_TO_PROCESS + 1) {
-    return content;
-  }
-
-  // Keep header + MAX_ROWS_TO_PROCESS data rows
-  const header = lines[0];
-  const dataRows = lines.slice(1, MAX_ROWS_TO_PROCESS + 1);
+      return flattened;
+    })
+  );
 
-  return [header, ...dataRows].join('\n');
+  return serializeCSV(rows);
 }
 
 /**
@@ -176,11 +116,9 @@ export function sanitizeCSVContent(content: string): string {
   // Step 5: Remove dangerous patterns
   sanitized = removeDangerousPatterns(sanitized);
 
-  // Step 6: Truncate oversized cells
-  sanitized = truncateCells(sanitized);
-
-  // Step 7: Limit rows
-  sanitized = limitRows(sanitized);
+  // Step 6: Truncate oversized cells and normalize the delimiter
+  // Every row is kept - uploads are bounded by file size and analyzed in chunks
+  sanitized = normalizeCells(sanitized);
 
   return sanitized.trim();
 }
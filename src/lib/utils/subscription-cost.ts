@@ -0,0 +1,127 @@
+// Monthly, yearly and per-period equivalents of subscription prices
+
+import type { Subscription, SubscriptionFrequency } from '../types';
+import { addMoney, multiplyMoney, toMajor, toMoney } from './money';
+
+// Average year length, so weekly and monthly prices agree over a whole year
+const DAYS_PER_YEAR = 365.25;
+
+// Length of each fixed billing period in days
+const PERIOD_DAYS: Record<Exclude<SubscriptionFrequency, 'custom'>, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+  monthly: DAYS_PER_YEAR / 12,
+  quarterly: DAYS_PER_YEAR / 4,
+  semiannual: DAYS_PER_YEAR / 2,
+  yearly: DAYS_PER_YEAR,
+};
+
+// Price suffixes shown after an amount
+const PERIOD_LABELS: Record<Exclude<SubscriptionFrequency, 'custom'>, string> = {
+  daily: '/day',
+  weekly: '/week',
+  biweekly: '/2 wks',
+  monthly: '/mo',
+  quarterly: '/qtr',
+  semiannual: '/6 mo',
+  yearly: '/year',
+};
+
+export const SUBSCRIPTION_FREQUENCIES: SubscriptionFrequency[] = [
+  'daily',
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'semiannual',
+  'yearly',
+  'custom',
+];
+
+// How often a subscription is charged
+export type BillingCycle = Pick<Subscription, 'frequency' | 'intervalDays'>;
+
+export const MONTHLY: BillingCycle = { frequency: 'monthly' };
+export const YEARLY: BillingCycle = { frequency: 'yearly' };
+
+/**
+ * Days between charges
+ * A custom frequency without a usable interval is read as monthly
+ */
+export function getBillingPeriodDays(cycle: BillingCycle): number {
+  if (cycle.frequency === 'custom') {
+    return cycle.intervalDays && cycle.intervalDays > 0
+      ? cycle.intervalDays
+      : PERIOD_DAYS.monthly;
+  }
+  return PERIOD_DAYS[cycle.frequency] ?? PERIOD_DAYS.monthly;
+}
+
+/**
+ * Price suffix for a billing cycle (e.g. '/mo', '/2 wks', '/45 days')
+ */
+export function formatBillingPeriod(cycle: BillingCycle): string {
+  if (cycle.frequency === 'custom') {
+    const days = Math.round(getBillingPeriodDays(cycle));
+    return days === 1 ? '/day' : `/${days} days`;
+  }
+  return PERIOD_LABELS[cycle.frequency] ?? `/${cycle.frequency}`;
+}
+
+/**
+ * Price of one billing cycle expressed over another, rounded to the currency's minor unit
+ * e.g. $120 yearly is $10 monthly, $7 weekly is $30.44 monthly
+ */
+export function getPeriodCost(
+  amount: number,
+  from: BillingCycle,
+  to: BillingCycle,
+  currency?: string
+): number {
+  const factor = getBillingPeriodDays(to) / getBillingPeriodDays(from);
+  return toMajor(multiplyMoney(toMoney(amount, currency), factor));
+}
+
+/**
+ * Monthly equivalent of a subscription's price
+ */
+export function getMonthlyCost(subscription: Subscription): number {
+  return getPeriodCost(subscription.amount, subscription, MONTHLY, subscription.currency);
+}
+
+/**
+ * Yearly equivalent of a subscription's price
+ */
+export function getYearlyCost(subscription: Subscription): number {
+  return getPeriodCost(subscription.amount, subscription, YEARLY, subscription.currency);
+}
+
+/**
+ * Price of a subscription in a currency, or null when it is billed in another one
+ */
+function amountIn(subscription: Subscription, currency: string): number | null {
+  return !subscription.currency || subscription.currency === currency ? subscription.amount : null;
+}
+
+/**
+ * Total of several subscriptions over one period, in one currency
+ * Each price is rounded before adding, so the total matches the listed amounts
+ * Subscriptions without a price in `currency` are left out rather than added as they are
+ * @param amountOf - Price of a subscription in `currency`, or null when it has none
+ * (defaults to its amount when billed in `currency`)
+ */
+export function sumPeriodCost(
+  subscriptions: Subscription[],
+  period: BillingCycle,
+  currency: string,
+  amountOf: (subscription: Subscription) => number | null = (subscription) =>
+    amountIn(subscription, currency)
+): number {
+  const total = subscriptions.reduce((sum, subscription) => {
+    const amount = amountOf(subscription);
+    if (amount === null) return sum;
+    return addMoney(sum, toMoney(getPeriodCost(amount, subscription, period, currency), currency));
+  }, toMoney(0, currency));
+  return toMajor(total);
+}
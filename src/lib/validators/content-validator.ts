@@ -1,6 +1,13 @@
 // CSV structure and content validation
 
 import { AppError } from '../errors';
+import type { StatementFileType } from '../types';
+import { tokenizeCSV } from '../utils/csv';
+import {
+  assertRequiredColumns,
+  detectColumnsInCSV,
+} from '../parsers/transaction-normalizer';
+import { splitHeaderRow } from '../parsers/header-row';
 import {
   validateFile as validateFileBase,
   type ValidationResult,
@@ -16,18 +23,17 @@ export { validateFile } from './file-validator';
 export type { ValidationResult };
 
 /**
- * Validates CSV structure (columns, rows)
+ * Validates CSV structure (columns, rows, detected date and amount columns)
  */
 export function validateCSVStructure(content: string): void {
-  const lines = content.trim().split(/\r?\n/);
+  const rows = tokenizeCSV(content);
 
-  if (lines.length === 0) {
+  if (rows.length === 0) {
     throw new AppError('FILE_EMPTY');
   }
 
-  // Check header row
-  const headerLine = lines[0];
-  const columns = parseCSVLine(headerLine);
+  // Check header row, below any banner rows
+  const { header: columns, rows: dataRows } = splitHeaderRow(rows);
 
   if (columns.length < MIN_COLUMNS) {
     throw new AppError(
@@ -37,8 +43,6 @@ export function validateCSVStructure(content: string): void {
   }
 
   // Check data rows (excluding header)
-  const dataRows = lines.slice(1).filter((line) => line.trim().length > 0);
-
   if (dataRows.length < MIN_DATA_ROWS) {
     throw new AppError(
       'INSUFFICIENT_ROWS',
@@ -48,8 +52,7 @@ export function validateCSVStructure(content: string): void {
 
   // Check for oversized cells
   for (let i = 0; i < Math.min(dataRows.length, 100); i++) {
-    const cells = parseCSVLine(dataRows[i]);
-    for (const cell of cells) {
+    for (const cell of dataRows[i]) {
       if (cell.length > MAX_CELL_LENGTH) {
         throw new AppError(
           'CONTENT_SUSPICIOUS',
@@ -58,36 +61,9 @@ export function validateCSVStructure(content: string): void {
       }
     }
   }
-}
-
-/**
- * Parse a single CSV line handling quoted fields
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++; // Skip next quote
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
 
-  result.push(current.trim());
-  return result;
+  // Check that a date and an amount column can be identified
+  assertRequiredColumns(detectColumnsInCSV(content));
 }
 
 /**
@@ -95,10 +71,10 @@ function parseCSVLine(line: string): string[] {
  */
 export function validateContent(
   content: string,
-  fileType: 'csv' | 'pdf'
+  fileType: StatementFileType
 ): void {
   if (fileType === 'csv') {
     validateCSVStructure(content);
   }
-  // PDF validation happens in pdf-parser.ts
+  // PDF and OFX validation happen in their parsers
 }
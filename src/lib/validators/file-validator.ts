@@ -1,40 +1,91 @@
 // File validation with magic bytes, extension, and size checks
 
 import { AppError } from '../errors';
+import type { StatementFileType } from '../types';
+import { detectEncoding } from '../utils/encoding';
 
 // Configuration
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ALLOWED_EXTENSIONS = ['.csv', '.pdf'];
+const EXTENSION_FILE_TYPES: Record<string, StatementFileType> = {
+  '.csv': 'csv',
+  '.pdf': 'pdf',
+  '.xlsx': 'excel',
+  '.xls': 'excel',
+  '.ofx': 'ofx',
+  '.qfx': 'ofx', // Quicken's OFX variant
+  '.xml': 'camt053',
+  '.sta': 'mt940',
+  '.mt940': 'mt940',
+  '.940': 'mt940',
+  '.png': 'image',
+  '.jpg': 'image',
+  '.jpeg': 'image',
+  '.heic': 'image', // iPhone camera photos
+  '.heif': 'image',
+};
 const ALLOWED_MIME_TYPES = [
   'text/csv',
   'text/plain',
   'application/csv',
   'application/pdf',
-  'application/vnd.ms-excel', // Some systems use this for CSV
+  'application/vnd.ms-excel', // Legacy .xls, also used by some systems for CSV
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
+  'application/x-ofx',
+  'application/ofx',
+  'application/vnd.intu.qfx',
+  'application/x-qfx',
+  'application/xml', // camt.053
+  'text/xml',
+  'image/png',
+  'image/jpeg',
+  'image/heic',
+  'image/heif',
+  'application/octet-stream', // OFX/QFX usually have no registered MIME type
 ];
 
+/**
+ * Convert an ASCII signature to its bytes
+ */
+function asciiBytes(signature: string): number[] {
+  return Array.from(signature, (char) => char.charCodeAt(0));
+}
+
 // Magic bytes for file type detection
 const MAGIC_BYTES = {
   PDF: [0x25, 0x50, 0x44, 0x46], // %PDF
+  ZIP: [0x50, 0x4b, 0x03, 0x04], // PK.. (.xlsx is a ZIP package)
+  OLE: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], // Compound file (.xls)
+  OFX_SGML: asciiBytes('OFXHEADER'),
+  OFX_XML: asciiBytes('<?OFX'),
+  CAMT053: asciiBytes('camt.053'), // Namespace on the <Document> root
+  MT940_REFERENCE: asciiBytes(':20:'), // Transaction reference number
+  MT940_ACCOUNT: asciiBytes(':25:'), // Account identification
+  PNG: [0x89, 0x50, 0x4e, 0x47], // .PNG
+  JPEG: [0xff, 0xd8, 0xff], // Start of image marker
+  HEIF_BOX: asciiBytes('ftyp'), // ISO media box at offset 4 (HEIC/HEIF)
 };
 
+// How far into the file to look for text signatures (headers may follow a BOM, blank lines or <?xml ...?>)
+const SIGNATURE_SCAN_BYTES = 512;
+
 export interface ValidationResult {
   valid: boolean;
-  fileType: 'csv' | 'pdf';
+  fileType: StatementFileType;
   error?: AppError;
 }
 
 /**
  * Validates file extension
  */
-export function validateExtension(fileName: string): 'csv' | 'pdf' {
+export function validateExtension(fileName: string): StatementFileType {
   const extension = fileName.toLowerCase().slice(fileName.lastIndexOf('.'));
+  const fileType = EXTENSION_FILE_TYPES[extension];
 
-  if (!ALLOWED_EXTENSIONS.includes(extension)) {
+  if (!fileType) {
     throw new AppError('INVALID_EXTENSION', `Extension: ${extension}`);
   }
 
-  return extension === '.pdf' ? 'pdf' : 'csv';
+  return fileType;
 }
 
 /**
@@ -62,14 +113,27 @@ export function validateMimeType(mimeType: string): void {
   }
 }
 
+/**
+ * Check whether a byte signature appears anywhere in the scanned bytes
+ */
+function containsSignature(bytes: Uint8Array, signature: number[]): boolean {
+  for (let start = 0; start <= bytes.length - signature.length; start++) {
+    if (signature.every((byte, index) => bytes[start + index] === byte)) {
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
  * Validates file using magic bytes (file signature)
  */
 export async function validateMagicBytes(
   file: File
-): Promise<'csv' | 'pdf'> {
-  const buffer = await file.slice(0, 8).arrayBuffer();
-  const bytes = new Uint8Array(buffer);
+): Promise<StatementFileType> {
+  const buffer = await file.slice(0, SIGNATURE_SCAN_BYTES).arrayBuffer();
+  const raw = new Uint8Array(buffer);
+  const bytes = raw.slice(0, 8);
 
   // Check for PDF magic bytes (%PDF)
   const isPDF = MAGIC_BYTES.PDF.every((byte, index) => bytes[index] === byte);
@@ -78,15 +142,59 @@ export async function validateMagicBytes(
     return 'pdf';
   }
 
+  const isSpreadsheet =
+    MAGIC_BYTES.ZIP.every((byte, index) => bytes[index] === byte) ||
+    MAGIC_BYTES.OLE.every((byte, index) => bytes[index] === byte);
+
+  if (isSpreadsheet) {
+    return 'excel';
+  }
+
+  const isImage =
+    MAGIC_BYTES.PNG.every((byte, index) => bytes[index] === byte) ||
+    MAGIC_BYTES.JPEG.every((byte, index) => bytes[index] === byte) ||
+    MAGIC_BYTES.HEIF_BOX.every((byte, index) => bytes[index + 4] === byte);
+
+  if (isImage) {
+    return 'image';
+  }
+
+  // UTF-16 text is re-encoded so the text checks below see ASCII bytes
+  const encoding = detectEncoding(raw);
+  const scanned = encoding.startsWith('utf-16')
+    ? new TextEncoder().encode(
+        new TextDecoder(encoding).decode(raw.subarray(0, raw.length - (raw.length % 2)))
+      )
+    : raw;
+
+  // OFX, camt.053 and MT940 are text-based, so check their headers before falling back to CSV
+  if (
+    containsSignature(scanned, MAGIC_BYTES.OFX_SGML) ||
+    containsSignature(scanned, MAGIC_BYTES.OFX_XML)
+  ) {
+    return 'ofx';
+  }
+
+  if (containsSignature(scanned, MAGIC_BYTES.CAMT053)) {
+    return 'camt053';
+  }
+
+  if (
+    containsSignature(scanned, MAGIC_BYTES.MT940_REFERENCE) &&
+    containsSignature(scanned, MAGIC_BYTES.MT940_ACCOUNT)
+  ) {
+    return 'mt940';
+  }
+
   // For CSV, check if it starts with printable ASCII characters
   // CSV files should start with text (headers)
-  const isTextBased = bytes.every(
+  const isTextBased = scanned.slice(0, 8).every(
     (byte) =>
       (byte >= 0x20 && byte <= 0x7e) || // Printable ASCII
       byte === 0x0a || // LF
       byte === 0x0d || // CR
       byte === 0x09 || // Tab
-      byte >= 0xc0 // UTF-8 multibyte start
+      byte >= 0x80 // UTF-8 multibyte or a legacy code page (Windows-1252, Shift-JIS)
   );
 
   if (!isTextBased) {
@@ -117,7 +225,9 @@ export async function validateFile(file: File): Promise<ValidationResult> {
     const magicType = await validateMagicBytes(file);
 
     // Ensure extension matches magic bytes
-    if (extensionType !== magicType) {
+    // Many banks export HTML or tab-separated text as .xls, which the spreadsheet reader handles
+    const isTextSpreadsheet = extensionType === 'excel' && magicType === 'csv';
+    if (extensionType !== magicType && !isTextSpreadsheet) {
       throw new AppError(
         'INVALID_FORMAT',
         `Extension says ${extensionType}, but content is ${magicType}`
@@ -126,7 +236,7 @@ export async function validateFile(file: File): Promise<ValidationResult> {
 
     return {
       valid: true,
-      fileType: magicType,
+      fileType: extensionType,
     };
   } catch (error) {
     if (error instanceof AppError) {